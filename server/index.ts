@@ -7,6 +7,23 @@
 import express from 'express';
 import cors from 'cors';
 import gpsRoutes from './routes/gps.js';
+import routeRoutes from './routes/route.js';
+import maneuverRoutes from './routes/maneuver.js';
+import playbackRoutes from './routes/playback.js';
+import recordingRoutes from './routes/recordings.js';
+import windRoutes from './routes/wind.js';
+import trafficRoutes from './routes/traffic.js';
+import scenarioRoutes from './routes/scenarios.js';
+import autopilotRoutes from './routes/autopilot.js';
+import profileRoutes from './routes/profiles.js';
+import degradationRoutes from './routes/degradation.js';
+import targetRoutes from './routes/targets.js';
+import deviceRoutes from './routes/devices.js';
+import terrainRoutes from './routes/terrain.js';
+import eventRoutes from './routes/events.js';
+import tileRoutes from './routes/tiles.js';
+import airportRoutes from './routes/airports.js';
+import { getGPSServerInstance } from './services/GPSDataServer.js';
 
 const app = express();
 const PORT = process.env.PORT || 5001;
@@ -22,7 +39,23 @@ app.use((req, res, next) => {
 });
 
 // Routes
+app.use('/api/gps/route', routeRoutes);
+app.use('/api/gps/maneuver', maneuverRoutes);
+app.use('/api/gps/playback', playbackRoutes);
+app.use('/api/gps/recordings', recordingRoutes);
+app.use('/api/gps/wind', windRoutes);
+app.use('/api/gps/traffic', trafficRoutes);
+app.use('/api/gps/scenarios', scenarioRoutes);
+app.use('/api/gps/autopilot', autopilotRoutes);
+app.use('/api/gps/profiles', profileRoutes);
+app.use('/api/gps/degradation', degradationRoutes);
+app.use('/api/gps/targets', targetRoutes);
+app.use('/api/gps/devices', deviceRoutes);
+app.use('/api/gps/terrain', terrainRoutes);
+app.use('/api/gps/events', eventRoutes);
 app.use('/api/gps', gpsRoutes);
+app.use('/api/tiles', tileRoutes);
+app.use('/api/airports', airportRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -55,11 +88,65 @@ app.listen(PORT, () => {
   console.log('');
   console.log('Available endpoints:');
   console.log('  GET  /api/gps/status    - Get server status');
+  console.log('  GET  /api/gps/interfaces - List local network interfaces');
+  console.log('  GET  /api/gps/events    - Live event stream (Server-Sent Events)');
   console.log('  POST /api/gps/start     - Start GPS broadcasting');
   console.log('  POST /api/gps/stop      - Stop GPS broadcasting');
   console.log('  POST /api/gps/position  - Update position');
+  console.log('  PATCH /api/gps/position - Update position fields');
   console.log('  PUT  /api/gps/config    - Update configuration');
+  console.log('  GET  /api/gps/flight    - Get flight state');
+  console.log('  POST /api/gps/flight/start - Start flight engine');
+  console.log('  POST /api/gps/flight/stop  - Stop flight engine');
+  console.log('  POST /api/gps/flight/takeoff - Begin the takeoff roll');
+  console.log('  GET  /api/gps/autopilot - Get selected altitude/heading/speed');
+  console.log('  PUT  /api/gps/autopilot - Set selected altitude/heading/speed');
+  console.log('  GET  /api/gps/profiles  - List aircraft profiles');
+  console.log('  PUT  /api/gps/profiles/active - Select aircraft profile');
+  console.log('  GET  /api/gps/route     - Get route');
+  console.log('  PUT  /api/gps/route     - Replace route');
+  console.log('  POST /api/gps/route/import - Import GPX/KML/FPL flight plan');
+  console.log('  DELETE /api/gps/route  - Clear route');
+  console.log('  GET  /api/gps/maneuver  - Get hold/orbit/DME arc and its path');
+  console.log('  PUT  /api/gps/maneuver  - Plan hold/orbit/DME arc');
+  console.log('  POST /api/gps/maneuver/execute - Fly the planned maneuver');
+  console.log('  DELETE /api/gps/maneuver - Stop and clear maneuver');
+  console.log('  GET  /api/gps/playback  - Get track playback state');
+  console.log('  POST /api/gps/playback/load - Load GPX/KML/CSV/IGC track');
+  console.log('  POST /api/gps/playback/play|pause|seek - Control playback');
+  console.log('  GET  /api/gps/recordings - List recordings');
+  console.log('  POST /api/gps/recordings - Start recording');
+  console.log('  POST /api/gps/recordings/stop - Stop and save recording');
+  console.log('  GET  /api/gps/recordings/:id/download - Download recording');
+  console.log('  GET  /api/gps/wind      - Get wind');
+  console.log('  PUT  /api/gps/wind      - Set wind (optionally by altitude)');
+  console.log('  GET  /api/gps/traffic   - List traffic targets');
+  console.log('  POST /api/gps/traffic   - Add traffic target');
+  console.log('  POST /api/gps/traffic/spawn - Spawn random traffic around ownship');
+  console.log('  PUT|DELETE /api/gps/traffic/:id - Replace or remove traffic target');
+  console.log('  DELETE /api/gps/traffic - Remove all traffic');
+  console.log('  GET  /api/gps/targets   - List output targets');
+  console.log('  POST /api/gps/targets   - Add output target');
+  console.log('  PUT|DELETE /api/gps/targets/:id - Replace or remove output target');
+  console.log('  GET  /api/gps/devices   - List EFBs found by discovery broadcast');
+  console.log('  DELETE /api/gps/devices - Forget discovered EFBs');
+  console.log('  GET  /api/gps/terrain   - Get terrain tiles and blocking');
+  console.log('  GET  /api/gps/terrain/elevation?lat=&lon= - Get ground elevation');
+  console.log('  PUT  /api/gps/terrain   - Block flight below terrain');
+  console.log('  GET  /api/gps/degradation - Get injected GPS failures');
+  console.log('  PUT  /api/gps/degradation - Inject GPS failures');
+  console.log('  DELETE /api/gps/degradation - Restore a healthy GPS');
+  console.log('  GET  /api/gps/scenarios - List traffic scenarios');
+  console.log('  POST /api/gps/scenarios/start|stop - Run a scripted encounter');
+  console.log('  GET  /api/tiles         - List offline map layers (MBTiles)');
+  console.log('  GET  /api/tiles/:layer/:z/:x/:y - Get a map tile');
+  console.log('  GET  /api/airports?q=   - Search airports by ident or name');
+  console.log('  GET  /api/airports/:ident - Get an airport and its runways');
+  console.log('  POST /api/airports/:ident/spawn - Place the aircraft on a runway');
+  console.log('  POST /api/airports/:ident/land - Fly a final approach and land');
   console.log('=====================================');
+
+  getGPSServerInstance().getDeviceDiscovery().start();
 });
 
 // Graceful shutdown
@@ -0,0 +1,154 @@
+/**
+ * Airport API Routes
+ *
+ * Offline airport and runway search, placing the aircraft on a runway, and
+ * landing on one
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { MAX_SEARCH_RESULTS, getAirportDatabase, runwayThresholdPosition } from '../services/AirportDatabase.js';
+import { Airport, RunwayEnd } from '../../src/types/airport.js';
+
+const router = express.Router();
+
+/**
+ * Load the airport database, answering 503 if the CSV files can't be read
+ */
+async function loadDatabase(res: express.Response): Promise<boolean> {
+  try {
+    await getAirportDatabase().load();
+    return true;
+  } catch (error) {
+    res.status(503).json({
+      error: 'Airport database not available',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+}
+
+/**
+ * Find the airport and runway end named in a request, answering 400 or 404
+ * if either is missing
+ */
+async function findRunway(
+  req: express.Request,
+  res: express.Response
+): Promise<{ airport: Airport; end: RunwayEnd } | null> {
+  const { runway } = req.body ?? {};
+  if (typeof runway !== 'string' || runway.trim() === '') {
+    res.status(400).json({ error: 'Runway is required (e.g., 34L)' });
+    return null;
+  }
+
+  if (!(await loadDatabase(res))) return null;
+
+  const ident = String(req.params.ident);
+  const airport = getAirportDatabase().get(ident);
+  if (!airport) {
+    res.status(404).json({ error: `Airport ${ident} not found` });
+    return null;
+  }
+
+  const runwayIdent = runway.trim().toUpperCase();
+  const end = airport.runways
+    .flatMap((candidate) => candidate.ends)
+    .find((candidate) => candidate.ident.toUpperCase() === runwayIdent);
+  if (!end) {
+    res.status(404).json({
+      error: `Runway ${runwayIdent} not found at ${airport.ident}`,
+      details: `Runways: ${airport.runways.flatMap((candidate) => candidate.ends.map((e) => e.ident)).join(', ') || 'none'}`,
+    });
+    return null;
+  }
+
+  return { airport, end };
+}
+
+/**
+ * GET /api/airports?q=&limit=
+ * Search airports by ident, code or name
+ */
+router.get('/', async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+    return res.status(400).json({ error: `Limit must be an integer between 1 and ${MAX_SEARCH_RESULTS}` });
+  }
+
+  if (!(await loadDatabase(res))) return;
+
+  res.json({ airports: getAirportDatabase().search(query, limit) });
+});
+
+/**
+ * GET /api/airports/:ident
+ * Get an airport and its runways
+ */
+router.get('/:ident', async (req, res) => {
+  if (!(await loadDatabase(res))) return;
+
+  const airport = getAirportDatabase().get(req.params.ident);
+  if (!airport) {
+    return res.status(404).json({ error: `Airport ${req.params.ident} not found` });
+  }
+
+  res.json({ airport });
+});
+
+/**
+ * POST /api/airports/:ident/spawn
+ * Stop the flight and place the aircraft on a runway threshold, lined up
+ * with the runway at the threshold elevation: { runway } (e.g., "34L")
+ */
+router.post('/:ident/spawn', async (req, res) => {
+  const found = await findRunway(req, res);
+  if (!found) return;
+  const { airport, end } = found;
+
+  const server = getGPSServerInstance();
+  server.getFlightEngine().stop();
+  server.getTrackPlayer().pause();
+
+  const position = runwayThresholdPosition(airport, end);
+  server.updatePosition(position);
+
+  res.json({ message: `Aircraft placed on ${airport.ident} runway ${end.ident}`, position });
+});
+
+/**
+ * POST /api/airports/:ident/land
+ * Fly a stabilized final approach to a runway and land: { runway }. The
+ * flight must be in progress with the aircraft in the air.
+ */
+router.post('/:ident/land', async (req, res) => {
+  const found = await findRunway(req, res);
+  if (!found) return;
+  const { airport, end } = found;
+
+  const threshold = runwayThresholdPosition(airport, end);
+  try {
+    getGPSServerInstance().getFlightEngine().land({
+      airport: airport.ident,
+      runway: end.ident,
+      latitude: threshold.latitude,
+      longitude: threshold.longitude,
+      elevation: threshold.altitude,
+      heading: end.heading,
+    });
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Failed to start landing',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  res.json({
+    message: `Landing on ${airport.ident} runway ${end.ident}`,
+    ...getGPSServerInstance().getFlightEngine().getState(),
+  });
+});
+
+export default router;
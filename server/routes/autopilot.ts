@@ -0,0 +1,77 @@
+/**
+ * Autopilot API Routes
+ *
+ * REST resource for the selected altitude, heading and speed flown by the
+ * flight engine
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { AutopilotTargets } from '../../src/types/autopilot.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/autopilot
+ * Get the selected targets
+ */
+router.get('/', (req, res) => {
+  const autopilot = getGPSServerInstance().getFlightEngine().getAutopilot();
+  res.json(autopilot.getTargets());
+});
+
+/**
+ * PUT /api/gps/autopilot
+ * Change selected targets. Fields left out are unchanged; null disengages
+ * a target, leaving that value under manual control.
+ * Body: { altitude?, heading?, speed?, verticalSpeed? }
+ */
+router.put('/', (req, res) => {
+  const { altitude, heading, speed, verticalSpeed } = req.body ?? {};
+  const changes: Partial<AutopilotTargets> = {};
+
+  if (altitude !== undefined) {
+    if (altitude !== null && (typeof altitude !== 'number' || altitude < -1000 || altitude > 60000)) {
+      return res.status(400).json({ error: 'Selected altitude must be between -1000 and 60000 feet, or null' });
+    }
+    changes.altitude = altitude;
+  }
+
+  if (heading !== undefined) {
+    if (heading !== null && (typeof heading !== 'number' || heading < 0 || heading >= 360)) {
+      return res.status(400).json({ error: 'Selected heading must be between 0 and 359, or null' });
+    }
+    changes.heading = heading;
+  }
+
+  if (speed !== undefined) {
+    if (speed !== null && (typeof speed !== 'number' || speed < 0 || speed > 1000)) {
+      return res.status(400).json({ error: 'Selected speed must be between 0 and 1000 knots, or null' });
+    }
+    changes.speed = speed;
+  }
+
+  if (verticalSpeed !== undefined) {
+    if (typeof verticalSpeed !== 'number' || verticalSpeed <= 0 || verticalSpeed > 10000) {
+      return res.status(400).json({ error: 'Selected vertical speed must be between 1 and 10000 feet per minute' });
+    }
+    changes.verticalSpeed = verticalSpeed;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return res.status(400).json({
+      error: 'No autopilot targets provided',
+      details: 'Allowed fields: altitude, heading, speed, verticalSpeed',
+    });
+  }
+
+  const autopilot = getGPSServerInstance().getFlightEngine().getAutopilot();
+  autopilot.setTargets(changes);
+
+  res.json({
+    message: 'Autopilot targets updated',
+    ...autopilot.getTargets(),
+  });
+});
+
+export default router;
@@ -0,0 +1,104 @@
+/**
+ * GPS Degradation API Routes
+ *
+ * REST resource for injecting GPS failures into the broadcast position
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { DegradationConfig } from '../../src/types/degradation.js';
+
+const router = express.Router();
+
+type NumericSetting = 'noise' | 'drift' | 'jumpInterval' | 'jumpDistance' | 'nic' | 'nacp';
+
+/**
+ * Numeric settings with their allowed range and unit
+ */
+const NUMERIC_LIMITS: Record<NumericSetting, [number, number, string]> = {
+  noise: [0, 1000, 'meters'],
+  drift: [0, 1000, 'meters per minute'],
+  jumpInterval: [0, 3600, 'seconds'],
+  jumpDistance: [0, 10000, 'meters'],
+  nic: [0, 11, ''],
+  nacp: [0, 11, ''],
+};
+
+/**
+ * GET /api/gps/degradation
+ * Get the injected failures and their current effect
+ */
+router.get('/', (req, res) => {
+  res.json(getGPSServerInstance().getDegrader().getState());
+});
+
+/**
+ * PUT /api/gps/degradation
+ * Change injected failures. Fields left out are unchanged.
+ * Body: { noise?, drift?, jumpInterval?, jumpDistance?, freeze?, lossOfFix?, nic?, nacp? }
+ */
+router.put('/', (req, res) => {
+  const body = req.body ?? {};
+  const changes: Partial<DegradationConfig> = {};
+
+  for (const [field, [min, max, unit]] of Object.entries(NUMERIC_LIMITS)) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    const integer = field === 'nic' || field === 'nacp';
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max ||
+      (integer && !Number.isInteger(value))
+    ) {
+      return res.status(400).json({
+        error: 'Invalid degradation',
+        details: `${field} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}${unit ? ` ${unit}` : ''}`,
+      });
+    }
+    changes[field as NumericSetting] = value;
+  }
+
+  for (const field of ['freeze', 'lossOfFix'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (typeof value !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid degradation', details: `${field} must be true or false` });
+    }
+    changes[field] = value;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return res.status(400).json({
+      error: 'No degradation settings provided',
+      details: 'Allowed fields: noise, drift, jumpInterval, jumpDistance, freeze, lossOfFix, nic, nacp',
+    });
+  }
+
+  const degrader = getGPSServerInstance().getDegrader();
+  degrader.setConfig(changes);
+
+  res.json({
+    message: 'GPS degradation updated',
+    ...degrader.getState(),
+  });
+});
+
+/**
+ * DELETE /api/gps/degradation
+ * Restore a healthy GPS
+ */
+router.delete('/', (req, res) => {
+  const degrader = getGPSServerInstance().getDegrader();
+  degrader.reset();
+
+  res.json({
+    message: 'GPS degradation cleared',
+    ...degrader.getState(),
+  });
+});
+
+export default router;
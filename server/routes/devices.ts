@@ -0,0 +1,34 @@
+/**
+ * Discovered Devices API Routes
+ *
+ * EFBs found by listening for ForeFlight's GDL 90 discovery broadcast
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/devices
+ * List recently announced devices, most recently seen first
+ */
+router.get('/', (req, res) => {
+  const discovery = getGPSServerInstance().getDeviceDiscovery();
+  res.json({
+    devices: discovery.getDevices(),
+    listening: discovery.isListening(),
+    port: discovery.getPort(),
+  });
+});
+
+/**
+ * DELETE /api/gps/devices
+ * Forget all discovered devices
+ */
+router.delete('/', (req, res) => {
+  getGPSServerInstance().getDeviceDiscovery().clear();
+  res.json({ message: 'Discovered devices cleared' });
+});
+
+export default router;
@@ -0,0 +1,35 @@
+/**
+ * Live Events API Routes
+ *
+ * Server-Sent Events stream of transmitted positions, engine starts and
+ * stops, flight phases, and send errors
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { ServerEvent } from '../../src/types/events.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/events
+ * Subscribe to live events. The current state of every engine is sent first.
+ */
+router.get('/', (req, res) => {
+  const server = getGPSServerInstance();
+  const flight = server.getFlightEngine().getState();
+  // Positions follow at the update rate while the server is running
+  const initialEvents: ServerEvent[] = [
+    { type: 'state', engine: 'server', running: server.getIsRunning() },
+    { type: 'state', engine: 'flight', running: flight.isFlying },
+    { type: 'phase', phase: flight.phase, landing: flight.landing },
+    { type: 'state', engine: 'playback', running: server.getTrackPlayer().getIsPlaying() },
+    { type: 'state', engine: 'scenario', running: server.getScenarioPlayer().getState().isRunning },
+    { type: 'nmeaClients', count: server.getNMEAClientCount() },
+    { type: 'devices', devices: server.getDeviceDiscovery().getDevices() },
+  ];
+
+  server.getEventStream().subscribe(res, initialEvents);
+});
+
+export default router;
@@ -6,10 +6,76 @@
 
 import express from 'express';
 import { getGPSServerInstance } from '../services/GPSDataServer.js';
-import { GPSPosition } from '../../src/types/gps.js';
+import { DeliveryMode, GPSPosition, OutputProtocol } from '../../src/types/gps.js';
+import { NMEA_SENTENCES, NMEASentence, NMEATransport } from '../../src/types/nmea.js';
+import { SERIAL_BAUD_RATES, SerialOutput } from '../../src/types/serial.js';
+import { MAX_ICAO_ADDRESS, formatICAOAddress, nNumberToICAOAddress } from '../utils/icaoAddress.js';
+import { isMulticastAddress, listLocalInterfaces } from '../utils/network.js';
 
 const router = express.Router();
 
+const OUTPUT_PROTOCOLS: OutputProtocol[] = ['xgps', 'gdl90', 'both'];
+const NMEA_TRANSPORTS: NMEATransport[] = ['off', 'udp', 'tcp'];
+const SERIAL_OUTPUTS: SerialOutput[] = ['off', 'nmea', 'gdl90'];
+const DELIVERY_MODES: DeliveryMode[] = ['unicast', 'broadcast', 'multicast'];
+
+/**
+ * Validate a complete position, returning the error response if invalid
+ */
+function validatePosition(position: unknown): { error: string; details?: string } | null {
+  const candidate = position as Partial<GPSPosition> | null;
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (
+    !candidate ||
+    !isNumber(candidate.latitude) ||
+    !isNumber(candidate.longitude) ||
+    !isNumber(candidate.altitude) ||
+    !isNumber(candidate.heading) ||
+    !isNumber(candidate.groundSpeed)
+  ) {
+    return {
+      error: 'Invalid position data',
+      details: 'Required fields: latitude, longitude, altitude, heading, groundSpeed',
+    };
+  }
+
+  for (const field of ['verticalSpeed', 'trueHeading', 'trueAirspeed'] as const) {
+    if (candidate[field] !== undefined && !isNumber(candidate[field])) {
+      return { error: `${field} must be a number` };
+    }
+  }
+
+  if (candidate.latitude < -90 || candidate.latitude > 90) {
+    return { error: 'Latitude must be between -90 and 90' };
+  }
+
+  if (candidate.longitude < -180 || candidate.longitude > 180) {
+    return { error: 'Longitude must be between -180 and 180' };
+  }
+
+  if (candidate.heading < 0 || candidate.heading >= 360) {
+    return { error: 'Heading must be between 0 and 359' };
+  }
+
+  if (candidate.onGround !== undefined && typeof candidate.onGround !== 'boolean') {
+    return { error: 'onGround must be a boolean' };
+  }
+
+  return null;
+}
+
+/**
+ * Fill in the optional fields of a validated position and stamp it
+ */
+function completePosition(position: GPSPosition): GPSPosition {
+  return {
+    ...position,
+    verticalSpeed: position.verticalSpeed ?? 0,
+    timestamp: Date.now(),
+  };
+}
+
 /**
  * GET /api/gps/status
  * Get the current server status
@@ -19,10 +85,22 @@ router.get('/status', (req, res) => {
   res.json({
     isRunning: server.getIsRunning(),
     config: server.getConfig(),
+    ownship: server.getOwnshipIdentity(),
     currentPosition: server.getCurrentPosition(),
+    nmeaClients: server.getNMEAClientCount(),
+    serialPath: server.getSerialPath(),
+    destination: server.getDestination(),
   });
 });
 
+/**
+ * GET /api/gps/interfaces
+ * List local network interfaces to broadcast or multicast on
+ */
+router.get('/interfaces', (req, res) => {
+  res.json({ interfaces: listLocalInterfaces() });
+});
+
 /**
  * POST /api/gps/start
  * Start the GPS data server
@@ -34,13 +112,19 @@ router.post('/start', async (req, res) => {
     return res.status(400).json({ error: 'Server is already running' });
   }
 
-  try {
-    // Accept initial position from the request body
-    const initialPosition: GPSPosition | undefined = req.body.position;
+  // Accept initial position from the request body
+  const initialPosition: GPSPosition | undefined = req.body?.position;
+  if (initialPosition !== undefined) {
+    const error = validatePosition(initialPosition);
+    if (error) {
+      return res.status(400).json(error);
+    }
+  }
 
+  try {
     // If position is provided, update it before starting
     if (initialPosition) {
-      server.updatePosition(initialPosition);
+      server.updatePosition(completePosition(initialPosition));
     }
 
     await server.start();
@@ -86,53 +170,199 @@ router.post('/position', (req, res) => {
   }
 
   const position: GPSPosition = req.body;
+  const error = validatePosition(position);
+  if (error) {
+    return res.status(400).json(error);
+  }
 
-  // Validate required fields
-  if (
-    typeof position.latitude !== 'number' ||
-    typeof position.longitude !== 'number' ||
-    typeof position.altitude !== 'number' ||
-    typeof position.heading !== 'number' ||
-    typeof position.groundSpeed !== 'number'
-  ) {
+  const updatedPosition = completePosition(position);
+  server.updatePosition(updatedPosition);
+
+  res.json({
+    message: 'Position updated successfully',
+    position: updatedPosition,
+  });
+});
+
+/**
+ * PATCH /api/gps/position
+ * Update individual fields of the current GPS position (e.g., heading or
+ * speed changes while the flight engine is moving the aircraft)
+ */
+router.patch('/position', (req, res) => {
+  const server = getGPSServerInstance();
+  const currentPosition = server.getCurrentPosition();
+
+  if (!currentPosition) {
+    return res.status(400).json({ error: 'No current position to update' });
+  }
+
+  const fields = [
+    'latitude',
+    'longitude',
+    'altitude',
+    'heading',
+    'groundSpeed',
+    'verticalSpeed',
+    'trueHeading',
+    'trueAirspeed',
+  ] as const;
+  const changes: Partial<GPSPosition> = {};
+
+  for (const field of fields) {
+    const value = req.body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return res.status(400).json({ error: `${field} must be a number` });
+    }
+    changes[field] = value;
+  }
+
+  if (Object.keys(changes).length === 0) {
     return res.status(400).json({
-      error: 'Invalid position data',
-      details:
-        'Required fields: latitude, longitude, altitude, heading, groundSpeed',
+      error: 'No valid position fields provided',
+      details: `Allowed fields: ${fields.join(', ')}`,
     });
   }
 
-  // Validate ranges
-  if (position.latitude < -90 || position.latitude > 90) {
+  if (changes.latitude !== undefined && (changes.latitude < -90 || changes.latitude > 90)) {
     return res
       .status(400)
       .json({ error: 'Latitude must be between -90 and 90' });
   }
 
-  if (position.longitude < -180 || position.longitude > 180) {
+  if (changes.longitude !== undefined && (changes.longitude < -180 || changes.longitude > 180)) {
     return res
       .status(400)
       .json({ error: 'Longitude must be between -180 and 180' });
   }
 
-  if (position.heading < 0 || position.heading >= 360) {
+  if (changes.heading !== undefined && (changes.heading < 0 || changes.heading >= 360)) {
     return res
       .status(400)
       .json({ error: 'Heading must be between 0 and 359' });
   }
 
-  // Set default values for optional fields
-  const completePosition: GPSPosition = {
-    ...position,
-    verticalSpeed: position.verticalSpeed ?? 0,
+  if (changes.trueHeading !== undefined && (changes.trueHeading < 0 || changes.trueHeading >= 360)) {
+    return res
+      .status(400)
+      .json({ error: 'True heading must be between 0 and 359' });
+  }
+
+  if (
+    (changes.groundSpeed !== undefined && changes.groundSpeed < 0) ||
+    (changes.trueAirspeed !== undefined && changes.trueAirspeed < 0)
+  ) {
+    return res.status(400).json({ error: 'Speeds must not be negative' });
+  }
+
+  let updatedPosition: GPSPosition = {
+    ...currentPosition,
+    ...changes,
     timestamp: Date.now(),
   };
 
-  server.updatePosition(completePosition);
+  // Keep the air and ground vectors consistent with the wind: air data
+  // changes move the track, and track changes re-solve the heading to fly
+  const wind = server.getFlightEngine().getWindModel();
+  if (changes.trueHeading !== undefined || changes.trueAirspeed !== undefined) {
+    updatedPosition = wind.applyAirData(updatedPosition);
+  } else if (changes.heading !== undefined || changes.groundSpeed !== undefined) {
+    updatedPosition = wind.deriveAirData(updatedPosition);
+  }
+
+  server.updatePosition(updatedPosition);
 
   res.json({
     message: 'Position updated successfully',
-    position: completePosition,
+    position: updatedPosition,
+  });
+});
+
+/**
+ * GET /api/gps/flight
+ * Get the flight engine state and live position
+ */
+router.get('/flight', (req, res) => {
+  const server = getGPSServerInstance();
+  res.json(server.getFlightEngine().getState());
+});
+
+/**
+ * POST /api/gps/flight/start
+ * Start the server-side flight engine
+ */
+router.post('/flight/start', (req, res) => {
+  const server = getGPSServerInstance();
+  const engine = server.getFlightEngine();
+
+  if (engine.getIsFlying()) {
+    return res.status(400).json({ error: 'Flight is already in progress' });
+  }
+
+  // Accept a starting position from the request body
+  const initialPosition: GPSPosition | undefined = req.body?.position;
+  if (initialPosition !== undefined) {
+    const error = validatePosition(initialPosition);
+    if (error) {
+      return res.status(400).json(error);
+    }
+    server.updatePosition(completePosition(initialPosition));
+  }
+
+  try {
+    // Dead reckoning and track playback both drive the position
+    server.getTrackPlayer().pause();
+    engine.start();
+    res.json({
+      message: 'Flight started',
+      ...engine.getState(),
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Failed to start flight',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/gps/flight/takeoff
+ * Begin the takeoff roll (the aircraft must be parked or taxiing)
+ */
+router.post('/flight/takeoff', (req, res) => {
+  const engine = getGPSServerInstance().getFlightEngine();
+
+  try {
+    engine.takeOff();
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Failed to take off',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  res.json({
+    message: 'Takeoff roll started',
+    ...engine.getState(),
+  });
+});
+
+/**
+ * POST /api/gps/flight/stop
+ * Stop the server-side flight engine
+ */
+router.post('/flight/stop', (req, res) => {
+  const engine = getGPSServerInstance().getFlightEngine();
+
+  if (!engine.getIsFlying()) {
+    return res.status(400).json({ error: 'No flight in progress' });
+  }
+
+  engine.stop();
+  res.json({
+    message: 'Flight stopped',
+    ...engine.getState(),
   });
 });
 
@@ -140,10 +370,32 @@ router.post('/position', (req, res) => {
  * PUT /api/gps/config
  * Update server configuration
  */
-router.put('/config', (req, res) => {
+router.put('/config', async (req, res) => {
   const server = getGPSServerInstance();
   console.log('Received config update request:', req.body); // Debug log
-  const { port, targetIP, updateRate } = req.body;
+  const {
+    port,
+    gdl90Port,
+    targetIP,
+    deliveryMode,
+    networkInterface,
+    multicastGroup,
+    multicastTTL,
+    updateRate,
+    protocol,
+    nmeaOutput,
+    nmeaPort,
+    nmeaTalkerId,
+    nmeaSentences,
+    serialOutput,
+    serialPath,
+    serialBaudRate,
+    attitudeOutput,
+    ownshipAddress,
+    ownshipCallsign,
+    ownshipEmitterCategory,
+    ownshipRegistration,
+  } = req.body;
 
   const updates: any = {};
   console.log('Extracted values - port:', port, 'targetIP:', targetIP, 'updateRate:', updateRate); // Debug log
@@ -157,6 +409,15 @@ router.put('/config', (req, res) => {
     updates.port = port;
   }
 
+  if (gdl90Port !== undefined) {
+    if (typeof gdl90Port !== 'number' || gdl90Port < 1 || gdl90Port > 65535) {
+      return res
+        .status(400)
+        .json({ error: 'GDL 90 port must be a number between 1 and 65535' });
+    }
+    updates.gdl90Port = gdl90Port;
+  }
+
   if (targetIP !== undefined) {
     console.log('Processing targetIP:', targetIP, 'type:', typeof targetIP); // Debug log
     if (typeof targetIP !== 'string') {
@@ -175,6 +436,43 @@ router.put('/config', (req, res) => {
     updates.targetIP = targetIP;
   }
 
+  if (deliveryMode !== undefined) {
+    if (!DELIVERY_MODES.includes(deliveryMode)) {
+      return res.status(400).json({
+        error: `Delivery mode must be one of: ${DELIVERY_MODES.join(', ')}`,
+      });
+    }
+    updates.deliveryMode = deliveryMode;
+  }
+
+  if (networkInterface !== undefined) {
+    if (typeof networkInterface !== 'string') {
+      return res.status(400).json({ error: 'Network interface must be a string' });
+    }
+    if (networkInterface && !listLocalInterfaces().some((info) => info.name === networkInterface)) {
+      return res
+        .status(400)
+        .json({ error: `Network interface ${networkInterface} not found or has no IPv4 address` });
+    }
+    updates.networkInterface = networkInterface;
+  }
+
+  if (multicastGroup !== undefined) {
+    if (typeof multicastGroup !== 'string' || !isMulticastAddress(multicastGroup)) {
+      return res
+        .status(400)
+        .json({ error: 'Multicast group must be an address between 224.0.0.0 and 239.255.255.255' });
+    }
+    updates.multicastGroup = multicastGroup;
+  }
+
+  if (multicastTTL !== undefined) {
+    if (typeof multicastTTL !== 'number' || !Number.isInteger(multicastTTL) || multicastTTL < 1 || multicastTTL > 255) {
+      return res.status(400).json({ error: 'Multicast TTL must be an integer between 1 and 255' });
+    }
+    updates.multicastTTL = multicastTTL;
+  }
+
   if (updateRate !== undefined) {
     if (typeof updateRate !== 'number' || updateRate < 1 || updateRate > 10) {
       return res
@@ -184,19 +482,200 @@ router.put('/config', (req, res) => {
     updates.updateRate = updateRate;
   }
 
+  if (protocol !== undefined) {
+    if (!OUTPUT_PROTOCOLS.includes(protocol)) {
+      return res.status(400).json({
+        error: `Protocol must be one of: ${OUTPUT_PROTOCOLS.join(', ')}`,
+      });
+    }
+    updates.protocol = protocol;
+  }
+
+  if (nmeaOutput !== undefined) {
+    if (!NMEA_TRANSPORTS.includes(nmeaOutput)) {
+      return res.status(400).json({
+        error: `NMEA output must be one of: ${NMEA_TRANSPORTS.join(', ')}`,
+      });
+    }
+    updates.nmeaOutput = nmeaOutput;
+  }
+
+  if (nmeaPort !== undefined) {
+    if (typeof nmeaPort !== 'number' || nmeaPort < 1 || nmeaPort > 65535) {
+      return res
+        .status(400)
+        .json({ error: 'NMEA port must be a number between 1 and 65535' });
+    }
+    updates.nmeaPort = nmeaPort;
+  }
+
+  if (nmeaTalkerId !== undefined) {
+    if (typeof nmeaTalkerId !== 'string' || !/^[A-Z]{2}$/.test(nmeaTalkerId)) {
+      return res
+        .status(400)
+        .json({ error: 'NMEA talker ID must be two uppercase letters (e.g., GP, GN)' });
+    }
+    updates.nmeaTalkerId = nmeaTalkerId;
+  }
+
+  if (nmeaSentences !== undefined) {
+    if (
+      !Array.isArray(nmeaSentences) ||
+      nmeaSentences.some((sentence) => !NMEA_SENTENCES.includes(sentence))
+    ) {
+      return res.status(400).json({
+        error: `NMEA sentences must be a list containing: ${NMEA_SENTENCES.join(', ')}`,
+      });
+    }
+    // Keep sentences in canonical order and drop duplicates
+    updates.nmeaSentences = NMEA_SENTENCES.filter((sentence: NMEASentence) =>
+      nmeaSentences.includes(sentence)
+    );
+  }
+
+  if (serialOutput !== undefined) {
+    if (!SERIAL_OUTPUTS.includes(serialOutput)) {
+      return res.status(400).json({
+        error: `Serial output must be one of: ${SERIAL_OUTPUTS.join(', ')}`,
+      });
+    }
+    updates.serialOutput = serialOutput;
+  }
+
+  if (serialPath !== undefined) {
+    if (typeof serialPath !== 'string' || !serialPath.startsWith('/')) {
+      return res
+        .status(400)
+        .json({ error: 'Serial path must be an absolute path (e.g., /tmp/flightsim-gps)' });
+    }
+    updates.serialPath = serialPath;
+  }
+
+  if (serialBaudRate !== undefined) {
+    if (!SERIAL_BAUD_RATES.includes(serialBaudRate)) {
+      return res.status(400).json({
+        error: `Serial baud rate must be one of: ${SERIAL_BAUD_RATES.join(', ')}`,
+      });
+    }
+    updates.serialBaudRate = serialBaudRate;
+  }
+
+  if (attitudeOutput !== undefined) {
+    if (typeof attitudeOutput !== 'boolean') {
+      return res.status(400).json({ error: 'Attitude output must be true or false' });
+    }
+    updates.attitudeOutput = attitudeOutput;
+  }
+
+  if (ownshipAddress !== undefined) {
+    if (
+      typeof ownshipAddress !== 'number' ||
+      !Number.isInteger(ownshipAddress) ||
+      ownshipAddress < 1 ||
+      ownshipAddress > MAX_ICAO_ADDRESS
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'Ownship ICAO address must be a 24-bit number between 000001 and FFFFFF' });
+    }
+    updates.ownshipAddress = ownshipAddress;
+  }
+
+  if (ownshipCallsign !== undefined) {
+    if (
+      ownshipCallsign !== null &&
+      (typeof ownshipCallsign !== 'string' || !/^[A-Z0-9]{1,8}$/.test(ownshipCallsign))
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'Ownship callsign must be 1-8 uppercase letters or digits, or null' });
+    }
+    updates.ownshipCallsign = ownshipCallsign;
+  }
+
+  if (ownshipEmitterCategory !== undefined) {
+    if (
+      ownshipEmitterCategory !== null &&
+      (typeof ownshipEmitterCategory !== 'number' ||
+        !Number.isInteger(ownshipEmitterCategory) ||
+        ownshipEmitterCategory < 0 ||
+        ownshipEmitterCategory > 39)
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'Ownship emitter category must be an integer between 0 and 39, or null' });
+    }
+    updates.ownshipEmitterCategory = ownshipEmitterCategory;
+  }
+
+  // Derive the ICAO address (and, unless given, the callsign) from a US N-number
+  if (ownshipRegistration !== undefined) {
+    const address =
+      typeof ownshipRegistration === 'string' ? nNumberToICAOAddress(ownshipRegistration) : null;
+    if (address === null) {
+      return res
+        .status(400)
+        .json({ error: 'Ownship registration must be a valid US N-number (e.g., N172SP)' });
+    }
+    if (ownshipAddress !== undefined && ownshipAddress !== address) {
+      return res.status(400).json({
+        error: `Ownship ICAO address conflicts with ${ownshipRegistration.toUpperCase()} (${formatICAOAddress(address)})`,
+      });
+    }
+    updates.ownshipAddress = address;
+    if (ownshipCallsign === undefined) {
+      updates.ownshipCallsign = ownshipRegistration.toUpperCase();
+    }
+  }
+
   console.log('Final updates object:', updates, 'keys:', Object.keys(updates)); // Debug log
   if (Object.keys(updates).length === 0) {
     console.log('ERROR: No updates in object, returning error'); // Debug log
     return res.status(400).json({ error: 'No valid configuration provided' });
   }
 
-  if (server.getIsRunning() && updates.port !== undefined) {
+  if (
+    server.getIsRunning() &&
+    (updates.port !== undefined ||
+      updates.gdl90Port !== undefined ||
+      updates.nmeaPort !== undefined)
+  ) {
     return res.status(400).json({
       error: 'Cannot change port while server is running. Stop the server first.',
     });
   }
 
-  server.updateConfig(updates);
+  if (
+    server.getIsRunning() &&
+    (updates.deliveryMode !== undefined ||
+      updates.networkInterface !== undefined ||
+      updates.multicastGroup !== undefined ||
+      updates.multicastTTL !== undefined)
+  ) {
+    return res.status(400).json({
+      error: 'Cannot change delivery mode while server is running. Stop the server first.',
+    });
+  }
+
+  if (
+    server.getIsRunning() &&
+    (updates.serialPath !== undefined || updates.serialBaudRate !== undefined)
+  ) {
+    return res.status(400).json({
+      error: 'Cannot change serial port settings while server is running. Stop the server first.',
+    });
+  }
+
+  try {
+    await server.updateConfig(updates);
+  } catch (error) {
+    console.error('Failed to update configuration:', error);
+    return res.status(500).json({
+      error: 'Failed to update configuration',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      config: server.getConfig(),
+    });
+  }
 
   res.json({
     message: 'Configuration updated successfully',
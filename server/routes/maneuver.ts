@@ -0,0 +1,164 @@
+/**
+ * Maneuver API Routes
+ *
+ * REST resource for the hold, orbit or DME arc flown by the flight engine
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { MANEUVER_TYPES, ManeuverDefinition } from '../../src/types/maneuver.js';
+
+const router = express.Router();
+
+const isCourse = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value < 360;
+
+/**
+ * Validate a maneuver definition, returning an error message if invalid
+ */
+export function validateManeuver(maneuver: unknown): string | null {
+  const definition = maneuver as Partial<ManeuverDefinition> | null;
+  if (!definition || typeof definition !== 'object') {
+    return 'Maneuver must be an object';
+  }
+
+  if (!MANEUVER_TYPES.includes(definition.type as ManeuverDefinition['type'])) {
+    return `Type must be one of: ${MANEUVER_TYPES.join(', ')}`;
+  }
+
+  const fix = definition.fix;
+  if (!fix || typeof fix.latitude !== 'number' || typeof fix.longitude !== 'number') {
+    return 'Fix latitude and longitude are required numbers';
+  }
+  if (fix.latitude < -90 || fix.latitude > 90) {
+    return 'Fix latitude must be between -90 and 90';
+  }
+  if (fix.longitude < -180 || fix.longitude > 180) {
+    return 'Fix longitude must be between -180 and 180';
+  }
+  if (fix.name !== undefined && typeof fix.name !== 'string') {
+    return 'Fix name must be a string';
+  }
+
+  if (definition.turnDirection !== 'left' && definition.turnDirection !== 'right') {
+    return 'Turn direction must be left or right';
+  }
+
+  if (definition.type === 'hold') {
+    if (!isCourse(definition.inboundCourse)) {
+      return 'Inbound course must be between 0 and 359';
+    }
+    if (
+      definition.legLength !== undefined &&
+      (typeof definition.legLength !== 'number' || definition.legLength <= 0 || definition.legLength > 30)
+    ) {
+      return 'Leg length must be greater than 0 and at most 30';
+    }
+    if (definition.legUnit !== undefined && definition.legUnit !== 'min' && definition.legUnit !== 'nm') {
+      return 'Leg unit must be min or nm';
+    }
+    return null;
+  }
+
+  if (typeof definition.radius !== 'number' || definition.radius <= 0 || definition.radius > 100) {
+    return 'Radius must be greater than 0 and at most 100 nautical miles';
+  }
+
+  if (definition.type === 'dmeArc') {
+    if (!isCourse(definition.endRadial)) {
+      return 'End radial must be between 0 and 359';
+    }
+    if (definition.startRadial !== undefined && !isCourse(definition.startRadial)) {
+      return 'Start radial must be between 0 and 359';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/gps/maneuver
+ * Get the maneuver and its path. A maneuver that hasn't been started is
+ * laid out again from the current position.
+ */
+router.get('/', (req, res) => {
+  const engine = getGPSServerInstance().getFlightEngine();
+  engine.planManeuver();
+  res.json(engine.getManeuverNavigator().getState());
+});
+
+/**
+ * PUT /api/gps/maneuver
+ * Plan a maneuver, stopping any being flown. It is drawn from the current
+ * position until it is executed.
+ * Body: { type, fix, turnDirection, inboundCourse?, legLength?, legUnit?, radius?, startRadial?, endRadial? }
+ */
+router.put('/', (req, res) => {
+  const error = validateManeuver(req.body);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid maneuver', details: error });
+  }
+
+  const { type, fix, turnDirection, inboundCourse, legLength, legUnit, radius, startRadial, endRadial } =
+    req.body as ManeuverDefinition;
+  const engine = getGPSServerInstance().getFlightEngine();
+  const navigator = engine.getManeuverNavigator();
+
+  navigator.setManeuver({
+    type,
+    fix: {
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      ...(fix.name !== undefined && { name: fix.name }),
+    },
+    turnDirection,
+    ...(type === 'hold' && { inboundCourse, legLength: legLength ?? 1, legUnit: legUnit ?? 'min' }),
+    ...(type !== 'hold' && { radius }),
+    ...(type === 'dmeArc' && { endRadial, ...(startRadial !== undefined && { startRadial }) }),
+  });
+  engine.planManeuver();
+
+  res.json({
+    message: 'Maneuver planned',
+    maneuver: navigator.getState(),
+  });
+});
+
+/**
+ * POST /api/gps/maneuver/execute
+ * Fly the planned maneuver from the current position (the aircraft must be
+ * en route)
+ */
+router.post('/execute', (req, res) => {
+  const engine = getGPSServerInstance().getFlightEngine();
+
+  try {
+    engine.executeManeuver();
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Failed to execute maneuver',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  res.json({
+    message: 'Maneuver started',
+    maneuver: engine.getManeuverNavigator().getState(),
+  });
+});
+
+/**
+ * DELETE /api/gps/maneuver
+ * Stop flying and remove the maneuver. The aircraft goes back to its route
+ * or selected heading.
+ */
+router.delete('/', (req, res) => {
+  const navigator = getGPSServerInstance().getFlightEngine().getManeuverNavigator();
+  navigator.clear();
+  res.json({
+    message: 'Maneuver cleared',
+    maneuver: navigator.getState(),
+  });
+});
+
+export default router;
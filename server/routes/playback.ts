@@ -0,0 +1,158 @@
+/**
+ * Track Playback API Routes
+ *
+ * REST endpoints for replaying recorded flight tracks
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { MAX_PLAYBACK_SPEED, MIN_PLAYBACK_SPEED } from '../services/TrackPlayer.js';
+import { parseTrack } from '../utils/trackParser.js';
+import { FileParseError } from '../utils/fileParseError.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/playback
+ * Get the playback state
+ */
+router.get('/', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  res.json(player.getState());
+});
+
+/**
+ * GET /api/gps/playback/track
+ * Get the fixes of the loaded track (for drawing on the map)
+ */
+router.get('/track', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  res.json({ points: player.getPoints() });
+});
+
+/**
+ * POST /api/gps/playback/load?filename=<name>
+ * Load a GPX, KML, CSV or IGC track (sent as the raw request body)
+ */
+router.post(
+  '/load',
+  express.text({ type: () => true, limit: '50mb' }),
+  (req, res) => {
+    const server = getGPSServerInstance();
+    const player = server.getTrackPlayer();
+    const filename = typeof req.query.filename === 'string' ? req.query.filename : undefined;
+
+    if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+      return res.status(400).json({
+        error: 'Failed to parse track',
+        details: 'Upload the track file as the request body',
+      });
+    }
+
+    try {
+      const track = parseTrack(req.body, filename);
+      server.getFlightEngine().stop();
+      player.load(track);
+      console.log(`Loaded ${track.format.toUpperCase()} track with ${track.points.length} fixes`);
+
+      res.json({
+        message: `Loaded track with ${track.points.length} fixes`,
+        playback: player.getState(),
+      });
+    } catch (error) {
+      if (error instanceof FileParseError) {
+        return res.status(400).json(error.toResponse('Failed to parse track'));
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/gps/playback/play
+ * Start or resume playback
+ */
+router.post('/play', (req, res) => {
+  const server = getGPSServerInstance();
+  const player = server.getTrackPlayer();
+
+  if (!player.getState().isLoaded) {
+    return res.status(400).json({ error: 'No track loaded' });
+  }
+
+  // Dead reckoning and track playback both drive the position
+  server.getFlightEngine().stop();
+  player.play();
+  res.json({ message: 'Playback started', playback: player.getState() });
+});
+
+/**
+ * POST /api/gps/playback/pause
+ * Pause playback
+ */
+router.post('/pause', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  player.pause();
+  res.json({ message: 'Playback paused', playback: player.getState() });
+});
+
+/**
+ * POST /api/gps/playback/seek
+ * Jump to a time in the track: { position: seconds }
+ */
+router.post('/seek', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  const { position } = req.body;
+
+  if (!player.getState().isLoaded) {
+    return res.status(400).json({ error: 'No track loaded' });
+  }
+
+  if (typeof position !== 'number' || !Number.isFinite(position)) {
+    return res.status(400).json({ error: 'Position must be a number of seconds' });
+  }
+
+  player.seek(position);
+  res.json({ message: 'Playback position updated', playback: player.getState() });
+});
+
+/**
+ * PUT /api/gps/playback
+ * Update playback options: { speed, loop }
+ */
+router.put('/', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  const { speed, loop } = req.body;
+
+  if (speed === undefined && loop === undefined) {
+    return res.status(400).json({ error: 'No valid playback options provided' });
+  }
+
+  if (
+    speed !== undefined &&
+    (typeof speed !== 'number' || speed < MIN_PLAYBACK_SPEED || speed > MAX_PLAYBACK_SPEED)
+  ) {
+    return res.status(400).json({
+      error: `Speed must be between ${MIN_PLAYBACK_SPEED} and ${MAX_PLAYBACK_SPEED}`,
+    });
+  }
+
+  if (loop !== undefined && typeof loop !== 'boolean') {
+    return res.status(400).json({ error: 'Loop must be true or false' });
+  }
+
+  player.setOptions({ speed, loop });
+  res.json({ message: 'Playback options updated', playback: player.getState() });
+});
+
+/**
+ * DELETE /api/gps/playback
+ * Unload the track
+ */
+router.delete('/', (req, res) => {
+  const player = getGPSServerInstance().getTrackPlayer();
+  player.unload();
+  res.json({ message: 'Track unloaded', playback: player.getState() });
+});
+
+export default router;
@@ -0,0 +1,51 @@
+/**
+ * Aircraft Profile API Routes
+ *
+ * REST resource for choosing the aircraft profile the flight engine flies
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { PROFILES_DIR, loadProfiles } from '../services/AircraftProfiles.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/profiles
+ * List built-in and JSON profiles, the active profile, and any JSON files
+ * that failed to load
+ */
+router.get('/', async (req, res) => {
+  const { profiles, errors } = await loadProfiles(PROFILES_DIR);
+  res.json({
+    profiles,
+    activeProfileId: getGPSServerInstance().getFlightEngine().getProfile().id,
+    errors,
+  });
+});
+
+/**
+ * PUT /api/gps/profiles/active
+ * Fly a different profile: { id }
+ */
+router.put('/active', async (req, res) => {
+  const { id } = req.body ?? {};
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Profile id is required' });
+  }
+
+  const { profiles } = await loadProfiles(PROFILES_DIR);
+  const profile = profiles.find((candidate) => candidate.id === id);
+  if (!profile) {
+    return res.status(404).json({ error: 'Profile not found' });
+  }
+
+  getGPSServerInstance().getFlightEngine().setProfile(profile);
+  res.json({
+    message: 'Aircraft profile updated successfully',
+    profile,
+  });
+});
+
+export default router;
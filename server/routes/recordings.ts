@@ -0,0 +1,117 @@
+/**
+ * Recording API Routes
+ *
+ * REST resource for recording broadcast sessions and downloading them
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { RECORDING_CONTENT_TYPES, RECORDING_FORMATS } from '../services/SessionRecorder.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/recordings
+ * Get the recording in progress and the list of saved recordings
+ */
+router.get('/', async (req, res) => {
+  const recorder = getGPSServerInstance().getRecorder();
+  res.json({
+    recorder: recorder.getState(),
+    recordings: await recorder.list(),
+  });
+});
+
+/**
+ * POST /api/gps/recordings
+ * Start recording transmitted positions: { format: 'gpx' | 'kml' | 'csv', name? }
+ */
+router.post('/', (req, res) => {
+  const recorder = getGPSServerInstance().getRecorder();
+  const { format, name } = req.body ?? {};
+
+  if (recorder.getState().isRecording) {
+    return res.status(400).json({ error: 'A recording is already in progress' });
+  }
+
+  if (!RECORDING_FORMATS.includes(format)) {
+    return res.status(400).json({
+      error: `Format must be one of: ${RECORDING_FORMATS.join(', ')}`,
+    });
+  }
+
+  if (name !== undefined && typeof name !== 'string') {
+    return res.status(400).json({ error: 'Name must be a string' });
+  }
+
+  recorder.start(format, name);
+  res.json({
+    message: 'Recording started',
+    recorder: recorder.getState(),
+  });
+});
+
+/**
+ * POST /api/gps/recordings/stop
+ * Stop recording and save the session
+ */
+router.post('/stop', async (req, res) => {
+  const recorder = getGPSServerInstance().getRecorder();
+
+  if (!recorder.getState().isRecording) {
+    return res.status(400).json({ error: 'No recording in progress' });
+  }
+
+  const recording = await recorder.stop();
+  res.json({
+    message: 'Recording saved',
+    recording,
+  });
+});
+
+/**
+ * GET /api/gps/recordings/:id
+ * Get a saved recording's details
+ */
+router.get('/:id', async (req, res) => {
+  const recording = await getGPSServerInstance().getRecorder().getRecording(req.params.id);
+
+  if (!recording) {
+    return res.status(404).json({ error: 'Recording not found' });
+  }
+
+  res.json(recording);
+});
+
+/**
+ * GET /api/gps/recordings/:id/download
+ * Download a saved recording
+ */
+router.get('/:id/download', async (req, res) => {
+  const recorder = getGPSServerInstance().getRecorder();
+  const recording = await recorder.getRecording(req.params.id);
+  const filePath = await recorder.getRecordingPath(req.params.id);
+
+  if (!recording || !filePath) {
+    return res.status(404).json({ error: 'Recording not found' });
+  }
+
+  res.type(RECORDING_CONTENT_TYPES[recording.format]);
+  res.download(filePath, recording.id);
+});
+
+/**
+ * DELETE /api/gps/recordings/:id
+ * Delete a saved recording
+ */
+router.delete('/:id', async (req, res) => {
+  const deleted = await getGPSServerInstance().getRecorder().delete(req.params.id);
+
+  if (!deleted) {
+    return res.status(404).json({ error: 'Recording not found' });
+  }
+
+  res.json({ message: 'Recording deleted' });
+});
+
+export default router;
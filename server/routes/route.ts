@@ -0,0 +1,140 @@
+/**
+ * Route API Routes
+ *
+ * REST resource for the waypoint route flown by the flight engine
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { Waypoint } from '../../src/types/route.js';
+import { parseFlightPlan } from '../utils/flightPlanParser.js';
+import { FileParseError } from '../utils/fileParseError.js';
+
+const router = express.Router();
+
+/**
+ * Validate a list of waypoints, returning an error message if invalid
+ */
+export function validateWaypoints(waypoints: unknown): string | null {
+  if (!Array.isArray(waypoints)) {
+    return 'Waypoints must be an array';
+  }
+
+  for (let i = 0; i < waypoints.length; i++) {
+    const waypoint = waypoints[i] as Partial<Waypoint> | null;
+    const label = `Waypoint ${i + 1}`;
+
+    if (
+      !waypoint ||
+      typeof waypoint.latitude !== 'number' ||
+      typeof waypoint.longitude !== 'number'
+    ) {
+      return `${label}: latitude and longitude are required numbers`;
+    }
+    if (waypoint.latitude < -90 || waypoint.latitude > 90) {
+      return `${label}: latitude must be between -90 and 90`;
+    }
+    if (waypoint.longitude < -180 || waypoint.longitude > 180) {
+      return `${label}: longitude must be between -180 and 180`;
+    }
+    if (waypoint.altitude !== undefined && typeof waypoint.altitude !== 'number') {
+      return `${label}: altitude must be a number`;
+    }
+    if (waypoint.name !== undefined && typeof waypoint.name !== 'string') {
+      return `${label}: name must be a string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/gps/route
+ * Get the current route and progress along it
+ */
+router.get('/', (req, res) => {
+  const navigator = getGPSServerInstance().getFlightEngine().getNavigator();
+  res.json(navigator.getState());
+});
+
+/**
+ * PUT /api/gps/route
+ * Replace the route. The aircraft flies it from the first waypoint.
+ */
+router.put('/', (req, res) => {
+  const navigator = getGPSServerInstance().getFlightEngine().getNavigator();
+  const { waypoints } = req.body;
+
+  const error = validateWaypoints(waypoints);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid route', details: error });
+  }
+
+  navigator.setWaypoints(
+    (waypoints as Waypoint[]).map(({ latitude, longitude, altitude, name }) => ({
+      latitude,
+      longitude,
+      ...(altitude !== undefined && { altitude }),
+      ...(name !== undefined && { name }),
+    }))
+  );
+
+  res.json({
+    message: 'Route updated successfully',
+    route: navigator.getState(),
+  });
+});
+
+/**
+ * POST /api/gps/route/import?filename=<name>
+ * Import a GPX, KML or Garmin FPL flight plan (sent as the raw request body)
+ * and make it the active route
+ */
+router.post(
+  '/import',
+  express.text({ type: () => true, limit: '5mb' }),
+  (req, res) => {
+    const navigator = getGPSServerInstance().getFlightEngine().getNavigator();
+    const filename = typeof req.query.filename === 'string' ? req.query.filename : undefined;
+
+    if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+      return res.status(400).json({
+        error: 'Failed to parse flight plan',
+        details: 'Upload the flight plan file as the request body',
+      });
+    }
+
+    try {
+      const plan = parseFlightPlan(req.body, filename);
+      navigator.setWaypoints(plan.waypoints);
+      console.log(`Imported ${plan.format.toUpperCase()} flight plan with ${plan.waypoints.length} waypoints`);
+
+      res.json({
+        message: `Imported ${plan.waypoints.length} waypoints`,
+        name: plan.name ?? null,
+        format: plan.format,
+        route: navigator.getState(),
+      });
+    } catch (error) {
+      if (error instanceof FileParseError) {
+        return res.status(400).json(error.toResponse('Failed to parse flight plan'));
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * DELETE /api/gps/route
+ * Remove the route
+ */
+router.delete('/', (req, res) => {
+  const navigator = getGPSServerInstance().getFlightEngine().getNavigator();
+  navigator.clear();
+  res.json({
+    message: 'Route cleared',
+    route: navigator.getState(),
+  });
+});
+
+export default router;
@@ -0,0 +1,148 @@
+/**
+ * Scenario API Routes
+ *
+ * Start and stop scripted traffic encounters relative to ownship
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { BUILT_IN_SCENARIOS } from '../services/ScenarioPlayer.js';
+import { Scenario, ScenarioIntruder } from '../../src/types/scenario.js';
+
+const router = express.Router();
+
+/**
+ * Validate a scenario definition, returning an error message if invalid
+ */
+function validateScenario(scenario: unknown): string | null {
+  const definition = scenario as Partial<Scenario> | null;
+  if (!definition || typeof definition !== 'object') {
+    return 'Scenario must be an object';
+  }
+  if (typeof definition.name !== 'string' || definition.name.trim() === '') {
+    return 'Scenario name is required';
+  }
+  if (!Array.isArray(definition.intruders) || definition.intruders.length === 0) {
+    return 'Scenario requires at least one intruder';
+  }
+
+  for (let i = 0; i < definition.intruders.length; i++) {
+    const intruder = definition.intruders[i] as Partial<ScenarioIntruder> | null;
+    const label = `Intruder ${i + 1}`;
+
+    if (!intruder || typeof intruder !== 'object') {
+      return `${label}: must be an object`;
+    }
+    if (
+      typeof intruder.relativeBearing !== 'number' ||
+      intruder.relativeBearing < 0 ||
+      intruder.relativeBearing >= 360
+    ) {
+      return `${label}: relativeBearing must be between 0 and 359`;
+    }
+    if (typeof intruder.range !== 'number' || intruder.range <= 0 || intruder.range > 100) {
+      return `${label}: range must be between 0 and 100 nautical miles`;
+    }
+    if (typeof intruder.altitudeDelta !== 'number' || !Number.isFinite(intruder.altitudeDelta)) {
+      return `${label}: altitudeDelta must be a number`;
+    }
+    if (typeof intruder.closureRate !== 'number' || intruder.closureRate <= 0 || intruder.closureRate > 1500) {
+      return `${label}: closureRate must be between 0 and 1500 knots`;
+    }
+    if (
+      intruder.verticalSpeed !== undefined &&
+      (typeof intruder.verticalSpeed !== 'number' || !Number.isFinite(intruder.verticalSpeed))
+    ) {
+      return `${label}: verticalSpeed must be a number`;
+    }
+    if (
+      intruder.missDistance !== undefined &&
+      (typeof intruder.missDistance !== 'number' ||
+        intruder.missDistance < 0 ||
+        intruder.missDistance >= intruder.range)
+    ) {
+      return `${label}: missDistance must be between 0 and the range`;
+    }
+    if (
+      intruder.delay !== undefined &&
+      (typeof intruder.delay !== 'number' || intruder.delay < 0 || intruder.delay > 3600)
+    ) {
+      return `${label}: delay must be between 0 and 3600 seconds`;
+    }
+    if (
+      intruder.callsign !== undefined &&
+      (typeof intruder.callsign !== 'string' || !/^[A-Za-z0-9 ]{1,8}$/.test(intruder.callsign))
+    ) {
+      return `${label}: callsign must be 1-8 letters or digits`;
+    }
+    if (
+      intruder.icaoAddress !== undefined &&
+      (typeof intruder.icaoAddress !== 'number' ||
+        !Number.isInteger(intruder.icaoAddress) ||
+        intruder.icaoAddress < 0 ||
+        intruder.icaoAddress > 0xffffff)
+    ) {
+      return `${label}: icaoAddress must be a 24-bit integer`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/gps/scenarios
+ * List the built-in scenarios and the scenario state
+ */
+router.get('/', (req, res) => {
+  const player = getGPSServerInstance().getScenarioPlayer();
+  res.json({
+    scenarios: BUILT_IN_SCENARIOS,
+    state: player.getState(),
+  });
+});
+
+/**
+ * POST /api/gps/scenarios/start
+ * Start a scenario relative to the current position (the GPS server must be running)
+ * Body: { name } for a built-in scenario, or { scenario } for a custom one
+ */
+router.post('/start', (req, res) => {
+  const { name, scenario } = req.body ?? {};
+  let definition: Scenario;
+
+  if (scenario !== undefined) {
+    const error = validateScenario(scenario);
+    if (error) {
+      return res.status(400).json({ error: 'Invalid scenario', details: error });
+    }
+    definition = scenario;
+  } else {
+    const builtIn = BUILT_IN_SCENARIOS.find((candidate) => candidate.name === name);
+    if (!builtIn) {
+      return res.status(404).json({ error: `Unknown scenario: ${name}` });
+    }
+    definition = builtIn;
+  }
+
+  try {
+    const state = getGPSServerInstance().getScenarioPlayer().start(definition);
+    res.json({ message: 'Scenario started', state });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Failed to start scenario',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/gps/scenarios/stop
+ * Stop the scenario and remove its intruders
+ */
+router.post('/stop', (req, res) => {
+  const player = getGPSServerInstance().getScenarioPlayer();
+  player.stop();
+  res.json({ message: 'Scenario stopped', state: player.getState() });
+});
+
+export default router;
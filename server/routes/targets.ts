@@ -0,0 +1,107 @@
+/**
+ * Output Target API Routes
+ *
+ * REST resource for the additional devices the GPS data server sends to
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { OutputTargetConfig, TARGET_PROTOCOLS, TargetProtocol } from '../../src/types/target.js';
+
+const router = express.Router();
+
+/**
+ * Validate an output target, returning an error message if invalid
+ */
+export function validateOutputTarget(config: unknown): string | null {
+  const target = config as Partial<OutputTargetConfig> | null;
+  if (!target || typeof target !== 'object') {
+    return 'Output target must be an object';
+  }
+
+  if (typeof target.name !== 'string' || target.name.trim() === '' || target.name.length > 40) {
+    return 'Name must be 1-40 characters';
+  }
+  if (typeof target.ip !== 'string' || !/^(\d{1,3}\.){3}\d{1,3}$/.test(target.ip)) {
+    return 'Invalid IP address format. Expected format: 192.168.1.100';
+  }
+  if (
+    typeof target.port !== 'number' ||
+    !Number.isInteger(target.port) ||
+    target.port < 1 ||
+    target.port > 65535
+  ) {
+    return 'Port must be a number between 1 and 65535';
+  }
+  if (!TARGET_PROTOCOLS.includes(target.protocol as TargetProtocol)) {
+    return `Protocol must be one of: ${TARGET_PROTOCOLS.join(', ')}`;
+  }
+  if (typeof target.updateRate !== 'number' || target.updateRate < 1 || target.updateRate > 10) {
+    return 'Update rate must be between 1 and 10 Hz';
+  }
+  if (typeof target.enabled !== 'boolean') {
+    return 'Enabled must be true or false';
+  }
+
+  return null;
+}
+
+/**
+ * Pick the target fields from a request body
+ */
+function toConfig(body: OutputTargetConfig): OutputTargetConfig {
+  const { name, ip, port, protocol, updateRate, enabled } = body;
+  return { name: name.trim(), ip, port, protocol, updateRate, enabled };
+}
+
+/**
+ * GET /api/gps/targets
+ * List output targets with their send counters
+ */
+router.get('/', (req, res) => {
+  res.json({ targets: getGPSServerInstance().getOutputTargets().getTargets() });
+});
+
+/**
+ * POST /api/gps/targets
+ * Add an output target: { name, ip, port, protocol, updateRate, enabled }
+ */
+router.post('/', (req, res) => {
+  const error = validateOutputTarget(req.body);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid output target', details: error });
+  }
+
+  const target = getGPSServerInstance().getOutputTargets().add(toConfig(req.body));
+  res.status(201).json({ message: 'Output target added', target });
+});
+
+/**
+ * PUT /api/gps/targets/:id
+ * Replace an output target's configuration (resets its counters)
+ */
+router.put('/:id', (req, res) => {
+  const error = validateOutputTarget(req.body);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid output target', details: error });
+  }
+
+  const target = getGPSServerInstance().getOutputTargets().update(req.params.id, toConfig(req.body));
+  if (!target) {
+    return res.status(404).json({ error: 'Output target not found' });
+  }
+  res.json({ message: 'Output target updated', target });
+});
+
+/**
+ * DELETE /api/gps/targets/:id
+ * Remove an output target
+ */
+router.delete('/:id', (req, res) => {
+  if (!getGPSServerInstance().getOutputTargets().remove(req.params.id)) {
+    return res.status(404).json({ error: 'Output target not found' });
+  }
+  res.json({ message: 'Output target removed' });
+});
+
+export default router;
@@ -0,0 +1,75 @@
+/**
+ * Terrain API Routes
+ *
+ * Ground elevation from local SRTM tiles and terrain blocking for the
+ * flight engine
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { TERRAIN_DIR } from '../services/TerrainModel.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/gps/terrain
+ * Get the terrain data available and whether flight below it is blocked
+ */
+router.get('/', (req, res) => {
+  const server = getGPSServerInstance();
+  const terrain = server.getTerrain();
+
+  // Pick up tiles added since they were last looked for
+  terrain.rescan();
+
+  res.json({
+    directory: TERRAIN_DIR,
+    tiles: terrain.countTiles(),
+    blocking: server.getFlightEngine().getTerrainBlocking(),
+  });
+});
+
+/**
+ * GET /api/gps/terrain/elevation?lat=&lon=
+ * Get the ground elevation (feet MSL) at a point, null without terrain data
+ */
+router.get('/elevation', (req, res) => {
+  const latitude = Number(req.query.lat);
+  const longitude = Number(req.query.lon);
+
+  if (typeof req.query.lat !== 'string' || !Number.isFinite(latitude) || Math.abs(latitude) > 90) {
+    return res.status(400).json({ error: 'Invalid position', details: 'lat must be between -90 and 90' });
+  }
+  if (typeof req.query.lon !== 'string' || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+    return res.status(400).json({ error: 'Invalid position', details: 'lon must be between -180 and 180' });
+  }
+
+  res.json({
+    latitude,
+    longitude,
+    elevation: getGPSServerInstance().getTerrain().getElevation(latitude, longitude),
+  });
+});
+
+/**
+ * PUT /api/gps/terrain
+ * Block (or allow) flight below the terrain
+ * Body: { blocking: boolean }
+ */
+router.put('/', (req, res) => {
+  const { blocking } = req.body ?? {};
+
+  if (typeof blocking !== 'boolean') {
+    return res.status(400).json({ error: 'Invalid terrain settings', details: 'blocking must be a boolean' });
+  }
+
+  const engine = getGPSServerInstance().getFlightEngine();
+  engine.setTerrainBlocking(blocking);
+
+  res.json({
+    message: blocking ? 'Terrain blocking enabled' : 'Terrain blocking disabled',
+    blocking: engine.getTerrainBlocking(),
+  });
+});
+
+export default router;
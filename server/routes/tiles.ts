@@ -0,0 +1,51 @@
+/**
+ * Map Tile API Routes
+ *
+ * Raster tiles from local MBTiles files for offline maps
+ */
+
+import express from 'express';
+import { getTileStore } from '../services/TileStore.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/tiles
+ * List the local map layers, and any MBTiles files that failed to open
+ */
+router.get('/', async (req, res) => {
+  res.json(await getTileStore().refresh());
+});
+
+/**
+ * GET /api/tiles/:layer/:z/:x/:y
+ * Get a tile by XYZ coordinates (a .png/.jpg/.webp suffix on y is ignored)
+ */
+router.get('/:layer/:z/:x/:y', async (req, res) => {
+  const store = getTileStore();
+  const { layer } = req.params;
+  const [z, x, y] = [req.params.z, req.params.x, req.params.y.replace(/\.\w+$/, '')].map(Number);
+
+  if (![z, x, y].every(Number.isInteger) || z < 0 || z > 24 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+    return res.status(400).json({ error: 'Tile coordinates must be integers within the zoom level' });
+  }
+
+  // A file added since the layers were last listed
+  if (!store.hasLayer(layer)) {
+    await store.refresh();
+    if (!store.hasLayer(layer)) {
+      return res.status(404).json({ error: `Map layer ${layer} not found` });
+    }
+  }
+
+  const tile = store.getTile(layer, z, x, y);
+  if (!tile) {
+    return res.status(404).json({ error: 'Tile not found' });
+  }
+
+  res.set('Content-Type', tile.contentType);
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.send(tile.data);
+});
+
+export default router;
@@ -0,0 +1,210 @@
+/**
+ * Traffic API Routes
+ *
+ * REST resource for the synthetic traffic broadcast around ownship
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { TRAFFIC_BEHAVIORS, TrafficBehavior, TrafficDefinition } from '../../src/types/traffic.js';
+import { validateWaypoints } from './route.js';
+
+const router = express.Router();
+
+/**
+ * Maximum number of targets that can be spawned at once
+ */
+const MAX_SPAWN_COUNT = 50;
+
+/**
+ * Validate a traffic definition, returning an error message if invalid
+ */
+export function validateTrafficDefinition(definition: unknown): string | null {
+  const target = definition as Partial<TrafficDefinition> | null;
+  if (!target || typeof target !== 'object') {
+    return 'Traffic definition must be an object';
+  }
+
+  if (typeof target.callsign !== 'string' || !/^[A-Za-z0-9 ]{1,8}$/.test(target.callsign)) {
+    return 'Callsign must be 1-8 letters or digits';
+  }
+  if (
+    typeof target.icaoAddress !== 'number' ||
+    !Number.isInteger(target.icaoAddress) ||
+    target.icaoAddress < 0 ||
+    target.icaoAddress > 0xffffff
+  ) {
+    return 'ICAO address must be a 24-bit integer';
+  }
+  if (typeof target.altitude !== 'number' || !Number.isFinite(target.altitude)) {
+    return 'Altitude must be a number';
+  }
+  if (typeof target.groundSpeed !== 'number' || target.groundSpeed < 0 || target.groundSpeed > 1000) {
+    return 'Ground speed must be a number between 0 and 1000 knots';
+  }
+  if (
+    target.verticalSpeed !== undefined &&
+    (typeof target.verticalSpeed !== 'number' || !Number.isFinite(target.verticalSpeed))
+  ) {
+    return 'Vertical speed must be a number';
+  }
+  if (
+    target.emitterCategory !== undefined &&
+    (typeof target.emitterCategory !== 'number' ||
+      !Number.isInteger(target.emitterCategory) ||
+      target.emitterCategory < 0 ||
+      target.emitterCategory > 39)
+  ) {
+    return 'Emitter category must be an integer between 0 and 39';
+  }
+  if (!TRAFFIC_BEHAVIORS.includes(target.behavior as TrafficBehavior)) {
+    return `Behavior must be one of: ${TRAFFIC_BEHAVIORS.join(', ')}`;
+  }
+  if (
+    target.latitude !== undefined &&
+    (typeof target.latitude !== 'number' || target.latitude < -90 || target.latitude > 90)
+  ) {
+    return 'Latitude must be between -90 and 90';
+  }
+  if (
+    target.longitude !== undefined &&
+    (typeof target.longitude !== 'number' || target.longitude < -180 || target.longitude > 180)
+  ) {
+    return 'Longitude must be between -180 and 180';
+  }
+  if (
+    target.heading !== undefined &&
+    (typeof target.heading !== 'number' || target.heading < 0 || target.heading >= 360)
+  ) {
+    return 'Heading must be between 0 and 359';
+  }
+
+  switch (target.behavior) {
+    case 'orbit':
+      if (typeof target.radius !== 'number' || target.radius <= 0 || target.radius > 50) {
+        return 'Orbit radius must be between 0 and 50 nautical miles';
+      }
+      if (target.clockwise !== undefined && typeof target.clockwise !== 'boolean') {
+        return 'Clockwise must be true or false';
+      }
+      break;
+    case 'crossing':
+      if (target.heading === undefined) {
+        return 'Crossing targets require a heading';
+      }
+      break;
+    case 'route': {
+      const waypointError = validateWaypoints(target.waypoints);
+      if (waypointError) {
+        return waypointError;
+      }
+      if ((target.waypoints ?? []).length < 2) {
+        return 'Route targets require at least 2 waypoints';
+      }
+      break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/gps/traffic
+ * List all traffic targets
+ */
+router.get('/', (req, res) => {
+  const traffic = getGPSServerInstance().getTrafficGenerator();
+  res.json({ targets: traffic.getTargets() });
+});
+
+/**
+ * POST /api/gps/traffic
+ * Add a traffic target
+ */
+router.post('/', (req, res) => {
+  const error = validateTrafficDefinition(req.body);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid traffic target', details: error });
+  }
+
+  const traffic = getGPSServerInstance().getTrafficGenerator();
+  const target = traffic.add(req.body);
+  res.status(201).json({ message: 'Traffic target added', target });
+});
+
+/**
+ * POST /api/gps/traffic/spawn
+ * Spawn randomly generated targets around ownship
+ * Body: { count, behavior? }
+ */
+router.post('/spawn', (req, res) => {
+  const server = getGPSServerInstance();
+  const { count, behavior } = req.body ?? {};
+
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_SPAWN_COUNT) {
+    return res.status(400).json({ error: `Count must be an integer between 1 and ${MAX_SPAWN_COUNT}` });
+  }
+
+  if (behavior !== undefined && !TRAFFIC_BEHAVIORS.includes(behavior)) {
+    return res.status(400).json({ error: `Behavior must be one of: ${TRAFFIC_BEHAVIORS.join(', ')}` });
+  }
+
+  const ownship = server.getCurrentPosition();
+  if (!ownship) {
+    return res.status(400).json({ error: 'No current position. Set a position before spawning traffic.' });
+  }
+
+  const targets = server.getTrafficGenerator().spawn(count, ownship, behavior);
+  res.status(201).json({ message: `Spawned ${targets.length} traffic targets`, targets });
+});
+
+/**
+ * GET /api/gps/traffic/:id
+ * Get a traffic target
+ */
+router.get('/:id', (req, res) => {
+  const target = getGPSServerInstance().getTrafficGenerator().getTarget(req.params.id);
+  if (!target) {
+    return res.status(404).json({ error: 'Traffic target not found' });
+  }
+  res.json(target);
+});
+
+/**
+ * PUT /api/gps/traffic/:id
+ * Replace a traffic target's definition
+ */
+router.put('/:id', (req, res) => {
+  const error = validateTrafficDefinition(req.body);
+  if (error) {
+    return res.status(400).json({ error: 'Invalid traffic target', details: error });
+  }
+
+  const target = getGPSServerInstance().getTrafficGenerator().update(req.params.id, req.body);
+  if (!target) {
+    return res.status(404).json({ error: 'Traffic target not found' });
+  }
+  res.json({ message: 'Traffic target updated', target });
+});
+
+/**
+ * DELETE /api/gps/traffic/:id
+ * Remove a traffic target
+ */
+router.delete('/:id', (req, res) => {
+  if (!getGPSServerInstance().getTrafficGenerator().remove(req.params.id)) {
+    return res.status(404).json({ error: 'Traffic target not found' });
+  }
+  res.json({ message: 'Traffic target removed' });
+});
+
+/**
+ * DELETE /api/gps/traffic
+ * Remove all traffic targets
+ */
+router.delete('/', (req, res) => {
+  getGPSServerInstance().getTrafficGenerator().clear();
+  res.json({ message: 'All traffic removed' });
+});
+
+export default router;
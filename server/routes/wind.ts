@@ -0,0 +1,76 @@
+/**
+ * Wind API Routes
+ *
+ * REST resource for the wind used by the flight engine
+ */
+
+import express from 'express';
+import { getGPSServerInstance } from '../services/GPSDataServer.js';
+import { WindConfig, WindLayer } from '../../src/types/wind.js';
+
+const router = express.Router();
+
+/**
+ * Validate a wind direction and speed, returning an error message if invalid
+ */
+function validateWind(direction: unknown, speed: unknown, label: string): string | null {
+  if (typeof direction !== 'number' || !Number.isFinite(direction) || direction < 0 || direction >= 360) {
+    return `${label}: direction must be a number between 0 and 359`;
+  }
+  if (typeof speed !== 'number' || !Number.isFinite(speed) || speed < 0 || speed > 300) {
+    return `${label}: speed must be a number between 0 and 300 knots`;
+  }
+  return null;
+}
+
+/**
+ * GET /api/gps/wind
+ * Get the wind configuration
+ */
+router.get('/', (req, res) => {
+  const wind = getGPSServerInstance().getFlightEngine().getWindModel();
+  res.json(wind.getConfig());
+});
+
+/**
+ * PUT /api/gps/wind
+ * Replace the wind configuration
+ * Body: { direction, speed, layers?: [{ altitude, direction, speed }] }
+ */
+router.put('/', (req, res) => {
+  const { direction, speed, layers = [] } = req.body ?? {};
+
+  const windError = validateWind(direction, speed, 'Wind');
+  if (windError) {
+    return res.status(400).json({ error: 'Invalid wind', details: windError });
+  }
+
+  if (!Array.isArray(layers)) {
+    return res.status(400).json({ error: 'Invalid wind', details: 'Layers must be an array' });
+  }
+
+  for (let i = 0; i < layers.length; i++) {
+    const layer = layers[i] as Partial<WindLayer> | null;
+    const label = `Layer ${i + 1}`;
+
+    if (!layer || typeof layer.altitude !== 'number' || !Number.isFinite(layer.altitude)) {
+      return res.status(400).json({ error: 'Invalid wind', details: `${label}: altitude must be a number` });
+    }
+
+    const layerError = validateWind(layer.direction, layer.speed, label);
+    if (layerError) {
+      return res.status(400).json({ error: 'Invalid wind', details: layerError });
+    }
+  }
+
+  const wind = getGPSServerInstance().getFlightEngine().getWindModel();
+  const config: WindConfig = { direction, speed, layers };
+  wind.setConfig(config);
+
+  res.json({
+    message: 'Wind updated successfully',
+    ...wind.getConfig(),
+  });
+});
+
+export default router;
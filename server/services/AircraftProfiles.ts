@@ -0,0 +1,190 @@
+/**
+ * Aircraft Profiles
+ *
+ * Built-in performance profiles for the aircraft types we demo, plus any
+ * JSON profiles found in the profiles directory. A JSON profile with the
+ * same id as a built-in one replaces it.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { AircraftProfile } from '../../src/types/profile.js';
+
+/**
+ * Profiles available without any JSON files
+ */
+export const BUILT_IN_PROFILES: AircraftProfile[] = [
+  {
+    id: 'c172',
+    name: 'Cessna 172S Skyhawk',
+    callsign: 'N172SP',
+    emitterCategory: 1,
+    cruiseSpeed: 122,
+    maxSpeed: 160,
+    climbRate: 730,
+    descentRate: 1000,
+    turnRate: 3,
+    acceleration: 1.5,
+    serviceCeiling: 14000,
+    rotateSpeed: 55,
+    approachSpeed: 65,
+  },
+  {
+    id: 'sr22',
+    name: 'Cirrus SR22',
+    callsign: 'N822SR',
+    emitterCategory: 1,
+    cruiseSpeed: 183,
+    maxSpeed: 205,
+    climbRate: 1270,
+    descentRate: 1500,
+    turnRate: 3,
+    acceleration: 2,
+    serviceCeiling: 17500,
+    rotateSpeed: 70,
+    approachSpeed: 80,
+  },
+  {
+    id: 'tbm960',
+    name: 'Daher TBM 960',
+    callsign: 'N960TB',
+    emitterCategory: 1,
+    cruiseSpeed: 330,
+    maxSpeed: 330,
+    climbRate: 2000,
+    descentRate: 2500,
+    turnRate: 1.5, // Autopilot bank limit keeps fast turns below standard rate
+    acceleration: 3,
+    serviceCeiling: 31000,
+    rotateSpeed: 90,
+    approachSpeed: 95,
+  },
+  {
+    id: 'be350',
+    name: 'Beechcraft King Air 350i',
+    callsign: 'N350KA',
+    emitterCategory: 1,
+    cruiseSpeed: 312,
+    maxSpeed: 312,
+    climbRate: 2500,
+    descentRate: 2500,
+    turnRate: 1.5,
+    acceleration: 3,
+    serviceCeiling: 35000,
+    rotateSpeed: 100,
+    approachSpeed: 110,
+  },
+];
+
+/**
+ * Directory searched for JSON profiles
+ */
+export const PROFILES_DIR = process.env.AIRCRAFT_PROFILES_DIR ?? path.resolve('profiles');
+
+/**
+ * Profile selected when the server starts
+ */
+export const DEFAULT_PROFILE_ID = 'c172';
+
+/**
+ * A JSON profile that could not be loaded
+ */
+export interface ProfileLoadError {
+  file: string;
+  error: string;
+}
+
+/**
+ * Validate a profile, returning an error message if invalid
+ */
+export function validateProfile(profile: unknown): string | null {
+  const candidate = profile as Partial<AircraftProfile> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    return 'Profile must be an object';
+  }
+
+  if (typeof candidate.id !== 'string' || !/^[a-z0-9-]{1,32}$/.test(candidate.id)) {
+    return 'id must be 1-32 lowercase letters, digits or dashes';
+  }
+  if (typeof candidate.name !== 'string' || candidate.name.trim() === '') {
+    return 'name is required';
+  }
+  if (typeof candidate.callsign !== 'string' || !/^[A-Za-z0-9 ]{1,8}$/.test(candidate.callsign)) {
+    return 'callsign must be 1-8 letters or digits';
+  }
+  if (
+    typeof candidate.emitterCategory !== 'number' ||
+    !Number.isInteger(candidate.emitterCategory) ||
+    candidate.emitterCategory < 0 ||
+    candidate.emitterCategory > 39
+  ) {
+    return 'emitterCategory must be an integer between 0 and 39';
+  }
+
+  const positiveFields = [
+    'cruiseSpeed',
+    'maxSpeed',
+    'climbRate',
+    'descentRate',
+    'turnRate',
+    'acceleration',
+    'serviceCeiling',
+  ] as const;
+  for (const field of positiveFields) {
+    const value = candidate[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return `${field} must be a positive number`;
+    }
+  }
+
+  if (candidate.cruiseSpeed! > candidate.maxSpeed!) {
+    return 'cruiseSpeed must not exceed maxSpeed';
+  }
+
+  for (const field of ['rotateSpeed', 'approachSpeed'] as const) {
+    const value = candidate[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > candidate.maxSpeed!) {
+      return `${field} must be a positive number no greater than maxSpeed`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load the built-in profiles and every JSON profile in a directory
+ */
+export async function loadProfiles(
+  directory: string
+): Promise<{ profiles: AircraftProfile[]; errors: ProfileLoadError[] }> {
+  const profiles = new Map(BUILT_IN_PROFILES.map((profile) => [profile.id, profile]));
+  const errors: ProfileLoadError[] = [];
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(directory)).filter((file) => file.toLowerCase().endsWith('.json')).sort();
+  } catch (err) {
+    // No profiles directory: built-in profiles only
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { profiles: [...profiles.values()], errors };
+    }
+    throw err;
+  }
+
+  for (const file of files) {
+    try {
+      const profile = JSON.parse(await fs.readFile(path.join(directory, file), 'utf-8'));
+      const error = validateProfile(profile);
+      if (error) {
+        errors.push({ file, error });
+      } else {
+        profiles.set(profile.id, profile);
+      }
+    } catch (err) {
+      errors.push({ file, error: err instanceof Error ? err.message : 'Unreadable file' });
+    }
+  }
+
+  return { profiles: [...profiles.values()], errors };
+}
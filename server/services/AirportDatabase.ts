@@ -0,0 +1,247 @@
+/**
+ * Airport Database
+ *
+ * Offline airports and runways from the OurAirports data files
+ * (https://ourairports.com/data/): airports.csv and runways.csv in the
+ * airports directory. The files are read once, on first use.
+ *
+ * Runway ends without a surveyed true heading get one from the bearing
+ * between the two thresholds, or failing that from the runway number.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Airport, Runway, RunwayEnd } from '../../src/types/airport.js';
+import { GPSPosition } from '../../src/types/gps.js';
+import { parseCSVRecords } from '../utils/csv.js';
+import { initialBearing, normalizeHeading } from '../utils/geo.js';
+
+export const AIRPORTS_DIR = process.env.AIRPORTS_DIR ?? path.resolve('airports');
+
+/**
+ * Most results a search returns
+ */
+export const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Search order of airport types when matches are otherwise equal
+ */
+const TYPE_RANK: Record<string, number> = {
+  large_airport: 0,
+  medium_airport: 1,
+  small_airport: 2,
+  seaplane_base: 3,
+  heliport: 4,
+  balloonport: 5,
+};
+
+/**
+ * Parse an optional number, returning null for a blank or invalid field
+ */
+function optionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Heading implied by a runway number (01-36), in tens of degrees
+ */
+function headingFromIdent(ident: string): number | null {
+  const match = /^(\d{1,2})/.exec(ident);
+  if (!match) return null;
+  const number = parseInt(match[1]);
+  return number >= 1 && number <= 36 ? (number * 10) % 360 : null;
+}
+
+/**
+ * Build both ends of a runway from an OurAirports runways.csv record
+ */
+function parseRunwayEnds(record: Record<string, string>): RunwayEnd[] {
+  const ends = (['le', 'he'] as const).map((prefix) => ({
+    ident: record[`${prefix}_ident`]?.trim() ?? '',
+    latitude: optionalNumber(record[`${prefix}_latitude_deg`]),
+    longitude: optionalNumber(record[`${prefix}_longitude_deg`]),
+    elevation: optionalNumber(record[`${prefix}_elevation_ft`]),
+    heading: optionalNumber(record[`${prefix}_heading_degT`]),
+    displacedThreshold: optionalNumber(record[`${prefix}_displaced_threshold_ft`]) ?? 0,
+  }));
+  const [low, high] = ends;
+
+  // Fill in missing headings from the other threshold or the runway number
+  if (low.latitude !== null && low.longitude !== null && high.latitude !== null && high.longitude !== null) {
+    low.heading ??= initialBearing(low.latitude, low.longitude, high.latitude, high.longitude);
+    high.heading ??= initialBearing(high.latitude, high.longitude, low.latitude, low.longitude);
+  }
+  low.heading ??= high.heading !== null ? normalizeHeading(high.heading + 180) : headingFromIdent(low.ident);
+  high.heading ??= low.heading !== null ? normalizeHeading(low.heading + 180) : headingFromIdent(high.ident);
+
+  return ends
+    .filter((end): end is RunwayEnd => end.ident !== '' && end.heading !== null)
+    .map((end) => ({ ...end, heading: normalizeHeading(end.heading) }));
+}
+
+/**
+ * Position lined up on a runway threshold, stopped on the ground. Without
+ * surveyed threshold coordinates the airport reference point is used.
+ */
+export function runwayThresholdPosition(airport: Airport, end: RunwayEnd): GPSPosition {
+  return {
+    latitude: end.latitude ?? airport.latitude,
+    longitude: end.longitude ?? airport.longitude,
+    altitude: end.elevation ?? airport.elevation ?? 0,
+    heading: end.heading,
+    trueHeading: end.heading,
+    groundSpeed: 0,
+    trueAirspeed: 0,
+    verticalSpeed: 0,
+    timestamp: Date.now(),
+    onGround: true,
+  };
+}
+
+export class AirportDatabase {
+  private airports: Airport[] = [];
+  private byIdent = new Map<string, Airport>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Read the CSV files if they haven't been read yet
+   */
+  load(): Promise<void> {
+    this.loading ??= this.read().catch((err) => {
+      // Try again next time (e.g., after the files are downloaded)
+      this.loading = null;
+      throw err;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Find an airport by ident or any of its other codes
+   */
+  get(ident: string): Airport | null {
+    return this.byIdent.get(ident.trim().toUpperCase()) ?? null;
+  }
+
+  /**
+   * Search by ident, code or name. Exact code matches come first, then
+   * idents starting with the query, then names containing it; larger
+   * airports first within each group. Closed airports are left out.
+   */
+  search(query: string, limit = 20): Airport[] {
+    const upper = query.trim().toUpperCase();
+    if (!upper) return [];
+
+    const ranked: { airport: Airport; rank: number }[] = [];
+    for (const airport of this.airports) {
+      if (airport.type === 'closed') continue;
+
+      let rank: number;
+      if (airport.ident === upper || airport.codes.includes(upper)) {
+        rank = 0;
+      } else if (airport.ident.startsWith(upper) || airport.codes.some((code) => code.startsWith(upper))) {
+        rank = 1;
+      } else if (upper.length >= 3 && airport.name.toUpperCase().includes(upper)) {
+        rank = 2;
+      } else {
+        continue;
+      }
+      ranked.push({ airport, rank: rank * 10 + (TYPE_RANK[airport.type] ?? 9) });
+    }
+
+    return ranked
+      .sort((a, b) => a.rank - b.rank || a.airport.ident.localeCompare(b.airport.ident))
+      .slice(0, Math.min(limit, MAX_SEARCH_RESULTS))
+      .map(({ airport }) => airport);
+  }
+
+  /**
+   * Parse airports.csv and runways.csv
+   */
+  private async read(): Promise<void> {
+    const [airportRecords, runwayRecords] = await Promise.all(
+      ['airports.csv', 'runways.csv'].map(async (file) => {
+        try {
+          return parseCSVRecords(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error(`${file} not found in ${this.directory}. Download it from https://ourairports.com/data/`);
+          }
+          throw err;
+        }
+      })
+    );
+
+    const airports: Airport[] = [];
+    const byIdent = new Map<string, Airport>();
+    for (const record of airportRecords) {
+      const latitude = optionalNumber(record.latitude_deg);
+      const longitude = optionalNumber(record.longitude_deg);
+      const ident = record.ident?.trim().toUpperCase();
+      if (!ident || latitude === null || longitude === null) continue;
+
+      const codes = [record.icao_code, record.gps_code, record.iata_code, record.local_code]
+        .map((code) => code?.trim().toUpperCase())
+        .filter((code): code is string => !!code && code !== ident);
+
+      const airport: Airport = {
+        ident,
+        type: record.type ?? '',
+        name: record.name ?? ident,
+        latitude,
+        longitude,
+        elevation: optionalNumber(record.elevation_ft),
+        municipality: record.municipality ?? '',
+        country: record.iso_country ?? '',
+        codes: [...new Set(codes)],
+        runways: [],
+      };
+      airports.push(airport);
+      byIdent.set(ident, airport);
+    }
+
+    // Other codes resolve too, unless another airport has that ident
+    for (const airport of airports) {
+      for (const code of airport.codes) {
+        if (!byIdent.has(code)) byIdent.set(code, airport);
+      }
+    }
+
+    for (const record of runwayRecords) {
+      const airport = byIdent.get(record.airport_ident?.trim().toUpperCase() ?? '');
+      if (!airport) continue;
+
+      const runway: Runway = {
+        length: optionalNumber(record.length_ft),
+        width: optionalNumber(record.width_ft),
+        surface: record.surface ?? '',
+        lighted: record.lighted === '1',
+        closed: record.closed === '1',
+        ends: parseRunwayEnds(record),
+      };
+      if (runway.ends.length > 0) {
+        airport.runways.push(runway);
+      }
+    }
+
+    this.airports = airports;
+    this.byIdent = byIdent;
+    console.log(`Loaded ${airports.length} airports and ${runwayRecords.length} runways from ${this.directory}`);
+  }
+}
+
+// Singleton instance
+let databaseInstance: AirportDatabase | null = null;
+
+/**
+ * Get the airport database for AIRPORTS_DIR (singleton)
+ */
+export function getAirportDatabase(): AirportDatabase {
+  if (!databaseInstance) {
+    databaseInstance = new AirportDatabase(AIRPORTS_DIR);
+  }
+  return databaseInstance;
+}
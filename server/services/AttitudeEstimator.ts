@@ -0,0 +1,99 @@
+/**
+ * Attitude Estimator
+ *
+ * Derives a plausible pitch and bank from the motion of the simulated
+ * aircraft, for attitude (XATT) output. Bank is the coordinated-turn bank
+ * for the observed turn rate at the current true airspeed; pitch is the
+ * flight path angle from vertical speed and airspeed.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { angleDifference, knotsToMetersPerSecond, toDegrees, toRadians } from '../utils/geo.js';
+
+/**
+ * Standard gravity (m/s²)
+ */
+const GRAVITY = 9.80665;
+
+/**
+ * Attitude limits, so glitches in the input never show an inverted aircraft
+ */
+const MAX_BANK_DEGREES = 60;
+const MAX_PITCH_DEGREES = 30;
+
+/**
+ * Smoothing time constant (seconds) for the turn rate, which is noisy when
+ * differentiated from positions updated at 10 Hz
+ */
+const TURN_RATE_TIME_CONSTANT = 0.5;
+
+/**
+ * Aircraft attitude in degrees (pitch up and right bank are positive)
+ */
+export interface Attitude {
+  pitch: number;
+  roll: number;
+}
+
+export class AttitudeEstimator {
+  private lastHeading: number | null = null;
+  private lastTime = 0;
+  private turnRate = 0; // Degrees per second, smoothed
+
+  /**
+   * Estimate the attitude for the current position
+   */
+  update(position: GPSPosition, now: number = performance.now()): Attitude {
+    const heading = position.trueHeading ?? position.heading;
+    const airspeed = position.trueAirspeed ?? position.groundSpeed;
+
+    if (this.lastHeading !== null) {
+      const dt = (now - this.lastTime) / 1000;
+      if (dt > 0) {
+        const sample = angleDifference(heading, this.lastHeading) / dt;
+        const alpha = dt / (TURN_RATE_TIME_CONSTANT + dt);
+        this.turnRate += (sample - this.turnRate) * alpha;
+      }
+    }
+    this.lastHeading = heading;
+    this.lastTime = now;
+
+    return {
+      pitch: pitchForClimb(position.verticalSpeed, airspeed),
+      roll: bankForTurn(this.turnRate, airspeed),
+    };
+  }
+
+  /**
+   * Forget the turn history (e.g., after the server restarts)
+   */
+  reset(): void {
+    this.lastHeading = null;
+    this.turnRate = 0;
+  }
+}
+
+/**
+ * Coordinated-turn bank angle for a turn rate (degrees/second) at an
+ * airspeed (knots)
+ */
+export function bankForTurn(turnRate: number, airspeed: number): number {
+  const bank = toDegrees(Math.atan((toRadians(turnRate) * knotsToMetersPerSecond(airspeed)) / GRAVITY));
+  return clamp(bank, MAX_BANK_DEGREES);
+}
+
+/**
+ * Flight path angle for a vertical speed (feet/minute) at an airspeed (knots)
+ */
+export function pitchForClimb(verticalSpeed: number, airspeed: number): number {
+  const airspeedFpm = (airspeed * 6076.12) / 60;
+  if (airspeedFpm <= 0) {
+    return 0;
+  }
+  const pitch = toDegrees(Math.asin(Math.max(-1, Math.min(1, verticalSpeed / airspeedFpm))));
+  return clamp(pitch, MAX_PITCH_DEGREES);
+}
+
+function clamp(value: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, value));
+}
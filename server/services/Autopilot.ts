@@ -0,0 +1,109 @@
+/**
+ * Autopilot
+ *
+ * Flies the aircraft toward selected altitude, heading and speed at
+ * realistic rates: rate-limited turns, climbs and descents at the selected
+ * vertical speed with a smooth level-off, and bounded acceleration. The
+ * aircraft profile caps turn rate, acceleration, speed, climb and descent
+ * rates and altitude, whether or not a target is selected.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { AutopilotTargets } from '../../src/types/autopilot.js';
+import { AircraftProfile } from '../../src/types/profile.js';
+import { turnToward } from '../utils/geo.js';
+
+/**
+ * Default climb/descent rate (feet per minute)
+ */
+const DEFAULT_VERTICAL_SPEED = 500;
+
+/**
+ * Time constant (seconds) of the level-off: vertical speed is reduced so
+ * the remaining altitude would be covered in this time
+ */
+const LEVEL_OFF_TIME = 10;
+
+/**
+ * Altitude error (feet) below which the aircraft snaps to the selected altitude
+ */
+const ALTITUDE_CAPTURE_FT = 1;
+
+export class Autopilot {
+  private targets: AutopilotTargets = {
+    altitude: null,
+    heading: null,
+    speed: null,
+    verticalSpeed: DEFAULT_VERTICAL_SPEED,
+  };
+
+  /**
+   * Get the selected targets
+   */
+  getTargets(): AutopilotTargets {
+    return { ...this.targets };
+  }
+
+  /**
+   * Change some of the selected targets
+   */
+  setTargets(targets: Partial<AutopilotTargets>): void {
+    this.targets = { ...this.targets, ...targets };
+  }
+
+  /**
+   * Move the position's true heading, airspeed and vertical speed toward
+   * the targets over dt seconds, within the profile's performance. A route
+   * heading, when given, takes the place of the selected heading.
+   */
+  update(
+    position: GPSPosition,
+    dt: number,
+    profile: AircraftProfile,
+    routeHeading: number | null = null
+  ): GPSPosition {
+    let trueHeading = position.trueHeading ?? position.heading;
+    let trueAirspeed = position.trueAirspeed ?? position.groundSpeed;
+    let { altitude, verticalSpeed } = position;
+
+    // Heading (the route, if flown, overrides the selected heading)
+    const targetHeading = routeHeading ?? this.targets.heading;
+    if (targetHeading !== null) {
+      trueHeading = turnToward(trueHeading, targetHeading, profile.turnRate * dt);
+    }
+
+    // Speed (an aircraft pushed past its maximum speed slows back down)
+    const targetSpeed =
+      this.targets.speed !== null
+        ? Math.min(this.targets.speed, profile.maxSpeed)
+        : trueAirspeed > profile.maxSpeed
+          ? profile.maxSpeed
+          : null;
+    if (targetSpeed !== null) {
+      const maxChange = profile.acceleration * dt;
+      trueAirspeed += Math.max(-maxChange, Math.min(maxChange, targetSpeed - trueAirspeed));
+    }
+
+    // Altitude: climb or descend at the selected rate, easing off near the target
+    const targetAltitude =
+      this.targets.altitude !== null ? Math.min(this.targets.altitude, profile.serviceCeiling) : null;
+    if (targetAltitude !== null) {
+      const error = targetAltitude - altitude;
+      if (Math.abs(error) <= ALTITUDE_CAPTURE_FT) {
+        altitude = targetAltitude;
+        verticalSpeed = 0;
+      } else {
+        const rate = Math.min(Math.abs(this.targets.verticalSpeed), (Math.abs(error) * 60) / LEVEL_OFF_TIME);
+        verticalSpeed = Math.sign(error) * Math.max(rate, ALTITUDE_CAPTURE_FT * 60);
+      }
+    }
+
+    // Performance limits
+    verticalSpeed = Math.max(-profile.descentRate, Math.min(profile.climbRate, verticalSpeed));
+    if (altitude >= profile.serviceCeiling && verticalSpeed > 0) {
+      verticalSpeed = 0;
+    }
+
+    return { ...position, trueHeading, trueAirspeed, altitude, verticalSpeed };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Device Discovery Tests
+ *
+ * Binds the listener on a free port and sends announcements to it from a
+ * local UDP socket.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import dgram from 'dgram';
+import { ServerEvent } from '../../src/types/events.js';
+import type { DeviceDiscovery as DeviceDiscoveryType } from './DeviceDiscovery.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+// Read when the module loads, so set it before importing
+process.env.DISCOVERY_PORT = '0';
+const { DeviceDiscovery, parseAnnouncement } = await import('./DeviceDiscovery.js');
+
+/**
+ * Poll until a condition holds (datagrams arrive asynchronously)
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the discovery listener');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('parseAnnouncement', () => {
+  it('reads the app and GDL 90 port', () => {
+    const announcement = parseAnnouncement(Buffer.from('{"App":"ForeFlight","GDL90":{"port":4000}}'));
+    assert.deepEqual(announcement, { app: 'ForeFlight', gdl90Port: 4000 });
+  });
+
+  it('keeps the app when the GDL 90 port is missing or invalid', () => {
+    assert.deepEqual(parseAnnouncement(Buffer.from('{"App":"ForeFlight"}')), { app: 'ForeFlight', gdl90Port: null });
+    assert.deepEqual(parseAnnouncement(Buffer.from('{"App":"ForeFlight","GDL90":{"port":70000}}')), {
+      app: 'ForeFlight',
+      gdl90Port: null,
+    });
+  });
+});
+
+describe('DeviceDiscovery', () => {
+  const events: ServerEvent[] = [];
+  const server = {
+    getEventStream: () => ({ publish: (event: ServerEvent) => events.push(event) }),
+  } as unknown as GPSDataServer;
+  let discovery: DeviceDiscoveryType;
+  let sender: dgram.Socket;
+
+  const send = (payload: string | Buffer) =>
+    new Promise<void>((resolve, reject) => {
+      sender.send(payload, discovery.getPort(), '127.0.0.1', (err) => (err ? reject(err) : resolve()));
+    });
+
+  before(async () => {
+    discovery = new DeviceDiscovery(server);
+    discovery.start();
+    await waitFor(() => discovery.isListening());
+    sender = dgram.createSocket('udp4');
+  });
+
+  after(() => {
+    sender.close();
+    discovery.stop();
+  });
+
+  beforeEach(() => {
+    discovery.clear();
+    events.length = 0;
+  });
+
+  it('records a ForeFlight announcement from a local sender', async () => {
+    await send('{"App":"ForeFlight","GDL90":{"port":4000}}');
+    await waitFor(() => discovery.getDevices().length > 0);
+
+    const [device] = discovery.getDevices();
+    assert.equal(device.address, '127.0.0.1');
+    assert.equal(device.app, 'ForeFlight');
+    assert.equal(device.gdl90Port, 4000);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, 'devices');
+  });
+
+  it('ignores malformed payloads', async () => {
+    for (const payload of ['not json', '[]', 'null', '{"App":42}', '{"App":""}', '{"GDL90":{"port":4000}}']) {
+      await send(payload);
+    }
+    // Datagrams on loopback arrive in order, so once this one is recorded the others were ignored
+    await send('{"App":"Sentinel"}');
+    await waitFor(() => discovery.getDevices().length > 0);
+
+    assert.deepEqual(
+      discovery.getDevices().map((device) => device.app),
+      ['Sentinel']
+    );
+    assert.equal(events.length, 1);
+  });
+
+  it('ignores oversized payloads', async () => {
+    await send(JSON.stringify({ App: 'ForeFlight', padding: 'x'.repeat(2000) }));
+    await send('{"App":"Sentinel"}');
+    await waitFor(() => discovery.getDevices().length > 0);
+
+    assert.deepEqual(
+      discovery.getDevices().map((device) => device.app),
+      ['Sentinel']
+    );
+    assert.equal(events.length, 1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Device Discovery
+ *
+ * Listens for the JSON broadcast ForeFlight sends to find GDL 90 receivers
+ * on the network:
+ *
+ *   {"App":"ForeFlight","GDL90":{"port":4000}}
+ *
+ * Announcing devices are kept with the time they were last heard so the UI
+ * can offer them as targets instead of typing an IP address. Devices that
+ * stop announcing are forgotten after a while.
+ */
+
+import dgram from 'dgram';
+import { DiscoveredDevice } from '../../src/types/discovery.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * UDP port announcements are heard on (0 binds any free port, as in tests)
+ */
+export const DISCOVERY_PORT = Number(process.env.DISCOVERY_PORT ?? 63093);
+
+const DEVICE_EXPIRY_MS = 10 * 60 * 1000;
+
+/**
+ * Largest datagram treated as an announcement (ForeFlight's is under 50 bytes)
+ */
+const MAX_ANNOUNCEMENT_BYTES = 1024;
+
+/**
+ * Parse a discovery announcement, or return null if it isn't one
+ */
+export function parseAnnouncement(
+  message: Buffer
+): Pick<DiscoveredDevice, 'app' | 'gdl90Port'> | null {
+  if (message.length > MAX_ANNOUNCEMENT_BYTES) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(message.toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== 'object' || data === null) return null;
+  const { App: app, GDL90: gdl90 } = data as { App?: unknown; GDL90?: { port?: unknown } };
+  if (typeof app !== 'string' || !app) return null;
+
+  const port = gdl90?.port;
+  const gdl90Port =
+    typeof port === 'number' && Number.isInteger(port) && port >= 1 && port <= 65535 ? port : null;
+  return { app, gdl90Port };
+}
+
+export class DeviceDiscovery {
+  private socket: dgram.Socket | null = null;
+  private devices = new Map<string, DiscoveredDevice>();
+  private listening = false;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Start listening for announcements
+   */
+  start(): void {
+    if (this.socket) return;
+
+    this.socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+    this.socket.on('message', (message, remote) => {
+      this.record(message, remote.address);
+    });
+
+    this.socket.on('error', (err) => {
+      console.error(`Device discovery listener error on port ${DISCOVERY_PORT}:`, err.message);
+      this.stop();
+    });
+
+    this.socket.bind(DISCOVERY_PORT, () => {
+      this.listening = true;
+      console.log(`Listening for EFB discovery broadcasts on UDP port ${DISCOVERY_PORT}`);
+    });
+  }
+
+  /**
+   * Stop listening (discovered devices are kept)
+   */
+  stop(): void {
+    this.socket?.close();
+    this.socket = null;
+    this.listening = false;
+  }
+
+  /**
+   * Get the UDP port announcements are heard on
+   */
+  getPort(): number {
+    return this.listening && this.socket ? this.socket.address().port : DISCOVERY_PORT;
+  }
+
+  /**
+   * Check if the listener is bound
+   */
+  isListening(): boolean {
+    return this.listening;
+  }
+
+  /**
+   * Get the devices heard recently, most recently seen first
+   */
+  getDevices(now = Date.now()): DiscoveredDevice[] {
+    for (const [address, device] of this.devices) {
+      if (now - device.lastSeen > DEVICE_EXPIRY_MS) {
+        this.devices.delete(address);
+      }
+    }
+    return [...this.devices.values()]
+      .sort((a, b) => b.lastSeen - a.lastSeen)
+      .map((device) => ({ ...device }));
+  }
+
+  /**
+   * Forget all discovered devices
+   */
+  clear(): void {
+    this.devices.clear();
+  }
+
+  /**
+   * Record an announcement from a device
+   */
+  private record(message: Buffer, address: string): void {
+    const announcement = parseAnnouncement(message);
+    if (!announcement) return;
+
+    const now = Date.now();
+    const existing = this.devices.get(address);
+    if (!existing) {
+      console.log(`Discovered ${announcement.app} at ${address}`);
+    }
+
+    this.devices.set(address, {
+      address,
+      ...announcement,
+      firstSeen: existing?.firstSeen ?? now,
+      lastSeen: now,
+    });
+    this.server.getEventStream().publish({ type: 'devices', devices: this.getDevices(now) });
+  }
+}
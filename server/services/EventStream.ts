@@ -0,0 +1,84 @@
+/**
+ * Event Stream
+ *
+ * Pushes live events (transmitted positions, engine starts and stops, send
+ * errors) to subscribers as Server-Sent Events, so the web UI and external
+ * tools see exactly what is transmitted without polling.
+ */
+
+import type { Response } from 'express';
+import { ServerEvent } from '../../src/types/events.js';
+
+/**
+ * Comment line sent to idle subscribers so proxies don't close the connection
+ */
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+export class EventStream {
+  private subscribers = new Set<Response>();
+  private keepaliveInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Turn a response into an event stream, sending the given events first
+   * so a new subscriber starts from the current state
+   */
+  subscribe(res: Response, initialEvents: ServerEvent[] = []): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 2000\n\n');
+    for (const event of initialEvents) {
+      res.write(formatEvent(event));
+    }
+
+    this.subscribers.add(res);
+    res.on('close', () => this.unsubscribe(res));
+
+    if (!this.keepaliveInterval) {
+      this.keepaliveInterval = setInterval(() => {
+        for (const subscriber of this.subscribers) {
+          subscriber.write(': keepalive\n\n');
+        }
+      }, KEEPALIVE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Send an event to every subscriber
+   */
+  publish(event: ServerEvent): void {
+    if (this.subscribers.size === 0) return;
+
+    const data = formatEvent(event);
+    for (const subscriber of this.subscribers) {
+      subscriber.write(data);
+    }
+  }
+
+  /**
+   * Get the number of connected subscribers
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Forget a subscriber whose connection closed
+   */
+  private unsubscribe(res: Response): void {
+    this.subscribers.delete(res);
+    if (this.subscribers.size === 0 && this.keepaliveInterval) {
+      clearInterval(this.keepaliveInterval);
+      this.keepaliveInterval = null;
+    }
+  }
+}
+
+/**
+ * Format an event as an SSE message named after its type
+ */
+function formatEvent(event: ServerEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
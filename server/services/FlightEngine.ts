@@ -0,0 +1,347 @@
+/**
+ * Flight Engine
+ *
+ * Server-side flight simulation. Advances the GPS data server's current
+ * position by dead reckoning, integrating heading, ground speed and vertical
+ * speed over the real time elapsed between ticks. Runs independently of any
+ * browser so long demos and recordings keep flying.
+ *
+ * The aircraft flies a true heading and airspeed; the wind model turns these
+ * into the track and ground speed that are integrated and broadcast. The
+ * autopilot moves heading, airspeed and altitude toward their selected
+ * values. When a route is loaded, heading is steered at the profile's turn
+ * rate to hold the route's desired track, correcting for wind; a hold,
+ * orbit or DME arc being flown takes precedence over the route. The active
+ * aircraft profile bounds all of this. With terrain blocking on, the
+ * aircraft can't descend below the ground.
+ *
+ * On the ground, and for takeoff and landing, the flight phase controller
+ * flies instead of the autopilot.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { RouteState } from '../../src/types/route.js';
+import { AutopilotTargets } from '../../src/types/autopilot.js';
+import { AircraftProfile } from '../../src/types/profile.js';
+import { FlightPhase, LandingClearance } from '../../src/types/phase.js';
+import { destinationPoint, knotsToMetersPerSecond } from '../utils/geo.js';
+import { RouteNavigator } from './RouteNavigator.js';
+import { ManeuverNavigator } from './ManeuverNavigator.js';
+import { WindModel, headingForTrack } from './WindModel.js';
+import { Autopilot } from './Autopilot.js';
+import { FlightPhaseController, initialPhase } from './FlightPhaseController.js';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE_ID } from './AircraftProfiles.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * Simulation tick interval (10 Hz, independent of the broadcast update rate)
+ */
+const TICK_INTERVAL_MS = 100;
+
+/**
+ * Current flight engine state
+ */
+export interface FlightState {
+  isFlying: boolean;
+  position: GPSPosition | null;
+  route: RouteState;
+  autopilot: AutopilotTargets;
+  profile: AircraftProfile;
+  phase: FlightPhase;
+  landing: LandingClearance | null;   // Runway being landed on
+  groundElevation: number | null; // Feet MSL under the aircraft, null without terrain data
+  agl: number | null;             // Feet above the ground
+  terrainBlocking: boolean;
+}
+
+export class FlightEngine {
+  private tickInterval: NodeJS.Timeout | null = null;
+  private lastTick = 0;
+  private navigator = new RouteNavigator('Route');
+  private maneuvers = new ManeuverNavigator();
+  private wind = new WindModel();
+  private autopilot = new Autopilot();
+  private phases = new FlightPhaseController();
+  private terrainBlocking = false;
+  private profile = BUILT_IN_PROFILES.find((profile) => profile.id === DEFAULT_PROFILE_ID)!;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Start flying from the server's current position
+   */
+  start(): void {
+    if (this.tickInterval) {
+      throw new Error('Flight is already in progress');
+    }
+
+    const position = this.server.getCurrentPosition();
+    if (!position) {
+      throw new Error('No current position. Set a position before starting the flight.');
+    }
+
+    this.phases.reset(position);
+    this.lastTick = performance.now();
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.server.getEventStream().publish({ type: 'state', engine: 'flight', running: true });
+    this.publishPhase();
+    console.log('Flight engine started');
+  }
+
+  /**
+   * Stop flying, leaving the aircraft at its current position
+   */
+  stop(): void {
+    if (!this.tickInterval) {
+      return;
+    }
+
+    clearInterval(this.tickInterval);
+    this.tickInterval = null;
+    this.server.getEventStream().publish({ type: 'state', engine: 'flight', running: false });
+    console.log('Flight engine stopped');
+  }
+
+  /**
+   * Check if the engine is flying
+   */
+  getIsFlying(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  /**
+   * Begin the takeoff roll from the runway the aircraft is lined up on
+   */
+  takeOff(): void {
+    const position = this.server.getCurrentPosition();
+    if (!this.tickInterval || !position) {
+      throw new Error('Start the flight before taking off');
+    }
+
+    this.phases.takeOff(position);
+    this.publishPhase();
+  }
+
+  /**
+   * Fly a stabilized final approach to a runway and land. The selected
+   * targets are cleared, so the aircraft stops once it has landed.
+   */
+  land(clearance: LandingClearance): void {
+    if (!this.tickInterval) {
+      throw new Error('Start the flight before landing');
+    }
+
+    this.phases.land(clearance);
+    this.maneuvers.stop();
+    this.autopilot.setTargets({ altitude: null, heading: null, speed: null });
+    this.publishPhase();
+  }
+
+  /**
+   * Lay out the planned maneuver from the current position, so the map
+   * shows where it would be joined. A maneuver being flown (or a finished
+   * DME arc) keeps the path it was started on.
+   */
+  planManeuver(): void {
+    const position = this.server.getCurrentPosition();
+    if (!position || this.maneuvers.isActive() || this.maneuvers.isComplete()) {
+      return;
+    }
+
+    this.maneuvers.plan(
+      position,
+      this.maneuverSpeed(position),
+      this.profile.turnRate,
+      this.wind.getWindAt(position.altitude).speed
+    );
+  }
+
+  /**
+   * Start flying the planned maneuver from the current position
+   */
+  executeManeuver(): void {
+    const position = this.server.getCurrentPosition();
+    if (!this.tickInterval || !position) {
+      throw new Error('Start the flight before flying a maneuver');
+    }
+    if (this.phases.getPhase() !== 'enRoute') {
+      throw new Error('Maneuvers can only be flown en route, after the climb-out and before an approach');
+    }
+
+    this.maneuvers.start(
+      position,
+      this.maneuverSpeed(position),
+      this.profile.turnRate,
+      this.wind.getWindAt(position.altitude).speed
+    );
+  }
+
+  /**
+   * Get the current flight state
+   */
+  getState(): FlightState {
+    const position = this.server.getCurrentPosition();
+    const groundElevation = position
+      ? this.server.getTerrain().getElevation(position.latitude, position.longitude)
+      : null;
+    return {
+      isFlying: this.getIsFlying(),
+      position,
+      route: this.navigator.getState(),
+      autopilot: this.autopilot.getTargets(),
+      profile: this.profile,
+      // Until the flight starts, the phase follows the position
+      phase: this.tickInterval || !position ? this.phases.getPhase() : initialPhase(position),
+      landing: this.phases.getLanding(),
+      groundElevation,
+      agl: position && groundElevation !== null ? position.altitude - groundElevation : null,
+      terrainBlocking: this.terrainBlocking,
+    };
+  }
+
+  /**
+   * Check if the aircraft is kept from descending below the terrain
+   */
+  getTerrainBlocking(): boolean {
+    return this.terrainBlocking;
+  }
+
+  /**
+   * Keep the aircraft from descending below the terrain (where there is data)
+   */
+  setTerrainBlocking(enabled: boolean): void {
+    this.terrainBlocking = enabled;
+  }
+
+  /**
+   * Get the aircraft profile being flown
+   */
+  getProfile(): AircraftProfile {
+    return this.profile;
+  }
+
+  /**
+   * Fly a different aircraft profile
+   */
+  setProfile(profile: AircraftProfile): void {
+    this.profile = profile;
+    console.log(`Aircraft profile: ${profile.name}`);
+  }
+
+  /**
+   * Get the route navigator that steers the aircraft along waypoints
+   */
+  getNavigator(): RouteNavigator {
+    return this.navigator;
+  }
+
+  /**
+   * Get the maneuver navigator that flies holds, orbits and DME arcs
+   */
+  getManeuverNavigator(): ManeuverNavigator {
+    return this.maneuvers;
+  }
+
+  /**
+   * Get the autopilot that flies toward the selected targets
+   */
+  getAutopilot(): Autopilot {
+    return this.autopilot;
+  }
+
+  /**
+   * Get the wind model used to derive track and ground speed
+   */
+  getWindModel(): WindModel {
+    return this.wind;
+  }
+
+  /**
+   * Advance the position by the real time elapsed since the last tick
+   */
+  private tick(): void {
+    const now = performance.now();
+    const dt = (now - this.lastTick) / 1000; // seconds
+    this.lastTick = now;
+
+    let position = this.server.getCurrentPosition();
+    if (!position) return;
+
+    const phase = this.phases.getPhase();
+    if (phase === 'enRoute') {
+      // Fly the maneuver or the route, if either is loaded, otherwise the selected heading
+      const desiredTrack =
+        this.maneuvers.guide(position) ?? this.navigator.guide(position, this.profile.turnRate);
+      const routeHeading =
+        desiredTrack === null
+          ? null
+          : headingForTrack(
+              desiredTrack,
+              position.trueAirspeed ?? position.groundSpeed,
+              this.wind.getWindAt(position.altitude)
+            );
+      position = this.wind.applyAirData(this.autopilot.update(position, dt, this.profile, routeHeading));
+    } else {
+      position = this.phases.update(position, dt, this.profile, this.wind, this.autopilot.getTargets());
+    }
+    position = advancePosition(position, dt);
+
+    if (this.terrainBlocking && !position.onGround) {
+      const ground = this.server.getTerrain().getElevation(position.latitude, position.longitude);
+      if (ground !== null && position.altitude < ground) {
+        position = { ...position, altitude: ground, verticalSpeed: Math.max(0, position.verticalSpeed) };
+      }
+    }
+
+    this.server.updatePosition(position);
+
+    if (this.phases.getPhase() !== phase) {
+      this.publishPhase();
+    }
+  }
+
+  /**
+   * Airspeed a maneuver's turns and timed legs are sized for: the current
+   * true airspeed in flight, otherwise the profile's cruise speed
+   */
+  private maneuverSpeed(position: GPSPosition): number {
+    if (!this.tickInterval || position.onGround) {
+      return this.profile.cruiseSpeed;
+    }
+    return position.trueAirspeed ?? position.groundSpeed;
+  }
+
+  /**
+   * Tell event subscribers the flight phase
+   */
+  private publishPhase(): void {
+    this.server.getEventStream().publish({
+      type: 'phase',
+      phase: this.phases.getPhase(),
+      landing: this.phases.getLanding(),
+    });
+  }
+}
+
+/**
+ * Dead-reckon a position forward by dt seconds
+ */
+export function advancePosition(position: GPSPosition, dt: number): GPSPosition {
+  const { latitude, longitude, altitude, heading, groundSpeed, verticalSpeed } = position;
+
+  // --- Horizontal Movement ---
+  const distance = knotsToMetersPerSecond(groundSpeed) * dt;
+  const next = destinationPoint(latitude, longitude, heading, distance);
+
+  // --- Vertical Movement ---
+  const verticalSpeedFps = verticalSpeed / 60; // fpm to fps
+  const newAltitude = altitude + verticalSpeedFps * dt;
+
+  return {
+    ...position,
+    latitude: next.latitude,
+    longitude: next.longitude,
+    altitude: newAltitude,
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Flight Phase Controller
+ *
+ * Flies the phases the autopilot doesn't: moving on the ground, the takeoff
+ * roll and climb-out, and a landing from a stabilized final approach through
+ * flare, touchdown and rollout. On the ground the aircraft rolls along its
+ * heading at wheel speed, so the wind doesn't move it; in the air the wind
+ * model turns heading and airspeed into track and ground speed.
+ *
+ * A landing joins the extended runway centerline at a final approach fix
+ * and descends on a 3° glidepath to the threshold crossing height.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { AutopilotTargets } from '../../src/types/autopilot.js';
+import { AircraftProfile } from '../../src/types/profile.js';
+import { FlightPhase, GROUND_PHASES, LandingClearance } from '../../src/types/phase.js';
+import {
+  METERS_PER_NM,
+  alongTrackDistance,
+  destinationPoint,
+  normalizeHeading,
+  toRadians,
+  turnToward,
+} from '../utils/geo.js';
+import { RouteNavigator } from './RouteNavigator.js';
+import { WindModel, headingForTrack } from './WindModel.js';
+
+/**
+ * Fastest the aircraft taxis (knots), whatever speed is selected
+ */
+const MAX_TAXI_SPEED = 20;
+
+/**
+ * Taxi speed change rate (knots per second)
+ */
+const TAXI_ACCELERATION = 2;
+
+/**
+ * Nosewheel steering rate while taxiing (degrees per second)
+ */
+const TAXI_TURN_RATE = 10;
+
+/**
+ * Takeoff power accelerates this many times faster than the profile's
+ * in-flight speed changes
+ */
+const TAKEOFF_ACCELERATION_FACTOR = 2;
+
+/**
+ * Deceleration with brakes on the rollout (knots per second)
+ */
+const BRAKING_DECELERATION = 4;
+
+/**
+ * Height above the runway (feet) where climb-out ends and the autopilot
+ * takes over
+ */
+const CLIMB_OUT_HEIGHT = 1000;
+
+/**
+ * Final approach glidepath (degrees) and threshold crossing height (feet)
+ */
+const GLIDEPATH_ANGLE = 3;
+const THRESHOLD_CROSSING_HEIGHT = 50;
+
+/**
+ * Distance of the final approach fix from the threshold (nautical miles)
+ */
+const FINAL_APPROACH_FIX_NM = 5;
+
+/**
+ * Centerline guidance continues this far past the threshold (nautical miles)
+ */
+const ROLLOUT_GUIDANCE_NM = 2;
+
+/**
+ * Vertical speed corrections remove the glidepath error in this time (seconds)
+ */
+const PATH_CAPTURE_TIME = 10;
+
+/**
+ * Height above the runway (feet) where the flare begins
+ */
+const FLARE_HEIGHT = 30;
+
+/**
+ * Sink rate the flare eases toward (feet per minute) and how fast (feet per
+ * minute per second)
+ */
+const TOUCHDOWN_SINK_RATE = 100;
+const FLARE_RATE = 150;
+
+/**
+ * Time on the wheels before braking (seconds)
+ */
+const TOUCHDOWN_TIME = 2;
+
+const FEET_PER_METER = 3.28084;
+
+/**
+ * Speed the aircraft rotates at on the takeoff roll
+ */
+export function rotateSpeed(profile: AircraftProfile): number {
+  return profile.rotateSpeed ?? profile.cruiseSpeed * 0.45;
+}
+
+/**
+ * Speed flown on final approach
+ */
+export function approachSpeed(profile: AircraftProfile): number {
+  return profile.approachSpeed ?? rotateSpeed(profile) * 1.2;
+}
+
+/**
+ * Speed flown on climb-out
+ */
+function climbSpeed(profile: AircraftProfile): number {
+  return Math.min(profile.maxSpeed, approachSpeed(profile) * 1.15);
+}
+
+/**
+ * Phase of a position the flight starts from
+ */
+export function initialPhase(position: GPSPosition): FlightPhase {
+  if (!position.onGround) return 'enRoute';
+  return position.groundSpeed > 0 ? 'taxi' : 'parked';
+}
+
+/**
+ * Move a value toward a target by at most maxChange
+ */
+function moveToward(value: number, target: number, maxChange: number): number {
+  return value + Math.max(-maxChange, Math.min(maxChange, target - value));
+}
+
+/**
+ * Altitude (feet MSL) of the glidepath a distance (meters) before the threshold
+ */
+function glidepathAltitude(landing: LandingClearance, distance: number): number {
+  return (
+    landing.elevation +
+    THRESHOLD_CROSSING_HEIGHT +
+    Math.tan(toRadians(GLIDEPATH_ANGLE)) * distance * FEET_PER_METER
+  );
+}
+
+export class FlightPhaseController {
+  private phase: FlightPhase = 'enRoute';
+  private phaseTime = 0; // Seconds in the current phase
+  private landing: LandingClearance | null = null;
+  private approach = new RouteNavigator('Approach');
+  private runwayElevation = 0; // Runway taken off from, feet MSL
+
+  /**
+   * Get the current phase
+   */
+  getPhase(): FlightPhase {
+    return this.phase;
+  }
+
+  /**
+   * Get the runway the aircraft is landing on, if any
+   */
+  getLanding(): LandingClearance | null {
+    return this.landing ? { ...this.landing } : null;
+  }
+
+  /**
+   * Start over from the phase of a position (e.g., when the flight starts)
+   */
+  reset(position: GPSPosition): void {
+    this.landing = null;
+    this.approach.clear();
+    this.setPhase(initialPhase(position));
+  }
+
+  /**
+   * Begin the takeoff roll on the current heading
+   */
+  takeOff(position: GPSPosition): void {
+    if (this.phase !== 'parked' && this.phase !== 'taxi') {
+      throw new Error('The aircraft must be parked or taxiing to take off');
+    }
+
+    this.runwayElevation = position.altitude;
+    this.setPhase('takeoffRoll');
+  }
+
+  /**
+   * Fly to the final approach fix, then down the glidepath to land
+   */
+  land(clearance: LandingClearance): void {
+    if (GROUND_PHASES.includes(this.phase)) {
+      throw new Error('The aircraft is on the ground');
+    }
+
+    const { latitude, longitude, heading } = clearance;
+    const finalApproachFix = destinationPoint(
+      latitude,
+      longitude,
+      normalizeHeading(heading + 180),
+      FINAL_APPROACH_FIX_NM * METERS_PER_NM
+    );
+    const rolloutEnd = destinationPoint(latitude, longitude, heading, ROLLOUT_GUIDANCE_NM * METERS_PER_NM);
+
+    this.landing = { ...clearance };
+    this.approach.setWaypoints([
+      {
+        ...finalApproachFix,
+        altitude: glidepathAltitude(clearance, FINAL_APPROACH_FIX_NM * METERS_PER_NM),
+        name: 'FAF',
+      },
+      { latitude, longitude, altitude: clearance.elevation, name: clearance.runway },
+      { ...rolloutEnd, altitude: clearance.elevation },
+    ]);
+    this.setPhase('approach');
+  }
+
+  /**
+   * Fly the current phase for dt seconds, returning the heading, speeds and
+   * vertical speed to dead-reckon with. En route, the autopilot flies and
+   * the position is returned unchanged.
+   */
+  update(
+    position: GPSPosition,
+    dt: number,
+    profile: AircraftProfile,
+    wind: WindModel,
+    targets: AutopilotTargets
+  ): GPSPosition {
+    this.phaseTime += dt;
+    const trueHeading = position.trueHeading ?? position.heading;
+
+    switch (this.phase) {
+      case 'parked':
+      case 'taxi': {
+        // Taxi at the selected speed, steering to the selected heading
+        const groundSpeed = moveToward(
+          position.groundSpeed,
+          Math.min(targets.speed ?? 0, MAX_TAXI_SPEED),
+          TAXI_ACCELERATION * dt
+        );
+        const heading =
+          groundSpeed > 0 && targets.heading !== null
+            ? turnToward(trueHeading, targets.heading, TAXI_TURN_RATE * dt)
+            : trueHeading;
+        this.setPhase(groundSpeed > 0 ? 'taxi' : 'parked');
+        return this.onGround(position, groundSpeed, heading, wind);
+      }
+
+      case 'takeoffRoll': {
+        const rolling = this.onGround(
+          position,
+          position.groundSpeed + profile.acceleration * TAKEOFF_ACCELERATION_FACTOR * dt,
+          trueHeading,
+          wind
+        );
+        if (rolling.trueAirspeed! < rotateSpeed(profile)) {
+          return rolling;
+        }
+        this.setPhase('climbOut');
+        return wind.applyAirData({ ...rolling, verticalSpeed: profile.climbRate, onGround: false });
+      }
+
+      case 'climbOut': {
+        // Runway heading at climb speed, then the autopilot takes over
+        if (position.altitude >= this.runwayElevation + CLIMB_OUT_HEIGHT) {
+          this.setPhase('enRoute');
+        }
+        const trueAirspeed = moveToward(
+          position.trueAirspeed ?? position.groundSpeed,
+          climbSpeed(profile),
+          profile.acceleration * dt
+        );
+        return wind.applyAirData({
+          ...position,
+          trueHeading,
+          trueAirspeed,
+          verticalSpeed: profile.climbRate,
+          onGround: false,
+        });
+      }
+
+      case 'approach':
+      case 'flare':
+        return this.flyFinal(position, dt, profile, wind);
+
+      case 'touchdown':
+      case 'rollout': {
+        // Roll straight down the runway, braking once the wheels are settled
+        const heading = this.landing?.heading ?? trueHeading;
+        if (this.phase === 'touchdown') {
+          if (this.phaseTime >= TOUCHDOWN_TIME) this.setPhase('rollout');
+          const groundSpeed = moveToward(position.groundSpeed, 0, profile.acceleration * dt);
+          return this.onGround(position, groundSpeed, heading, wind);
+        }
+
+        const groundSpeed = moveToward(position.groundSpeed, 0, BRAKING_DECELERATION * dt);
+        if (groundSpeed <= MAX_TAXI_SPEED) {
+          this.landing = null;
+          this.approach.clear();
+          this.setPhase('taxi');
+        }
+        return this.onGround(position, groundSpeed, heading, wind);
+      }
+
+      case 'enRoute':
+        return position;
+    }
+  }
+
+  /**
+   * Steer along the final approach course at approach speed, holding the
+   * glidepath once past the final approach fix, and flare to touch down
+   */
+  private flyFinal(position: GPSPosition, dt: number, profile: AircraftProfile, wind: WindModel): GPSPosition {
+    const landing = this.landing!;
+    const height = position.altitude - landing.elevation;
+
+    if (this.phase === 'flare' && height <= 0) {
+      console.log(`Touchdown on runway ${landing.runway}`);
+      this.setPhase('touchdown');
+      return this.onGround({ ...position, altitude: landing.elevation }, position.groundSpeed, landing.heading, wind);
+    }
+
+    // Lateral: the final approach course, corrected for wind
+    let trueHeading = position.trueHeading ?? position.heading;
+    let trueAirspeed = position.trueAirspeed ?? position.groundSpeed;
+    const track = this.approach.guide(position, profile.turnRate) ?? landing.heading;
+    const desiredHeading = headingForTrack(track, trueAirspeed, wind.getWindAt(position.altitude));
+    trueHeading = turnToward(trueHeading, desiredHeading, profile.turnRate * dt);
+
+    // Speed: approach speed, bleeding off toward rotation speed in the flare
+    const targetSpeed = this.phase === 'flare' ? rotateSpeed(profile) : approachSpeed(profile);
+    trueAirspeed = moveToward(trueAirspeed, targetSpeed, profile.acceleration * dt);
+
+    // Vertical: descend to the final approach fix altitude, then ride the glidepath
+    let verticalSpeed: number;
+    const onFinal = this.approach.getState().activeWaypointIndex !== 0;
+    if (this.phase === 'flare') {
+      verticalSpeed = moveToward(position.verticalSpeed, -TOUCHDOWN_SINK_RATE, FLARE_RATE * dt);
+    } else if (!onFinal) {
+      const fixAltitude = glidepathAltitude(landing, FINAL_APPROACH_FIX_NM * METERS_PER_NM);
+      verticalSpeed = Math.max(
+        -profile.descentRate,
+        Math.min(profile.climbRate, ((fixAltitude - position.altitude) * 60) / PATH_CAPTURE_TIME)
+      );
+    } else {
+      const rolloutEnd = destinationPoint(
+        landing.latitude,
+        landing.longitude,
+        landing.heading,
+        ROLLOUT_GUIDANCE_NM * METERS_PER_NM
+      );
+      const distance = -alongTrackDistance(
+        landing.latitude, landing.longitude,
+        rolloutEnd.latitude, rolloutEnd.longitude,
+        position.latitude, position.longitude
+      );
+      // The descent rate that holds the glidepath at this ground speed, plus
+      // a correction back to it (never climbing: below the path, level off)
+      const feetPerMinute = (position.groundSpeed * METERS_PER_NM * FEET_PER_METER) / 60;
+      const glidepathRate = feetPerMinute * Math.tan(toRadians(GLIDEPATH_ANGLE));
+      const pathError = glidepathAltitude(landing, distance) - position.altitude;
+      verticalSpeed = Math.max(
+        -profile.descentRate,
+        Math.min(0, -glidepathRate + (pathError * 60) / PATH_CAPTURE_TIME)
+      );
+
+      if (height <= FLARE_HEIGHT) {
+        this.setPhase('flare');
+      }
+    }
+
+    return wind.applyAirData({ ...position, trueHeading, trueAirspeed, verticalSpeed, onGround: false });
+  }
+
+  /**
+   * Roll along the heading at a ground speed. The airspeed is the ground
+   * speed plus the headwind.
+   */
+  private onGround(position: GPSPosition, groundSpeed: number, trueHeading: number, wind: WindModel): GPSPosition {
+    const { direction, speed } = wind.getWindAt(position.altitude);
+    const headwind = speed * Math.cos(toRadians(direction - trueHeading));
+    return {
+      ...position,
+      heading: trueHeading,
+      trueHeading,
+      groundSpeed: Math.max(0, groundSpeed),
+      trueAirspeed: Math.max(0, groundSpeed + headwind),
+      verticalSpeed: 0,
+      onGround: true,
+    };
+  }
+
+  private setPhase(phase: FlightPhase): void {
+    if (phase === this.phase) return;
+    this.phase = phase;
+    this.phaseTime = 0;
+    console.log(`Flight phase: ${phase}`);
+  }
+}
@@ -1,34 +1,138 @@
 /**
  * GPS Data Server
  *
- * Broadcasts GPS position data using ForeFlight's XGPS protocol over UDP.
- * This allows ForeFlight to receive simulated position data over the network.
+ * Broadcasts GPS position data over UDP using ForeFlight's XGPS protocol,
+ * GDL 90, or both, with optional NMEA 0183 output over UDP or TCP. This
+ * allows EFBs to receive simulated position data over the network. Alongside
+ * XGPS, simulated attitude can be sent as XATT for synthetic vision, and
+ * synthetic traffic is sent as XTRAFFIC and/or GDL 90 Traffic Reports.
+ * Injected GPS failures (noise, drift, stale data, loss of fix) are applied
+ * to the broadcast position and reported in every protocol. Besides the
+ * main target, output can fan out to any number of additional targets.
+ * The main target is reached by unicast, directed subnet broadcast or
+ * multicast.
+ *
+ * NMEA or GDL 90 can also be written to a virtual serial port (pty) for
+ * desktop applications on the same machine.
  */
 
 import dgram from 'dgram';
-import { GPSPosition } from '../../src/types/gps.js';
-import { createXGPSMessage } from '../utils/xgpsEncoder.js';
+import net from 'net';
+import path from 'path';
+import { DeliveryMode, FixQuality, GPSPosition, OutputProtocol } from '../../src/types/gps.js';
+import { NMEASentence, NMEATransport } from '../../src/types/nmea.js';
+import { SerialOutput } from '../../src/types/serial.js';
+import { createXATTMessage, createXGPSMessage, createXTRAFFICMessage } from '../utils/xgpsEncoder.js';
+import {
+  createHeartbeatMessage,
+  createOwnshipReport,
+  createGeometricAltitude,
+  createHeightAboveTerrain,
+  createTrafficReport,
+  OwnshipIdentity,
+} from '../utils/gdl90Encoder.js';
+import { createNMEASentences } from '../utils/nmeaEncoder.js';
+import { VirtualSerialPort } from './VirtualSerialPort.js';
+import { FlightEngine } from './FlightEngine.js';
+import { TrackPlayer } from './TrackPlayer.js';
+import { SessionRecorder } from './SessionRecorder.js';
+import { AttitudeEstimator } from './AttitudeEstimator.js';
+import { TrafficGenerator } from './TrafficGenerator.js';
+import { ScenarioPlayer } from './ScenarioPlayer.js';
+import { GPSDegrader } from './GPSDegrader.js';
+import { OutputTargets, UpdateSchedule } from './OutputTargets.js';
+import { DeviceDiscovery } from './DeviceDiscovery.js';
+import { EventStream } from './EventStream.js';
+import { TERRAIN_DIR, TerrainModel } from './TerrainModel.js';
+import { DegradedPosition } from '../../src/types/degradation.js';
+import { TargetProtocol } from '../../src/types/target.js';
+import { findLocalInterface } from '../utils/network.js';
 
 export interface GPSServerConfig {
-  port: number;
+  port: number; // XGPS target port
+  gdl90Port: number; // GDL 90 target port
   targetIP: string; // Direct IP address to send to (e.g., ForeFlight device)
+  deliveryMode: DeliveryMode; // Unicast to targetIP, subnet broadcast or multicast
+  networkInterface: string; // Local interface for broadcast/multicast ('' = system default for multicast)
+  multicastGroup: string; // Multicast group address
+  multicastTTL: number; // Multicast time to live (router hops)
   updateRate: number; // Updates per second (1-10 Hz)
   simulatorName: string; // Name that appears in ForeFlight
+  protocol: OutputProtocol; // Which protocol(s) to broadcast
+  nmeaOutput: NMEATransport; // NMEA delivery (off, UDP to target, or TCP listener)
+  nmeaPort: number; // NMEA UDP target port or TCP listen port
+  nmeaTalkerId: string; // Two-letter talker ID (e.g., GP, GN)
+  nmeaSentences: NMEASentence[]; // Sentences sent each update
+  serialOutput: SerialOutput; // Protocol written to the virtual serial port
+  serialPath: string; // Stable symlink path for the pty
+  serialBaudRate: number; // Baud rate used to pace serial output
+  attitudeOutput: boolean; // Send XATT pitch/bank alongside XGPS
+  ownshipAddress: number; // 24-bit ICAO address in the GDL 90 Ownship Report
+  ownshipCallsign: string | null; // Ownship callsign (null uses the aircraft profile's)
+  ownshipEmitterCategory: number | null; // GDL 90 emitter category (null uses the aircraft profile's)
 }
 
+/**
+ * GDL 90 heartbeat interval (1 Hz as per the GDL 90 spec)
+ */
+const HEARTBEAT_INTERVAL_MS = 1000;
+
+/**
+ * XATT attitude interval (10 Hz, the most ForeFlight uses)
+ */
+const ATTITUDE_INTERVAL_MS = 100;
+
 export class GPSDataServer {
   private socket: dgram.Socket | null = null;
   private config: GPSServerConfig;
   private isRunning = false;
   private currentPosition: GPSPosition | null = null;
+  private destination: string | null = null; // Resolved main target address
   private positionInterval: NodeJS.Timeout | null = null;
+  private positionStepMs = 0; // Position step interval, at the fastest output rate
+  private positionSchedule: UpdateSchedule | null = null; // When the main target is next due a position
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private attitudeInterval: NodeJS.Timeout | null = null;
+  private attitude = new AttitudeEstimator();
+  private nmeaServer: net.Server | null = null;
+  private nmeaClients = new Set<net.Socket>();
+  private serialPort: VirtualSerialPort | null = null;
+  private flightEngine = new FlightEngine(this);
+  private trackPlayer = new TrackPlayer(this);
+  private trafficGenerator = new TrafficGenerator(this);
+  private scenarioPlayer = new ScenarioPlayer(this);
+  private degrader = new GPSDegrader();
+  private outputTargets = new OutputTargets(this);
+  private deviceDiscovery = new DeviceDiscovery(this);
+  private eventStream = new EventStream();
+  private terrain = new TerrainModel(TERRAIN_DIR);
+  private recorder = new SessionRecorder(
+    process.env.RECORDINGS_DIR ?? path.resolve('recordings')
+  );
 
   constructor(config: Partial<GPSServerConfig> = {}) {
     this.config = {
       port: config.port ?? 49002, // ForeFlight XGPS port
+      gdl90Port: config.gdl90Port ?? 4000, // Standard GDL 90 port
       targetIP: config.targetIP ?? '',
+      deliveryMode: config.deliveryMode ?? 'unicast',
+      networkInterface: config.networkInterface ?? '',
+      multicastGroup: config.multicastGroup ?? '239.255.40.0',
+      multicastTTL: config.multicastTTL ?? 1, // Stay on the local network
       updateRate: config.updateRate ?? 1, // 1 Hz as per ForeFlight spec
       simulatorName: config.simulatorName ?? 'SP4L Location Simulator',
+      protocol: config.protocol ?? 'xgps',
+      nmeaOutput: config.nmeaOutput ?? 'off',
+      nmeaPort: config.nmeaPort ?? 10110, // Common NMEA-over-IP port
+      nmeaTalkerId: config.nmeaTalkerId ?? 'GP',
+      nmeaSentences: config.nmeaSentences ?? ['GGA', 'RMC', 'VTG', 'GSA'],
+      serialOutput: config.serialOutput ?? 'off',
+      serialPath: config.serialPath ?? '/tmp/flightsim-gps',
+      serialBaudRate: config.serialBaudRate ?? 4800, // NMEA 0183 standard rate
+      attitudeOutput: config.attitudeOutput ?? false,
+      ownshipAddress: config.ownshipAddress ?? 0xabcdef,
+      ownshipCallsign: config.ownshipCallsign ?? null,
+      ownshipEmitterCategory: config.ownshipEmitterCategory ?? null,
     };
     // currentPosition starts as null and will be set when the server starts
   }
@@ -41,8 +145,24 @@ export class GPSDataServer {
       throw new Error('GPS server is already running');
     }
 
-    if (!this.config.targetIP) {
-      throw new Error('Target IP address is required. Please set the ForeFlight device IP.');
+    if (
+      this.config.deliveryMode === 'unicast' &&
+      !this.config.targetIP &&
+      !this.outputTargets.hasEnabledTargets()
+    ) {
+      throw new Error('Target IP address is required. Please set the ForeFlight device IP or add an output target.');
+    }
+
+    this.destination = this.resolveDestination();
+
+    // Create the virtual serial port and NMEA TCP listener first so a
+    // missing socat or a port in use fails the start
+    await this.openSerialPort();
+    try {
+      await this.startNMEAListener();
+    } catch (err) {
+      this.closeSerialPort();
+      throw err;
     }
 
     return new Promise((resolve, reject) => {
@@ -51,6 +171,8 @@ export class GPSDataServer {
       this.socket.on('error', (err) => {
         console.error('GPS server error:', err);
         this.stop();
+        this.stopNMEAListener();
+        this.closeSerialPort();
         reject(err);
       });
 
@@ -62,15 +184,41 @@ export class GPSDataServer {
           // Enable broadcast mode
           this.socket.setBroadcast(true);
 
+          if (this.config.deliveryMode === 'multicast') {
+            this.socket.setMulticastTTL(this.config.multicastTTL);
+            const networkInterface = findLocalInterface(this.config.networkInterface);
+            if (networkInterface) {
+              this.socket.setMulticastInterface(networkInterface.address);
+            }
+          }
+
           this.isRunning = true;
+          this.eventStream.publish({ type: 'state', engine: 'server', running: true });
 
           const address = this.socket.address();
           console.log('\n=== ForeFlight GPS Server Started ===');
-          console.log(`  Protocol: XGPS (ForeFlight Network GPS)`);
+          console.log(`  Protocol: ${describeProtocol(this.config.protocol)}`);
           console.log(`  Socket bound to: ${address.address}:${address.port}`);
-          console.log(`  Target IP: ${this.config.targetIP}`);
-          console.log(`  Target Port: ${this.config.port} (ForeFlight XGPS port)`);
+          console.log(`  Delivery: ${describeDelivery(this.config)} → ${this.destination ?? '(none)'}`);
+          if (this.usesXGPS()) {
+            console.log(`  Target Port: ${this.config.port} (ForeFlight XGPS port)`);
+            if (this.config.attitudeOutput) {
+              console.log(`  Attitude: XATT at ${1000 / ATTITUDE_INTERVAL_MS} Hz`);
+            }
+          }
+          if (this.usesGDL90()) {
+            console.log(`  Target Port: ${this.config.gdl90Port} (GDL 90 port)`);
+          }
+          if (this.config.nmeaOutput !== 'off') {
+            console.log(`  NMEA: ${this.config.nmeaSentences.join(', ')} via ${this.config.nmeaOutput.toUpperCase()} port ${this.config.nmeaPort}`);
+          }
+          if (this.serialPort) {
+            console.log(`  Serial: ${this.config.serialOutput.toUpperCase()} on ${this.serialPort.getPath()} (${this.config.serialBaudRate} baud)`);
+          }
           console.log(`  Update rate: ${this.config.updateRate} Hz`);
+          for (const target of this.outputTargets.getTargets().filter((t) => t.enabled)) {
+            console.log(`  Output target: ${target.name} ${target.protocol.toUpperCase()} to ${target.ip}:${target.port} at ${target.updateRate} Hz`);
+          }
           console.log(`  Simulator name: ${this.config.simulatorName}`);
           console.log('\nForeFlight Setup:');
           console.log('  1. Ensure your iPad and PC are on the same WiFi network');
@@ -79,7 +227,11 @@ export class GPSDataServer {
           console.log('=========================================\n');
 
           // Start position broadcasts immediately (1 Hz as per ForeFlight spec)
+          this.outputTargets.start();
           this.startPositionBroadcast();
+          this.startHeartbeatBroadcast();
+          this.startAttitudeBroadcast();
+          this.trafficGenerator.start();
 
           resolve();
         } catch (err) {
@@ -102,12 +254,25 @@ export class GPSDataServer {
       this.positionInterval = null;
     }
 
+    this.flightEngine.stop();
+    this.trackPlayer.pause();
+    this.scenarioPlayer.stop();
+    this.trafficGenerator.stop();
+    this.outputTargets.stop();
+    this.stopHeartbeatBroadcast();
+    this.stopAttitudeBroadcast();
+    this.stopNMEAListener();
+    this.closeSerialPort();
+
     if (this.socket) {
       this.socket.close();
       this.socket = null;
     }
 
     this.isRunning = false;
+    this.destination = null;
+    this.positionSchedule = null;
+    this.eventStream.publish({ type: 'state', engine: 'server', running: false });
     console.log('ForeFlight GPS Server stopped');
   }
 
@@ -126,6 +291,76 @@ export class GPSDataServer {
     return this.currentPosition;
   }
 
+  /**
+   * Get the flight engine that advances the current position
+   */
+  getFlightEngine(): FlightEngine {
+    return this.flightEngine;
+  }
+
+  /**
+   * Get the track player that replays recorded flights
+   */
+  getTrackPlayer(): TrackPlayer {
+    return this.trackPlayer;
+  }
+
+  /**
+   * Get the traffic generator that simulates other aircraft
+   */
+  getTrafficGenerator(): TrafficGenerator {
+    return this.trafficGenerator;
+  }
+
+  /**
+   * Get the scenario player that scripts traffic encounters
+   */
+  getScenarioPlayer(): ScenarioPlayer {
+    return this.scenarioPlayer;
+  }
+
+  /**
+   * Get the degrader that injects GPS failures into the broadcast position
+   */
+  getDegrader(): GPSDegrader {
+    return this.degrader;
+  }
+
+  /**
+   * Get the additional output targets
+   */
+  getOutputTargets(): OutputTargets {
+    return this.outputTargets;
+  }
+
+  /**
+   * Get the terrain model that gives ground elevation
+   */
+  getTerrain(): TerrainModel {
+    return this.terrain;
+  }
+
+  /**
+   * Get the stream that pushes live events to subscribers
+   */
+  getEventStream(): EventStream {
+    return this.eventStream;
+  }
+
+  /**
+   * Get the listener for EFB discovery broadcasts
+   */
+  getDeviceDiscovery(): DeviceDiscovery {
+    return this.deviceDiscovery;
+  }
+
+  /**
+   * Get the recorder that saves transmitted positions
+   */
+  getRecorder(): SessionRecorder {
+    return this.recorder;
+  }
+
   /**
    * Check if server is running
    */
@@ -133,6 +368,27 @@ export class GPSDataServer {
     return this.isRunning;
   }
 
+  /**
+   * Get the number of clients connected to the NMEA TCP listener
+   */
+  getNMEAClientCount(): number {
+    return this.nmeaClients.size;
+  }
+
+  /**
+   * Get the address the main target is sent to, or null if not running
+   */
+  getDestination(): string | null {
+    return this.destination;
+  }
+
+  /**
+   * Get the virtual serial port path, or null if it isn't open
+   */
+  getSerialPath(): string | null {
+    return this.serialPort?.getIsOpen() ? this.serialPort.getPath() : null;
+  }
+
   /**
    * Get server configuration
    */
@@ -141,12 +397,21 @@ export class GPSDataServer {
   }
 
   /**
-   * Update server configuration
+   * Update server configuration. Rejects if the NMEA TCP listener or the
+   * virtual serial port can't be opened, leaving that output as it was.
    */
-  updateConfig(config: Partial<GPSServerConfig>): void {
+  async updateConfig(config: Partial<GPSServerConfig>): Promise<void> {
     const oldUpdateRate = this.config.updateRate;
+    const oldNMEAOutput = this.config.nmeaOutput;
+    const oldSerialOutput = this.config.serialOutput;
+    const oldAttitudeOutput = this.config.attitudeOutput;
     this.config = { ...this.config, ...config };
 
+    // The target IP can change while running (other delivery settings can't)
+    if (this.isRunning && config.targetIP !== undefined && this.config.deliveryMode === 'unicast') {
+      this.destination = this.config.targetIP || null;
+    }
+
     // If update rate changed and we're broadcasting, restart position updates
     if (
       this.isRunning &&
@@ -156,60 +421,488 @@ export class GPSDataServer {
       clearInterval(this.positionInterval);
       this.startPositionBroadcast();
     }
+
+    // If attitude output changed, start or stop XATT accordingly
+    if (this.isRunning && oldAttitudeOutput !== this.config.attitudeOutput) {
+      this.stopAttitudeBroadcast();
+      this.startAttitudeBroadcast();
+    }
+
+    // If NMEA output changed, open or close the TCP listener accordingly
+    if (this.isRunning && oldNMEAOutput !== this.config.nmeaOutput) {
+      this.stopNMEAListener();
+      try {
+        await this.startNMEAListener();
+      } catch (err) {
+        this.config.nmeaOutput = oldNMEAOutput;
+        throw err;
+      }
+    }
+
+    // If serial output was turned on or off, create or remove the virtual
+    // serial port (switching protocol keeps the port open)
+    if (this.isRunning && (oldSerialOutput === 'off') !== (this.config.serialOutput === 'off')) {
+      this.closeSerialPort();
+      try {
+        await this.openSerialPort();
+      } catch (err) {
+        this.config.serialOutput = oldSerialOutput;
+        throw err;
+      }
+    }
   }
 
   /**
-   * Start broadcasting position updates
+   * Get how ownship identifies itself, falling back to the aircraft profile
+   * for the callsign and emitter category
    */
-  private startPositionBroadcast(): void {
-    const intervalMs = 1000 / this.config.updateRate;
+  getOwnshipIdentity(): OwnshipIdentity {
+    const profile = this.flightEngine.getProfile();
+    return {
+      address: this.config.ownshipAddress,
+      callsign: this.config.ownshipCallsign ?? profile.callsign,
+      emitterCategory: this.config.ownshipEmitterCategory ?? profile.emitterCategory,
+    };
+  }
 
-    this.positionInterval = setInterval(() => {
-      if (this.currentPosition) {
-        this.sendPosition(this.currentPosition);
+  /**
+   * Resolve the address the main target is sent to for the delivery mode
+   */
+  private resolveDestination(): string | null {
+    switch (this.config.deliveryMode) {
+      case 'broadcast': {
+        const networkInterface = findLocalInterface(this.config.networkInterface);
+        if (!networkInterface) {
+          throw new Error(
+            this.config.networkInterface
+              ? `Network interface ${this.config.networkInterface} not found or has no IPv4 address`
+              : 'Choose a network interface to broadcast on'
+          );
+        }
+        return networkInterface.broadcast;
       }
-    }, intervalMs);
+      case 'multicast':
+        return this.config.multicastGroup;
+      default:
+        return this.config.targetIP || null;
+    }
+  }
+
+  /**
+   * Check if XGPS messages should be sent
+   */
+  private usesXGPS(): boolean {
+    return this.config.protocol === 'xgps' || this.config.protocol === 'both';
+  }
+
+  /**
+   * Check if GDL 90 messages should be sent
+   */
+  private usesGDL90(): boolean {
+    return this.config.protocol === 'gdl90' || this.config.protocol === 'both';
+  }
+
+  /**
+   * Start broadcasting GDL 90 heartbeats (sent to whichever outputs use GDL 90)
+   */
+  private startHeartbeatBroadcast(): void {
+    this.heartbeatInterval = setInterval(() => {
+      this.sendHeartbeat();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Send initial heartbeat immediately
+    this.sendHeartbeat();
+  }
+
+  /**
+   * Send a GDL 90 heartbeat to every GDL 90 output
+   */
+  private sendHeartbeat(): void {
+    const heartbeat = createHeartbeatMessage(this.degrader.hasFix());
+    if (this.usesGDL90()) {
+      this.sendMessage(heartbeat, this.config.gdl90Port);
+    }
+    if (this.config.serialOutput === 'gdl90') {
+      this.serialPort?.write(heartbeat);
+    }
+    this.outputTargets.broadcast('gdl90', heartbeat);
+  }
+
+  /**
+   * Stop broadcasting GDL 90 heartbeats
+   */
+  private stopHeartbeatBroadcast(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  /**
+   * Start broadcasting XATT attitude (only when attitude output is enabled;
+   * sent to whichever outputs use XGPS)
+   */
+  private startAttitudeBroadcast(): void {
+    if (!this.config.attitudeOutput) return;
+
+    this.attitude.reset();
+    this.attitudeInterval = setInterval(() => {
+      this.sendAttitude();
+    }, ATTITUDE_INTERVAL_MS);
+  }
+
+  /**
+   * Send the estimated attitude as XATT, using the true heading (not the
+   * track) so a crosswind crab shows on the attitude display
+   */
+  private sendAttitude(): void {
+    if (!this.currentPosition) return;
+
+    const { pitch, roll } = this.attitude.update(this.currentPosition);
+    const heading = this.currentPosition.trueHeading ?? this.currentPosition.heading;
+    const message = createXATTMessage(heading, pitch, roll, this.config.simulatorName);
+    if (this.usesXGPS()) {
+      this.sendMessage(message, this.config.port);
+    }
+    this.outputTargets.broadcast('xgps', message);
+  }
+
+  /**
+   * Stop broadcasting XATT attitude
+   */
+  private stopAttitudeBroadcast(): void {
+    if (this.attitudeInterval) {
+      clearInterval(this.attitudeInterval);
+      this.attitudeInterval = null;
+    }
+  }
+
+  /**
+   * Start the NMEA TCP listener (only when NMEA output is set to TCP),
+   * rejecting if it can't listen on the port
+   */
+  private async startNMEAListener(): Promise<void> {
+    if (this.config.nmeaOutput !== 'tcp') return;
+
+    const port = this.config.nmeaPort;
+    const nmeaServer = net.createServer((client) => {
+      this.nmeaClients.add(client);
+      this.eventStream.publish({ type: 'nmeaClients', count: this.nmeaClients.size });
+      console.log(`NMEA client connected: ${client.remoteAddress}:${client.remotePort}`);
+
+      client.on('close', () => {
+        this.nmeaClients.delete(client);
+        this.eventStream.publish({ type: 'nmeaClients', count: this.nmeaClients.size });
+        console.log(`NMEA client disconnected: ${client.remoteAddress}:${client.remotePort}`);
+      });
+
+      client.on('error', (err) => {
+        console.error('NMEA client error:', err.message);
+        client.destroy();
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        nmeaServer.once('error', reject);
+        nmeaServer.listen(port, () => {
+          nmeaServer.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (err) {
+      const reason =
+        (err as NodeJS.ErrnoException).code === 'EADDRINUSE' ? 'the port is in use' : (err as Error).message;
+      throw new Error(`NMEA TCP listener can't listen on port ${port}: ${reason}`);
+    }
+
+    nmeaServer.on('error', (err) => {
+      console.error(`NMEA TCP listener error on port ${port}:`, err);
+    });
+    this.nmeaServer = nmeaServer;
+    console.log(`NMEA TCP listener on port ${port}`);
+  }
+
+  /**
+   * Stop the NMEA TCP listener and disconnect all clients
+   */
+  private stopNMEAListener(): void {
+    for (const client of this.nmeaClients) {
+      client.destroy();
+    }
+    this.nmeaClients.clear();
+
+    if (this.nmeaServer) {
+      this.nmeaServer.close();
+      this.nmeaServer = null;
+    }
+  }
+
+  /**
+   * Create the virtual serial port (only when serial output is enabled)
+   */
+  private async openSerialPort(): Promise<void> {
+    if (this.config.serialOutput === 'off') return;
+
+    const serialPort = new VirtualSerialPort(
+      this.config.serialPath,
+      this.config.serialBaudRate
+    );
+    await serialPort.open();
+    this.serialPort = serialPort;
+  }
+
+  /**
+   * Remove the virtual serial port
+   */
+  private closeSerialPort(): void {
+    if (this.serialPort) {
+      this.serialPort.close();
+      this.serialPort = null;
+    }
+  }
+
+  /**
+   * Start broadcasting position updates. The position is stepped at the
+   * fastest rate the main target or any output target uses, and each output
+   * is sent the step's fix when it is due.
+   */
+  private startPositionBroadcast(): void {
+    this.positionSchedule = new UpdateSchedule(1000 / this.config.updateRate);
+    this.positionStepMs = this.getPositionStepMs();
+    this.positionInterval = setInterval(() => this.stepPosition(), this.positionStepMs);
 
     // Send initial position immediately
-    if (this.currentPosition) {
-      this.sendPosition(this.currentPosition);
+    this.stepPosition();
+  }
+
+  /**
+   * Restart the position step at a new rate after output targets change
+   */
+  updatePositionStep(): void {
+    const stepMs = this.getPositionStepMs();
+    if (!this.positionInterval || stepMs === this.positionStepMs) return;
+
+    clearInterval(this.positionInterval);
+    this.positionStepMs = stepMs;
+    this.positionInterval = setInterval(() => this.stepPosition(), stepMs);
+  }
+
+  /**
+   * Get the position step interval for the fastest output rate
+   */
+  private getPositionStepMs(): number {
+    return 1000 / Math.max(this.config.updateRate, this.outputTargets.getMaxUpdateRate());
+  }
+
+  /**
+   * Degrade the position once and send the fix to every output due an
+   * update, so outputs updating together send the same fix
+   */
+  private stepPosition(): void {
+    if (!this.currentPosition || !this.socket || !this.isRunning) return;
+
+    const now = performance.now();
+    const fix = this.applyDegradation(this.currentPosition);
+    if (this.positionSchedule?.takeIfDue(now, this.positionStepMs)) {
+      this.eventStream.publish({ type: 'position', position: this.currentPosition, fix });
+      this.sendPosition(fix);
     }
+    this.outputTargets.sendUpdates(fix, now, this.positionStepMs);
   }
 
   /**
-   * Send position data using XGPS protocol
+   * Send a position fix to the main target using the configured protocol(s)
    */
-  private sendPosition(position: GPSPosition): void {
-    if (!this.socket || !this.isRunning) return;
+  private sendPosition(fix: DegradedPosition): void {
+    if (fix.fixQuality !== FixQuality.NoFix) {
+      this.recorder.record(fix);
+    }
+
+    if (this.usesXGPS()) {
+      for (const message of this.encodeFix('xgps', fix)) {
+        this.sendMessage(message, this.config.port);
+      }
+    }
+
+    if (this.usesGDL90() || this.config.serialOutput === 'gdl90') {
+      const messages = this.encodeFix('gdl90', fix);
+      if (this.usesGDL90()) {
+        for (const message of messages) {
+          this.sendMessage(message, this.config.gdl90Port);
+        }
+      }
+      if (this.config.serialOutput === 'gdl90') {
+        this.serialPort?.write(Buffer.concat(messages));
+      }
+    }
+
+    if (this.config.nmeaOutput !== 'off' || this.config.serialOutput === 'nmea') {
+      for (const nmeaMessage of this.encodeFix('nmea', fix)) {
+        if (this.config.nmeaOutput === 'udp') {
+          this.sendMessage(nmeaMessage, this.config.nmeaPort);
+        } else if (this.config.nmeaOutput === 'tcp') {
+          for (const client of this.nmeaClients) {
+            client.write(nmeaMessage);
+          }
+        }
+        if (this.config.serialOutput === 'nmea') {
+          this.serialPort?.write(nmeaMessage);
+        }
+      }
+    }
+  }
 
-    // Send XGPS message
-    const xgpsMessage = createXGPSMessage(position, this.config.simulatorName);
-    this.sendMessage(xgpsMessage);
+  /**
+   * Apply injected GPS failures. NMEA carries UTC time of fix, so stamp
+   * with the time of transmission (a frozen receiver repeats its last one).
+   */
+  private applyDegradation(position: GPSPosition): DegradedPosition {
+    return this.degrader.apply({ ...position, timestamp: Date.now() });
   }
 
   /**
-   * Send a message via UDP
+   * Encode a position fix, and every synthetic traffic target, in one protocol
    */
-  private sendMessage(message: Buffer): void {
-    if (!this.socket || !this.isRunning) return;
+  encodeFix(protocol: TargetProtocol, fix: DegradedPosition): Buffer[] {
+    const hasFix = fix.fixQuality !== FixQuality.NoFix;
+    const traffic = this.trafficGenerator.getTargets();
+
+    switch (protocol) {
+      case 'xgps': {
+        // A receiver without a fix has no position to send
+        const messages = hasFix ? [createXGPSMessage(fix, this.config.simulatorName)] : [];
+        for (const target of traffic) {
+          const { position } = target;
+          messages.push(
+            createXTRAFFICMessage(
+              target.icaoAddress,
+              position.latitude,
+              position.longitude,
+              position.altitude,
+              position.verticalSpeed,
+              true, // Synthetic traffic is always flying
+              position.track,
+              position.groundSpeed,
+              target.callsign,
+              this.config.simulatorName
+            )
+          );
+        }
+        return messages;
+      }
 
-    this.socket.send(
-      message,
-      this.config.port,
-      this.config.targetIP,
-      (err) => {
-        if (err) {
-          console.error('Error sending UDP packet:', err);
-          console.error(`  Target: ${this.config.targetIP}:${this.config.port}`);
-          console.error(`  Message size: ${message.length} bytes`);
-        } else {
-          // Log successful sends (only occasionally to avoid spam)
-          if (Math.random() < 0.1) { // 10% of sends
-            console.log(`✓ UDP packet sent to ${this.config.targetIP}:${this.config.port} (${message.length} bytes)`);
+      case 'gdl90': {
+        // Ownship Report and, with a fix, Ownship Geometric Altitude and
+        // Height Above Terrain where there is terrain data
+        const messages = [
+          createOwnshipReport(fix, this.getOwnshipIdentity(), {
+            valid: hasFix,
+            nic: fix.nic,
+            nacp: fix.nacp,
+          }),
+        ];
+        if (hasFix) {
+          messages.push(createGeometricAltitude(fix.altitude));
+          const ground = this.terrain.getElevation(fix.latitude, fix.longitude);
+          if (ground !== null) {
+            messages.push(createHeightAboveTerrain(fix.altitude - ground));
           }
         }
+        for (const target of traffic) {
+          const { position } = target;
+          messages.push(
+            createTrafficReport({
+              address: target.icaoAddress,
+              latitude: position.latitude,
+              longitude: position.longitude,
+              altitude: position.altitude,
+              groundSpeed: position.groundSpeed,
+              verticalSpeed: position.verticalSpeed,
+              track: position.track,
+              callsign: target.callsign,
+              emitterCategory: target.emitterCategory ?? 0x01,
+              airborne: true, // Synthetic traffic is always flying
+              trafficAlert: target.alert,
+            })
+          );
+        }
+        return messages;
       }
-    );
+
+      case 'nmea':
+        if (this.config.nmeaSentences.length === 0) return [];
+        return [createNMEASentences(fix, this.config.nmeaSentences, this.config.nmeaTalkerId)];
+    }
+  }
+
+  /**
+   * Send a message via UDP to the main target
+   */
+  private sendMessage(message: Buffer, port: number): void {
+    const destination = this.destination;
+    if (!destination) return;
+
+    this.sendDatagram(message, destination, port, (err) => {
+      if (err) {
+        console.error('Error sending UDP packet:', err);
+        console.error(`  Target: ${destination}:${port}`);
+        console.error(`  Message size: ${message.length} bytes`);
+        this.eventStream.publish({
+          type: 'error',
+          target: 'main',
+          address: `${destination}:${port}`,
+          message: err.message,
+        });
+      } else {
+        // Log successful sends (only occasionally to avoid spam)
+        if (Math.random() < 0.1) { // 10% of sends
+          console.log(`✓ UDP packet sent to ${destination}:${port} (${message.length} bytes)`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Send a datagram from the server's socket to any address
+   */
+  sendDatagram(
+    message: Buffer,
+    address: string,
+    port: number,
+    callback: (err: Error | null) => void
+  ): void {
+    if (!this.socket || !this.isRunning) return;
+
+    this.socket.send(message, port, address, callback);
+  }
+}
+
+/**
+ * Human-readable protocol description for logging
+ */
+function describeProtocol(protocol: OutputProtocol): string {
+  switch (protocol) {
+    case 'gdl90':
+      return 'GDL 90';
+    case 'both':
+      return 'XGPS (ForeFlight Network GPS) + GDL 90';
+    default:
+      return 'XGPS (ForeFlight Network GPS)';
+  }
+}
+
+/**
+ * Human-readable delivery description for logging
+ */
+function describeDelivery(config: GPSServerConfig): string {
+  switch (config.deliveryMode) {
+    case 'broadcast':
+      return `Subnet broadcast on ${config.networkInterface}`;
+    case 'multicast':
+      return `Multicast (TTL ${config.multicastTTL})`;
+    default:
+      return 'Unicast';
   }
 }
 
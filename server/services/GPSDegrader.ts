@@ -0,0 +1,174 @@
+/**
+ * GPS Degrader
+ *
+ * Injects receiver failures into the position just before it is broadcast:
+ * random noise, slowly growing drift, occasional jumps, stale (frozen)
+ * data, loss of fix and reduced integrity. The result carries the fix
+ * quality and NIC/NACp every protocol reports, so EFBs see the same
+ * failure over XGPS, GDL 90 and NMEA.
+ */
+
+import { FixQuality, GPSPosition } from '../../src/types/gps.js';
+import { DegradationConfig, DegradationState, DegradedPosition } from '../../src/types/degradation.js';
+import { DEFAULT_FIX } from '../utils/nmeaEncoder.js';
+import { DEFAULT_NACP, DEFAULT_NIC } from '../utils/gdl90Encoder.js';
+import { destinationPoint, normalizeHeading, toDegrees, toRadians } from '../utils/geo.js';
+
+/**
+ * A healthy receiver
+ */
+export const HEALTHY_CONFIG: DegradationConfig = {
+  noise: 0,
+  drift: 0,
+  jumpInterval: 0,
+  jumpDistance: 0,
+  freeze: false,
+  lossOfFix: false,
+  nic: DEFAULT_NIC,
+  nacp: DEFAULT_NACP,
+};
+
+/**
+ * Satellites in view when the fix is lost (too few for a position)
+ */
+const SATELLITES_WITHOUT_FIX = 2;
+
+/**
+ * Position error (meters) that corresponds to an HDOP of 1
+ */
+const METERS_PER_HDOP = 5;
+
+/**
+ * How fast the drift direction wanders (degrees per second, 1 sigma)
+ */
+const DRIFT_WANDER_RATE = 2;
+
+const FEET_PER_METER = 3.28084;
+
+export class GPSDegrader {
+  private config: DegradationConfig = { ...HEALTHY_CONFIG };
+  private driftNorth = 0; // Meters
+  private driftEast = 0;  // Meters
+  private driftBearing = Math.random() * 360;
+  private lastUpdate: number | null = null;
+  private nextJumpAt = 0;
+  private lastFix: DegradedPosition | null = null;
+
+  /**
+   * Get the configuration and current effect
+   */
+  getState(): DegradationState {
+    return {
+      ...this.config,
+      hasFix: this.hasFix(),
+      driftError: Math.hypot(this.driftNorth, this.driftEast),
+    };
+  }
+
+  /**
+   * Change some of the configuration. Turning drift off clears the
+   * accumulated drift, as when the receiver reacquires.
+   */
+  setConfig(config: Partial<DegradationConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (this.config.drift === 0) {
+      this.driftNorth = 0;
+      this.driftEast = 0;
+    }
+    if (config.jumpInterval !== undefined) {
+      this.nextJumpAt = 0;
+    }
+  }
+
+  /**
+   * Restore a healthy receiver
+   */
+  reset(): void {
+    this.setConfig(HEALTHY_CONFIG);
+  }
+
+  /**
+   * Check if the receiver has a position fix (drives the GDL 90 heartbeat
+   * "GPS position valid" bit)
+   */
+  hasFix(): boolean {
+    return !this.config.lossOfFix;
+  }
+
+  /**
+   * Apply the configured failures to a position about to be broadcast
+   */
+  apply(position: GPSPosition, now: number = performance.now()): DegradedPosition {
+    const dt = this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+
+    if (this.config.lossOfFix) {
+      return {
+        ...position,
+        fixQuality: FixQuality.NoFix,
+        satelliteCount: SATELLITES_WITHOUT_FIX,
+        hdop: 99.9,
+        nic: 0,
+        nacp: 0,
+      };
+    }
+
+    // Stale data: keep repeating the last fix, time of fix included
+    if (this.config.freeze && this.lastFix) {
+      return this.lastFix;
+    }
+
+    const { noise, drift, jumpInterval, jumpDistance, nic, nacp } = this.config;
+
+    // Drift: the error grows at the drift rate in a slowly wandering direction
+    if (drift > 0 && dt > 0) {
+      this.driftBearing = normalizeHeading(this.driftBearing + gaussian() * DRIFT_WANDER_RATE * Math.sqrt(dt));
+      const distance = (drift / 60) * dt;
+      const bearing = toRadians(this.driftBearing);
+      this.driftNorth += distance * Math.cos(bearing);
+      this.driftEast += distance * Math.sin(bearing);
+    }
+
+    let north = this.driftNorth + gaussian() * noise;
+    let east = this.driftEast + gaussian() * noise;
+
+    // Jump: a single update far off the true position
+    if (jumpInterval > 0 && jumpDistance > 0 && now >= this.nextJumpAt) {
+      if (this.nextJumpAt > 0) {
+        const bearing = Math.random() * 2 * Math.PI;
+        north += jumpDistance * Math.cos(bearing);
+        east += jumpDistance * Math.sin(bearing);
+      }
+      this.nextJumpAt = now + jumpInterval * 1000;
+    }
+
+    const error = Math.hypot(north, east);
+    const displaced =
+      error > 0
+        ? destinationPoint(position.latitude, position.longitude, toDegrees(Math.atan2(east, north)), error)
+        : position;
+
+    this.lastFix = {
+      ...position,
+      latitude: displaced.latitude,
+      longitude: displaced.longitude,
+      altitude: position.altitude + gaussian() * noise * 1.5 * FEET_PER_METER, // Vertical error is larger
+      fixQuality: DEFAULT_FIX.fixQuality,
+      satelliteCount: DEFAULT_FIX.satelliteCount,
+      hdop: Math.max(DEFAULT_FIX.hdop, noise / METERS_PER_HDOP),
+      nic,
+      nacp,
+    };
+    return this.lastFix;
+  }
+}
+
+/**
+ * Standard normal random number (Box-Muller)
+ */
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
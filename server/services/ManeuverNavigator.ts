@@ -0,0 +1,424 @@
+/**
+ * Maneuver Navigator
+ *
+ * Lateral guidance around holding patterns, orbits and DME arcs. A
+ * maneuver's ground path is laid out from the aircraft's position and
+ * speed: timed hold legs at the true airspeed, and turns at the profile's
+ * turn rate sized for the fastest ground speed the wind allows (so they can
+ * be held downwind), joined by the standard direct, teardrop or parallel
+ * hold entry.
+ *
+ * The path is built on a flat plane around the fix (a pattern spans a few
+ * miles at most) and flown by pure pursuit: the navigator returns the track
+ * toward a point a few seconds ahead of the aircraft along the path, which
+ * also pulls the aircraft back onto it after wind drift.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import {
+  HoldEntry,
+  ManeuverDefinition,
+  ManeuverPoint,
+  ManeuverState,
+} from '../../src/types/maneuver.js';
+import {
+  METERS_PER_NM,
+  angleDifference,
+  destinationPoint,
+  distanceBetween,
+  initialBearing,
+  knotsToMetersPerSecond,
+  normalizeHeading,
+  toDegrees,
+  toRadians,
+} from '../utils/geo.js';
+
+/**
+ * Spacing of the points along turns and arcs (degrees)
+ */
+const ARC_STEP = 5;
+
+/**
+ * How far ahead of the aircraft the pursuit point is kept (seconds of flight)
+ */
+const LOOKAHEAD_TIME = 10;
+
+/**
+ * Shortest pursuit distance (meters), so slow aircraft don't weave
+ */
+const MIN_LOOKAHEAD = 200;
+
+/**
+ * Hold leg length when none is given (minutes)
+ */
+const DEFAULT_LEG_MINUTES = 1;
+
+/**
+ * Teardrop entry outbound heading, off the reciprocal of the inbound course
+ */
+const TEARDROP_ANGLE = 30;
+
+/**
+ * Parallel entry turn back to the fix, intercepting the inbound course at 45°
+ */
+const PARALLEL_TURN = 225;
+
+/**
+ * Meters east and north of the fix
+ */
+interface Point {
+  x: number;
+  y: number;
+}
+
+const ORIGIN: Point = { x: 0, y: 0 };
+
+/**
+ * Offset of length 1 toward a heading
+ */
+function unit(heading: number): Point {
+  return { x: Math.sin(toRadians(heading)), y: Math.cos(toRadians(heading)) };
+}
+
+function offset(point: Point, heading: number, distance: number): Point {
+  const direction = unit(heading);
+  return { x: point.x + direction.x * distance, y: point.y + direction.y * distance };
+}
+
+function bearingTo(from: Point, to: Point): number {
+  return normalizeHeading(toDegrees(Math.atan2(to.x - from.x, to.y - from.y)));
+}
+
+/**
+ * Points along a constant-radius turn starting at a point on a heading,
+ * not including the start point
+ *
+ * @param side - 1 to turn right, -1 to turn left
+ */
+function turn(start: Point, heading: number, side: number, angle: number, radius: number): Point[] {
+  const center = offset(start, heading + 90 * side, radius);
+  const steps = Math.max(1, Math.ceil(angle / ARC_STEP));
+  const points: Point[] = [];
+  for (let step = 1; step <= steps; step++) {
+    points.push(offset(center, heading + side * ((angle * step) / steps) - 90 * side, radius));
+  }
+  return points;
+}
+
+/**
+ * Points on a circle around the fix from one radial, in the turn direction
+ */
+function arc(radius: number, startRadial: number, side: number, sweep: number): Point[] {
+  const steps = Math.max(1, Math.ceil(sweep / ARC_STEP));
+  const points: Point[] = [];
+  for (let step = 0; step <= steps; step++) {
+    points.push(offset(ORIGIN, startRadial + side * ((sweep * step) / steps), radius));
+  }
+  return points;
+}
+
+/**
+ * Hold entry for an aircraft arriving at the fix on a heading. Measured
+ * from the inbound course toward the holding side, headings from -70° to
+ * 110° enter directly, the rest of the holding side is a teardrop and the
+ * non-holding side a parallel entry (the 70° line of the AIM).
+ */
+export function holdEntry(arrivalHeading: number, inboundCourse: number, side: number): HoldEntry {
+  const relative = angleDifference(arrivalHeading, inboundCourse) * side;
+  if (relative >= -70 && relative <= 110) return 'direct';
+  return relative > 110 ? 'teardrop' : 'parallel';
+}
+
+/**
+ * Ground path of a maneuver: the entry path from the aircraft followed by
+ * the pattern, which a loop flies again from its first point
+ */
+interface ManeuverPath {
+  points: Point[];
+  patternStart: number; // Index of the first pattern point
+  loop: boolean;
+  entry: HoldEntry | null;
+}
+
+export class ManeuverNavigator {
+  private maneuver: ManeuverDefinition | null = null;
+  private path: ManeuverPath | null = null;
+  private entryPath: ManeuverPoint[] = [];
+  private patternPath: ManeuverPoint[] = [];
+  private segment = 0; // Path segment (points[segment] to points[segment + 1]) being flown
+  private active = false;
+  private complete = false;
+
+  /**
+   * Replace the planned maneuver, stopping any being flown
+   */
+  setManeuver(maneuver: ManeuverDefinition): void {
+    this.maneuver = { ...maneuver, fix: { ...maneuver.fix } };
+    this.path = null;
+    this.entryPath = [];
+    this.patternPath = [];
+    this.active = false;
+    this.complete = false;
+  }
+
+  /**
+   * Remove the maneuver
+   */
+  clear(): void {
+    this.maneuver = null;
+    this.path = null;
+    this.entryPath = [];
+    this.patternPath = [];
+    this.active = false;
+    this.complete = false;
+  }
+
+  /**
+   * Check if a maneuver is being flown
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Check if a DME arc has been flown to its end radial
+   */
+  isComplete(): boolean {
+    return this.complete;
+  }
+
+  /**
+   * Get the maneuver and its path
+   */
+  getState(): ManeuverState {
+    return {
+      maneuver: this.maneuver ? { ...this.maneuver, fix: { ...this.maneuver.fix } } : null,
+      active: this.active,
+      isComplete: this.complete,
+      entry: this.path?.entry ?? null,
+      entryPath: this.entryPath.map((point) => ({ ...point })),
+      path: this.patternPath.map((point) => ({ ...point })),
+    };
+  }
+
+  /**
+   * Lay out the maneuver's path from a position, for the map or to fly
+   *
+   * @param speed - True airspeed the pattern is sized for, knots
+   * @param turnRate - Turn rate in degrees per second
+   * @param windSpeed - Wind speed at the aircraft, knots
+   */
+  plan(position: GPSPosition, speed: number, turnRate: number, windSpeed = 0): void {
+    if (!this.maneuver) {
+      return;
+    }
+
+    this.path = this.buildPath(this.maneuver, position, speed, turnRate, windSpeed);
+    this.segment = 0;
+    this.complete = false;
+
+    const fix = this.maneuver.fix;
+    const toGeo = (point: Point): ManeuverPoint => {
+      const next = destinationPoint(fix.latitude, fix.longitude, bearingTo(ORIGIN, point), Math.hypot(point.x, point.y));
+      return { latitude: next.latitude, longitude: next.longitude };
+    };
+    this.entryPath = this.path.points.slice(0, this.path.patternStart + 1).map(toGeo);
+    this.patternPath = this.path.points.slice(this.path.patternStart).map(toGeo);
+  }
+
+  /**
+   * Start flying the maneuver from a position
+   */
+  start(position: GPSPosition, speed: number, turnRate: number, windSpeed = 0): void {
+    if (!this.maneuver) {
+      throw new Error('No maneuver planned');
+    }
+
+    this.plan(position, speed, turnRate, windSpeed);
+    this.active = true;
+    console.log(`Maneuver: ${this.maneuver.type}${this.path?.entry ? ` (${this.path.entry} entry)` : ''}`);
+  }
+
+  /**
+   * Stop flying the maneuver, keeping it planned
+   */
+  stop(): void {
+    this.active = false;
+  }
+
+  /**
+   * Compute the desired track for the current position. Returns null when
+   * no maneuver is being flown, or once a DME arc has reached its end.
+   */
+  guide(position: GPSPosition): number | null {
+    if (!this.active || !this.path) {
+      return null;
+    }
+
+    const here = this.toLocal(position);
+    const lookahead = Math.max(MIN_LOOKAHEAD, knotsToMetersPerSecond(position.groundSpeed) * LOOKAHEAD_TIME);
+
+    // Nearest point on the path, searching ahead of the last one so
+    // crossing an earlier part of the path (e.g., in an entry) doesn't skip it
+    let nearest = { segment: this.segment, along: 0, distance: Infinity };
+    let searched = 0;
+    for (
+      let segment: number | null = this.segment, count = 0;
+      segment !== null && searched < 2 * lookahead && count < this.path.points.length;
+      segment = this.nextSegment(segment), count++
+    ) {
+      const projection = this.project(here, segment);
+      if (projection.distance < nearest.distance) {
+        nearest = { segment, ...projection };
+      }
+      // The window starts abeam the aircraft on the segment being flown
+      searched += this.segmentLength(segment) - (count === 0 ? projection.along : 0);
+    }
+    this.segment = nearest.segment;
+
+    if (
+      !this.path.loop &&
+      this.nextSegment(nearest.segment) === null &&
+      nearest.along >= this.segmentLength(nearest.segment) - 1
+    ) {
+      console.log('Maneuver: complete');
+      this.active = false;
+      this.complete = true;
+      return null;
+    }
+
+    return bearingTo(here, this.pointAlong(nearest.segment, nearest.along + lookahead));
+  }
+
+  /**
+   * Lay out the entry and pattern on the plane around the fix
+   */
+  private buildPath(
+    maneuver: ManeuverDefinition,
+    position: GPSPosition,
+    speed: number,
+    turnRate: number,
+    windSpeed: number
+  ): ManeuverPath {
+    const here = this.toLocal(position);
+    const side = maneuver.turnDirection === 'right' ? 1 : -1;
+    const radial = Math.hypot(here.x, here.y) > 1 ? bearingTo(ORIGIN, here) : position.heading;
+    const speedMs = knotsToMetersPerSecond(speed);
+
+    if (maneuver.type === 'hold') {
+      const course = maneuver.inboundCourse ?? 0;
+      const legLength =
+        maneuver.legUnit === 'nm'
+          ? (maneuver.legLength ?? 1) * METERS_PER_NM
+          : speedMs * 60 * (maneuver.legLength ?? DEFAULT_LEG_MINUTES);
+      const radius = turnRate > 0 ? knotsToMetersPerSecond(speed + windSpeed) / toRadians(turnRate) : 0;
+
+      // Close to the fix the entry is chosen from the heading rather than the course to it
+      const arrival = Math.hypot(here.x, here.y) > radius ? bearingTo(here, ORIGIN) : position.heading;
+      const entry = holdEntry(arrival, course, side);
+
+      const entryPoints = [here, ORIGIN];
+      if (entry === 'teardrop') {
+        const outbound = course + 180 - TEARDROP_ANGLE * side;
+        const turnStart = offset(ORIGIN, outbound, legLength);
+        entryPoints.push(turnStart, ...turn(turnStart, outbound, side, 180 + TEARDROP_ANGLE, radius), ORIGIN);
+      } else if (entry === 'parallel') {
+        const turnStart = offset(ORIGIN, course + 180, legLength);
+        entryPoints.push(turnStart, ...turn(turnStart, course + 180, -side, PARALLEL_TURN, radius), ORIGIN);
+      }
+
+      // Racetrack: turn outbound over the fix, outbound leg, turn inbound, inbound leg to the fix
+      const outboundTurn = turn(ORIGIN, course, side, 180, radius);
+      const outboundEnd = offset(outboundTurn[outboundTurn.length - 1], course + 180, legLength);
+      const inboundTurn = turn(outboundEnd, course + 180, side, 180, radius);
+      const pattern = [ORIGIN, ...outboundTurn, outboundEnd, ...inboundTurn, ORIGIN];
+
+      return this.joinPath(entryPoints, pattern, true, entry);
+    }
+
+    const radius = (maneuver.radius ?? 1) * METERS_PER_NM;
+    if (maneuver.type === 'orbit') {
+      const pattern = arc(radius, radial, side, 360);
+      return this.joinPath([here, pattern[0]], pattern, true, null);
+    }
+
+    // DME arc from the start radial around to the end radial
+    const startRadial = maneuver.startRadial ?? radial;
+    const sweep = normalizeHeading(side * ((maneuver.endRadial ?? startRadial) - startRadial));
+    const pattern = sweep > 0 ? arc(radius, startRadial, side, sweep) : [offset(ORIGIN, startRadial, radius)];
+    return this.joinPath([here, pattern[0]], pattern, false, null);
+  }
+
+  private joinPath(entryPoints: Point[], pattern: Point[], loop: boolean, entry: HoldEntry | null): ManeuverPath {
+    return {
+      points: [...entryPoints.slice(0, -1), ...pattern],
+      patternStart: entryPoints.length - 1,
+      loop,
+      entry,
+    };
+  }
+
+  /**
+   * Position relative to the fix
+   */
+  private toLocal(position: GPSPosition): Point {
+    const fix = this.maneuver!.fix;
+    const distance = distanceBetween(fix.latitude, fix.longitude, position.latitude, position.longitude);
+    if (distance < 0.01) return ORIGIN;
+    return offset(ORIGIN, initialBearing(fix.latitude, fix.longitude, position.latitude, position.longitude), distance);
+  }
+
+  /**
+   * Segment after this one, wrapping around a loop; null at the end of the path
+   */
+  private nextSegment(segment: number): number | null {
+    const path = this.path!;
+    if (segment + 1 < path.points.length - 1) return segment + 1;
+    return path.loop ? path.patternStart : null;
+  }
+
+  private segmentLength(segment: number): number {
+    const points = this.path!.points;
+    const start = points[segment];
+    const end = points[segment + 1] ?? start;
+    return Math.hypot(end.x - start.x, end.y - start.y);
+  }
+
+  /**
+   * Closest point on a segment: distance along it and distance from it
+   */
+  private project(point: Point, segment: number): { along: number; distance: number } {
+    const points = this.path!.points;
+    const start = points[segment];
+    const end = points[segment + 1] ?? start;
+    const length = this.segmentLength(segment);
+    const along =
+      length > 0
+        ? Math.max(0, Math.min(length, ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / length))
+        : 0;
+    const closest = length > 0 ? offset(start, bearingTo(start, end), along) : start;
+    return { along, distance: Math.hypot(point.x - closest.x, point.y - closest.y) };
+  }
+
+  /**
+   * Point a distance along the path from the start of a segment, stopping
+   * at the end of a path that isn't a loop
+   */
+  private pointAlong(segment: number, distance: number): Point {
+    const points = this.path!.points;
+    let current = segment;
+    let remaining = distance;
+    for (let count = 0; count < 2 * points.length; count++) {
+      const length = this.segmentLength(current);
+      const next = this.nextSegment(current);
+      if (remaining <= length || next === null) {
+        const start = points[current];
+        const end = points[current + 1] ?? start;
+        return length > 0 ? offset(start, bearingTo(start, end), Math.min(remaining, length)) : end;
+      }
+      remaining -= length;
+      current = next;
+    }
+    return points[current];
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Output Targets
+ *
+ * Additional devices the GPS data server fans out to while it runs, each
+ * with its own address, protocol and update rate. The server steps the
+ * position at the fastest rate any output uses and hands each step's fix
+ * to the targets due an update; GDL 90 heartbeats and XATT attitude are
+ * passed on by the server at their fixed rates. Failed sends are counted
+ * per target so a misconfigured device is easy to spot.
+ */
+
+import { OutputTarget, OutputTargetConfig, TargetProtocol } from '../../src/types/target.js';
+import { DegradedPosition } from '../../src/types/degradation.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * When an output sending at a fixed rate is next due, checked on each
+ * position step. A rate that doesn't divide the step rate is sent on the
+ * nearest steps, so it still averages out to the rate.
+ */
+export class UpdateSchedule {
+  private nextAt: number | null = null;
+
+  constructor(private readonly periodMs: number) {}
+
+  /**
+   * Check if an update is due at a step, advancing the schedule if so
+   */
+  takeIfDue(now: number, stepMs: number): boolean {
+    if (this.nextAt !== null && now < this.nextAt - stepMs / 2) {
+      return false;
+    }
+
+    // After a stall, start again from now rather than catching up in a burst
+    this.nextAt =
+      this.nextAt === null || now - this.nextAt > this.periodMs ? now + this.periodMs : this.nextAt + this.periodMs;
+    return true;
+  }
+}
+
+export class OutputTargets {
+  private targets = new Map<string, OutputTarget>();
+  private schedules = new Map<string, UpdateSchedule>();
+  private nextId = 1;
+  private isActive = false;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Start sending to every enabled target
+   */
+  start(): void {
+    this.isActive = true;
+  }
+
+  /**
+   * Stop sending to all targets
+   */
+  stop(): void {
+    this.isActive = false;
+    this.schedules.clear();
+  }
+
+  /**
+   * Get all targets
+   */
+  getTargets(): OutputTarget[] {
+    return [...this.targets.values()].map((target) => ({ ...target, stats: { ...target.stats } }));
+  }
+
+  /**
+   * Check if any target is enabled
+   */
+  hasEnabledTargets(): boolean {
+    return [...this.targets.values()].some((target) => target.enabled);
+  }
+
+  /**
+   * Get the fastest update rate of the enabled targets (0 if none)
+   */
+  getMaxUpdateRate(): number {
+    return Math.max(0, ...[...this.targets.values()].filter((t) => t.enabled).map((t) => t.updateRate));
+  }
+
+  /**
+   * Add a target
+   */
+  add(config: OutputTargetConfig): OutputTarget {
+    const target: OutputTarget = {
+      ...config,
+      id: `O${this.nextId++}`,
+      stats: { sent: 0, errors: 0, lastError: null },
+    };
+    this.targets.set(target.id, target);
+    this.server.updatePositionStep();
+    return { ...target };
+  }
+
+  /**
+   * Replace a target's configuration, resetting its counters
+   */
+  update(id: string, config: OutputTargetConfig): OutputTarget | null {
+    if (!this.targets.has(id)) {
+      return null;
+    }
+
+    const target: OutputTarget = { ...config, id, stats: { sent: 0, errors: 0, lastError: null } };
+    this.targets.set(id, target);
+    this.schedules.delete(id);
+    this.server.updatePositionStep();
+    return { ...target };
+  }
+
+  /**
+   * Remove a target
+   */
+  remove(id: string): boolean {
+    this.schedules.delete(id);
+    const removed = this.targets.delete(id);
+    this.server.updatePositionStep();
+    return removed;
+  }
+
+  /**
+   * Send a message to every enabled target using a protocol (heartbeats
+   * and attitude, which have their own rates)
+   */
+  broadcast(protocol: TargetProtocol, message: Buffer): void {
+    if (!this.isActive) return;
+
+    for (const target of this.targets.values()) {
+      if (target.enabled && target.protocol === protocol) {
+        this.send(target, message);
+      }
+    }
+  }
+
+  /**
+   * Send a position step's fix (and traffic) to every enabled target due an
+   * update, encoding it once per protocol
+   */
+  sendUpdates(fix: DegradedPosition, now: number, stepMs: number): void {
+    if (!this.isActive) return;
+
+    const encoded = new Map<TargetProtocol, Buffer[]>();
+    for (const target of this.targets.values()) {
+      if (!target.enabled) continue;
+
+      let schedule = this.schedules.get(target.id);
+      if (!schedule) {
+        schedule = new UpdateSchedule(1000 / target.updateRate);
+        this.schedules.set(target.id, schedule);
+      }
+      if (!schedule.takeIfDue(now, stepMs)) continue;
+
+      let messages = encoded.get(target.protocol);
+      if (!messages) {
+        messages = this.server.encodeFix(target.protocol, fix);
+        encoded.set(target.protocol, messages);
+      }
+      for (const message of messages) {
+        this.send(target, message);
+      }
+    }
+  }
+
+  /**
+   * Send one datagram to a target, counting the result
+   */
+  private send(target: OutputTarget, message: Buffer): void {
+    this.server.sendDatagram(message, target.ip, target.port, (err) => {
+      // The target may have been replaced while the datagram was in flight
+      if (this.targets.get(target.id) !== target) return;
+
+      if (err) {
+        target.stats.errors++;
+        target.stats.lastError = err.message;
+        this.server.getEventStream().publish({
+          type: 'error',
+          target: target.id,
+          address: `${target.ip}:${target.port}`,
+          message: err.message,
+        });
+      } else {
+        target.stats.sent++;
+      }
+    });
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Route Navigator
+ *
+ * Lateral guidance along an ordered list of waypoints. Each leg is a great
+ * circle; the navigator returns the track the flight engine should steer to
+ * stay on the active leg and sequences to the next leg early enough to fly
+ * by each waypoint on a smooth turn.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { Waypoint, RouteState } from '../../src/types/route.js';
+import {
+  METERS_PER_NM,
+  alongTrackDistance,
+  angleDifference,
+  crossTrackDistance,
+  destinationPoint,
+  distanceBetween,
+  finalBearing,
+  initialBearing,
+  knotsToMetersPerSecond,
+  normalizeHeading,
+  toRadians,
+} from '../utils/geo.js';
+
+/**
+ * Maximum intercept angle used to correct cross-track error
+ */
+const MAX_INTERCEPT_ANGLE = 30;
+
+/**
+ * Intercept angle per nautical mile of cross-track error
+ */
+const INTERCEPT_DEGREES_PER_NM = 60;
+
+/**
+ * Track changes larger than this are flown with the lead for this angle
+ * (anticipating a near-reversal would sequence the leg miles early)
+ */
+const MAX_ANTICIPATED_TURN = 120;
+
+export class RouteNavigator {
+  private waypoints: Waypoint[] = [];
+  private activeIndex = 0;
+  private legStart: { latitude: number; longitude: number } | null = null;
+
+  /**
+   * @param logLabel - Prefix for logging waypoint passage (e.g., Route); null
+   *   keeps it quiet, as for traffic targets
+   */
+  constructor(private readonly logLabel: string | null = null) {}
+
+  /**
+   * Replace the route and start again from the first waypoint
+   */
+  setWaypoints(waypoints: Waypoint[]): void {
+    this.waypoints = waypoints.map((waypoint) => ({ ...waypoint }));
+    this.activeIndex = 0;
+    this.legStart = null;
+  }
+
+  /**
+   * Remove the route
+   */
+  clear(): void {
+    this.setWaypoints([]);
+  }
+
+  /**
+   * Check if there is a waypoint left to fly to
+   */
+  isActive(): boolean {
+    return this.activeIndex < this.waypoints.length;
+  }
+
+  /**
+   * Get the route and progress along it
+   */
+  getState(): RouteState {
+    return {
+      waypoints: this.waypoints.map((waypoint) => ({ ...waypoint })),
+      activeWaypointIndex: this.isActive() ? this.activeIndex : null,
+      isComplete: this.waypoints.length > 0 && !this.isActive(),
+    };
+  }
+
+  /**
+   * Get the waypoint currently being flown to
+   */
+  getActiveWaypoint(): Waypoint | null {
+    return this.isActive() ? this.waypoints[this.activeIndex] : null;
+  }
+
+  /**
+   * Compute the desired track for the current position, sequencing to the
+   * next leg when the fly-by turn should begin. Returns null when the route
+   * is empty or complete.
+   *
+   * @param turnRate - Turn rate in degrees per second, used to size the fly-by turn
+   */
+  guide(position: GPSPosition, turnRate: number): number | null {
+    if (!this.isActive()) {
+      return null;
+    }
+
+    // The first leg starts wherever the aircraft is when guidance begins
+    if (!this.legStart) {
+      this.legStart = { latitude: position.latitude, longitude: position.longitude };
+    }
+
+    while (this.isActive() && this.shouldSequence(position, turnRate)) {
+      const reached = this.waypoints[this.activeIndex];
+      if (this.logLabel) {
+        console.log(`${this.logLabel}: passed waypoint ${reached.name ?? this.activeIndex + 1}`);
+      }
+      this.legStart = { latitude: reached.latitude, longitude: reached.longitude };
+      this.activeIndex++;
+    }
+
+    if (!this.isActive()) {
+      if (this.logLabel) {
+        console.log(`${this.logLabel}: complete`);
+      }
+      return null;
+    }
+
+    return this.legTrack(position);
+  }
+
+  /**
+   * Track that follows the active great-circle leg, with an intercept angle
+   * proportional to cross-track error
+   */
+  private legTrack(position: GPSPosition): number {
+    const start = this.legStart!;
+    const target = this.waypoints[this.activeIndex];
+
+    // Degenerate leg (waypoint on top of leg start): fly direct
+    if (distanceBetween(start.latitude, start.longitude, target.latitude, target.longitude) < 1) {
+      return initialBearing(position.latitude, position.longitude, target.latitude, target.longitude);
+    }
+
+    const along = alongTrackDistance(
+      start.latitude, start.longitude,
+      target.latitude, target.longitude,
+      position.latitude, position.longitude
+    );
+    const crossTrack = crossTrackDistance(
+      start.latitude, start.longitude,
+      target.latitude, target.longitude,
+      position.latitude, position.longitude
+    );
+
+    // Course of the great circle at the point abeam the aircraft
+    const legBearing = initialBearing(start.latitude, start.longitude, target.latitude, target.longitude);
+    const abeam = destinationPoint(start.latitude, start.longitude, legBearing, along);
+    const courseHere = initialBearing(abeam.latitude, abeam.longitude, target.latitude, target.longitude);
+
+    const intercept = Math.max(
+      -MAX_INTERCEPT_ANGLE,
+      Math.min(MAX_INTERCEPT_ANGLE, (crossTrack / METERS_PER_NM) * INTERCEPT_DEGREES_PER_NM)
+    );
+
+    return normalizeHeading(courseHere - intercept);
+  }
+
+  /**
+   * Check if the active waypoint has been reached, including the fly-by
+   * turn anticipation distance when there is a following leg
+   */
+  private shouldSequence(position: GPSPosition, turnRate: number): boolean {
+    const start = this.legStart!;
+    const target = this.waypoints[this.activeIndex];
+    const legLength = distanceBetween(start.latitude, start.longitude, target.latitude, target.longitude);
+
+    if (legLength < 1) {
+      return true;
+    }
+
+    const along = alongTrackDistance(
+      start.latitude, start.longitude,
+      target.latitude, target.longitude,
+      position.latitude, position.longitude
+    );
+    const remaining = legLength - along;
+
+    const next = this.waypoints[this.activeIndex + 1];
+    if (!next) {
+      // Last waypoint: fly over it
+      return remaining <= 0;
+    }
+
+    const inbound = finalBearing(start.latitude, start.longitude, target.latitude, target.longitude);
+    const outbound = initialBearing(target.latitude, target.longitude, next.latitude, next.longitude);
+    const trackChange = Math.min(MAX_ANTICIPATED_TURN, Math.abs(angleDifference(outbound, inbound)));
+
+    // Turn radius r = V / omega, lead distance = r * tan(trackChange / 2)
+    const speed = knotsToMetersPerSecond(position.groundSpeed);
+    const radius = turnRate > 0 ? speed / toRadians(turnRate) : 0;
+    const lead = radius * Math.tan(toRadians(trackChange) / 2);
+
+    return remaining <= lead;
+  }
+}
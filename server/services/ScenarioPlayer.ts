@@ -0,0 +1,279 @@
+/**
+ * Scenario Player
+ *
+ * Plays scripted traffic encounters relative to ownship. When a scenario
+ * starts, ownship's position, track, speed and vertical speed are captured
+ * and each intruder is placed by relative bearing, range and altitude delta
+ * (projected forward to the intruder's appearance time). Intruders then fly
+ * a straight line chosen so their range to ownship closes at the scripted
+ * rate, which makes the moment they enter the traffic alert volume
+ * predictable as long as ownship holds its track and speed.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { Scenario, ScenarioIntruder, ScenarioIntruderTimeline, ScenarioState } from '../../src/types/scenario.js';
+import {
+  METERS_PER_NM,
+  destinationPoint,
+  normalizeHeading,
+  toDegrees,
+  toRadians,
+} from '../utils/geo.js';
+import { ALERT_ALTITUDE_FT, ALERT_RANGE_NM, randomCallsign } from './TrafficGenerator.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * Scenarios available without writing a definition
+ */
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    name: 'Traffic 2 o\'clock, 500 ft below, closing',
+    description: 'A single intruder 5 NM at 2 o\'clock, 500 ft below, on a collision course at 150 knots closure.',
+    intruders: [{ relativeBearing: 60, range: 5, altitudeDelta: -500, closureRate: 150 }],
+  },
+  {
+    name: 'Head-on, same altitude',
+    description: 'Opposite-direction traffic 6 NM ahead at ownship\'s altitude, passing 0.3 NM off the nose.',
+    intruders: [{ relativeBearing: 0, range: 6, altitudeDelta: 0, closureRate: 240, missDistance: 0.3 }],
+  },
+  {
+    name: 'Overtaken from behind, 300 ft above',
+    description: 'Faster traffic 2.5 NM behind and 300 ft above, overtaking at 40 knots.',
+    intruders: [{ relativeBearing: 180, range: 2.5, altitudeDelta: 300, closureRate: 40 }],
+  },
+  {
+    name: 'Climbing traffic at 10 o\'clock',
+    description: 'Traffic 4 NM at 10 o\'clock, 1500 ft below and climbing 1000 fpm into ownship\'s altitude.',
+    intruders: [{ relativeBearing: 300, range: 4, altitudeDelta: -1500, closureRate: 180, verticalSpeed: 1000 }],
+  },
+  {
+    name: 'Busy pattern: two converging intruders',
+    description: 'Traffic at 3 o\'clock level, then a second target at 9 o\'clock 400 ft above 30 seconds later.',
+    intruders: [
+      { relativeBearing: 90, range: 4, altitudeDelta: 0, closureRate: 120, missDistance: 0.5 },
+      { relativeBearing: 270, range: 4, altitudeDelta: 400, closureRate: 140, delay: 30 },
+    ],
+  },
+];
+
+/**
+ * An intruder's straight-line flight and predicted encounter
+ */
+interface IntruderPlan {
+  intruder: ScenarioIntruder;
+  timeline: ScenarioIntruderTimeline;
+  icaoAddress: number | undefined;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  track: number;
+  groundSpeed: number;
+  verticalSpeed: number;
+}
+
+export class ScenarioPlayer {
+  private scenario: Scenario | null = null;
+  private plans: IntruderPlan[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private startTime = 0;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Start a scenario relative to the current ownship position, replacing
+   * any scenario already running. The GPS server must be running.
+   */
+  start(scenario: Scenario): ScenarioState {
+    // Traffic only moves while the server runs, so the scenario clock would run ahead of it
+    if (!this.server.getIsRunning()) {
+      throw new Error('Start the GPS server before starting a scenario');
+    }
+
+    const ownship = this.server.getCurrentPosition();
+    if (!ownship) {
+      throw new Error('No current position. Set a position before starting a scenario.');
+    }
+
+    this.stop();
+    this.scenario = scenario;
+    this.startTime = performance.now();
+    this.plans = scenario.intruders.map((intruder) => planIntruder(intruder, ownship));
+
+    for (const plan of this.plans) {
+      const delayMs = (plan.intruder.delay ?? 0) * 1000;
+      if (delayMs > 0) {
+        this.timers.push(setTimeout(() => this.launch(plan), delayMs));
+      } else {
+        this.launch(plan);
+      }
+    }
+
+    this.server.getEventStream().publish({ type: 'state', engine: 'scenario', running: true });
+    console.log(`Scenario started: ${scenario.name}`);
+    return this.getState();
+  }
+
+  /**
+   * Stop the scenario and remove its intruders
+   */
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+
+    const traffic = this.server.getTrafficGenerator();
+    for (const plan of this.plans) {
+      if (plan.timeline.targetId) {
+        traffic.remove(plan.timeline.targetId);
+      }
+    }
+
+    if (this.scenario) {
+      this.server.getEventStream().publish({ type: 'state', engine: 'scenario', running: false });
+      console.log(`Scenario stopped: ${this.scenario.name}`);
+    }
+    this.scenario = null;
+    this.plans = [];
+  }
+
+  /**
+   * Get the scenario state and predicted timeline
+   */
+  getState(): ScenarioState {
+    return {
+      isRunning: this.scenario !== null,
+      name: this.scenario?.name ?? null,
+      elapsed: this.scenario ? (performance.now() - this.startTime) / 1000 : 0,
+      intruders: this.plans.map((plan) => ({ ...plan.timeline })),
+    };
+  }
+
+  /**
+   * Add an intruder to the traffic generator
+   */
+  private launch(plan: IntruderPlan): void {
+    const traffic = this.server.getTrafficGenerator();
+    const target = traffic.add({
+      callsign: plan.timeline.callsign,
+      icaoAddress: plan.icaoAddress ?? traffic.allocateICAOAddress(),
+      altitude: plan.altitude,
+      groundSpeed: plan.groundSpeed,
+      verticalSpeed: plan.verticalSpeed,
+      behavior: 'crossing',
+      latitude: plan.latitude,
+      longitude: plan.longitude,
+      heading: plan.track,
+    });
+    plan.timeline.targetId = target.id;
+  }
+}
+
+/**
+ * Work out where an intruder starts, how it flies and when it alerts
+ */
+function planIntruder(intruder: ScenarioIntruder, ownship: GPSPosition): IntruderPlan {
+  const delay = intruder.delay ?? 0;
+  const missDistance = intruder.missDistance ?? 0;
+  const relativeVerticalSpeed = intruder.verticalSpeed ?? 0;
+  const ownTrack = ownship.heading;
+
+  // Where ownship will be when the intruder appears
+  const ownshipAtStart = destinationPoint(
+    ownship.latitude,
+    ownship.longitude,
+    ownTrack,
+    ((ownship.groundSpeed * delay) / 3600) * METERS_PER_NM
+  );
+  const ownAltitudeAtStart = ownship.altitude + (ownship.verticalSpeed / 60) * delay;
+
+  const lineOfSight = normalizeHeading(ownTrack + intruder.relativeBearing);
+  const start = destinationPoint(
+    ownshipAtStart.latitude,
+    ownshipAtStart.longitude,
+    lineOfSight,
+    intruder.range * METERS_PER_NM
+  );
+
+  // Relative motion: head at ownship, offset so the intruder misses by the
+  // miss distance and passes ahead of ownship rather than behind it
+  const alongTrack = Math.sqrt(Math.max(0, intruder.range ** 2 - missDistance ** 2));
+  const offsetAngle = toDegrees(Math.asin(Math.min(1, missDistance / intruder.range)));
+  const candidates = [1, -1].map((side) => normalizeHeading(lineOfSight + 180 + side * offsetAngle));
+  const relativeTrack =
+    candidates.find((track) => {
+      // Intruder position relative to ownship at closest approach
+      const north = intruder.range * Math.cos(toRadians(lineOfSight)) + alongTrack * Math.cos(toRadians(track));
+      const east = intruder.range * Math.sin(toRadians(lineOfSight)) + alongTrack * Math.sin(toRadians(track));
+      return north * Math.cos(toRadians(ownTrack)) + east * Math.sin(toRadians(ownTrack)) >= 0;
+    }) ?? candidates[0];
+
+  // Intruder ground velocity = ownship velocity + relative velocity
+  const north =
+    ownship.groundSpeed * Math.cos(toRadians(ownTrack)) +
+    intruder.closureRate * Math.cos(toRadians(relativeTrack));
+  const east =
+    ownship.groundSpeed * Math.sin(toRadians(ownTrack)) +
+    intruder.closureRate * Math.sin(toRadians(relativeTrack));
+
+  // Predicted encounter (times in hours from appearance)
+  const closestApproachTime = alongTrack / intruder.closureRate;
+  const altitudeAt = (hours: number) => intruder.altitudeDelta + relativeVerticalSpeed * hours * 60;
+
+  return {
+    intruder,
+    icaoAddress: intruder.icaoAddress,
+    latitude: start.latitude,
+    longitude: start.longitude,
+    altitude: ownAltitudeAtStart + intruder.altitudeDelta,
+    track: normalizeHeading(toDegrees(Math.atan2(east, north))),
+    groundSpeed: Math.hypot(north, east),
+    verticalSpeed: ownship.verticalSpeed + relativeVerticalSpeed,
+    timeline: {
+      callsign: intruder.callsign ?? randomCallsign(),
+      targetId: null,
+      appearsAt: delay,
+      alertAt: alertTime(intruder, alongTrack, missDistance, relativeVerticalSpeed, delay),
+      closestApproachAt: delay + closestApproachTime * 3600,
+      closestApproachRange: missDistance,
+      closestApproachAltitude: altitudeAt(closestApproachTime),
+    },
+  };
+}
+
+/**
+ * First time (seconds from scenario start) the intruder is inside the
+ * traffic alert volume, or null if it never is
+ */
+function alertTime(
+  intruder: ScenarioIntruder,
+  alongTrack: number,
+  missDistance: number,
+  relativeVerticalSpeed: number,
+  delay: number
+): number | null {
+  if (missDistance > ALERT_RANGE_NM) {
+    return null;
+  }
+
+  // Horizontal: range <= alert range while within halfWidth of closest approach
+  const halfWidth = Math.sqrt(ALERT_RANGE_NM ** 2 - missDistance ** 2);
+  let start = Math.max(0, (alongTrack - halfWidth) / intruder.closureRate) * 60; // minutes
+  let end = ((alongTrack + halfWidth) / intruder.closureRate) * 60;
+
+  // Vertical: |altitude delta| <= alert altitude
+  if (relativeVerticalSpeed === 0) {
+    if (Math.abs(intruder.altitudeDelta) > ALERT_ALTITUDE_FT) {
+      return null;
+    }
+  } else {
+    const bounds = [
+      (-ALERT_ALTITUDE_FT - intruder.altitudeDelta) / relativeVerticalSpeed,
+      (ALERT_ALTITUDE_FT - intruder.altitudeDelta) / relativeVerticalSpeed,
+    ].sort((a, b) => a - b);
+    start = Math.max(start, bounds[0]);
+    end = Math.min(end, bounds[1]);
+  }
+
+  return start <= end ? delay + start * 60 : null;
+}
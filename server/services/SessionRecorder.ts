@@ -0,0 +1,157 @@
+/**
+ * Session Recorder
+ *
+ * Records every position the GPS data server transmits and saves the session
+ * as a GPX, KML or CSV track in the recordings directory. This archives the
+ * exact path an EFB received.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { GPSPosition } from '../../src/types/gps.js';
+import { Recording, RecorderState, RecordingFormat } from '../../src/types/recording.js';
+import { writeTrack } from '../utils/trackWriter.js';
+
+export const RECORDING_FORMATS: RecordingFormat[] = ['gpx', 'kml', 'csv'];
+
+/**
+ * Content types used when downloading recordings
+ */
+export const RECORDING_CONTENT_TYPES: Record<RecordingFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+};
+
+export class SessionRecorder {
+  private positions: GPSPosition[] = [];
+  private format: RecordingFormat | null = null;
+  private name: string | null = null;
+  private startedAt: number | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Start recording transmitted positions
+   */
+  start(format: RecordingFormat, name?: string): void {
+    if (this.format) {
+      throw new Error('A recording is already in progress');
+    }
+
+    this.positions = [];
+    this.format = format;
+    this.startedAt = Date.now();
+    this.name = name || `Session ${new Date(this.startedAt).toISOString()}`;
+    console.log(`Recording started (${format.toUpperCase()})`);
+  }
+
+  /**
+   * Stop recording and save the session. Returns the saved recording.
+   */
+  async stop(): Promise<Recording> {
+    if (!this.format || this.startedAt === null) {
+      throw new Error('No recording in progress');
+    }
+
+    const format = this.format;
+    const positions = this.positions;
+    const name = this.name!;
+    const id = `${new Date(this.startedAt).toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    this.positions = [];
+    this.format = null;
+    this.name = null;
+    this.startedAt = null;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, id), writeTrack(positions, format, name), 'utf-8');
+    console.log(`Recording saved: ${id} (${positions.length} positions)`);
+
+    return this.getRecording(id) as Promise<Recording>;
+  }
+
+  /**
+   * Record a transmitted position with the time it carried, so a frozen fix
+   * is recorded as the repeat it was sent as (ignored when not recording)
+   */
+  record(position: GPSPosition): void {
+    if (!this.format) return;
+    this.positions.push({ ...position });
+  }
+
+  /**
+   * Get the state of the recording in progress
+   */
+  getState(): RecorderState {
+    return {
+      isRecording: this.format !== null,
+      format: this.format,
+      name: this.name,
+      startedAt: this.startedAt,
+      pointCount: this.positions.length,
+    };
+  }
+
+  /**
+   * List saved recordings, newest first
+   */
+  async list(): Promise<Recording[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const recordings = await Promise.all(files.map((file) => this.getRecording(file)));
+    return recordings
+      .filter((recording): recording is Recording => recording !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Get a saved recording, or null if it doesn't exist
+   */
+  async getRecording(id: string): Promise<Recording | null> {
+    const format = path.extname(id).slice(1) as RecordingFormat;
+    if (!this.isValidId(id) || !RECORDING_FORMATS.includes(format)) {
+      return null;
+    }
+
+    try {
+      const stats = await fs.stat(path.join(this.directory, id));
+      return { id, format, size: stats.size, createdAt: Math.round(stats.mtimeMs) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the path of a saved recording, or null if it doesn't exist
+   */
+  async getRecordingPath(id: string): Promise<string | null> {
+    const recording = await this.getRecording(id);
+    return recording ? path.join(this.directory, recording.id) : null;
+  }
+
+  /**
+   * Delete a saved recording. Returns false if it doesn't exist.
+   */
+  async delete(id: string): Promise<boolean> {
+    const filePath = await this.getRecordingPath(id);
+    if (!filePath) return false;
+    await fs.unlink(filePath);
+    return true;
+  }
+
+  /**
+   * Reject ids that could escape the recordings directory
+   */
+  private isValidId(id: string): boolean {
+    return id === path.basename(id) && !id.startsWith('.');
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Terrain Model
+ *
+ * Ground elevation from SRTM .hgt tiles in a local directory. Each tile
+ * covers one degree square and is named after its south-west corner
+ * (e.g., N39W105.hgt): a grid of big-endian 16-bit elevations in meters,
+ * north row first, 1201 samples square (3 arc-second) or 3601 (1 arc-second).
+ *
+ * Tiles are read on first use and a few are kept in memory. Elevations
+ * between samples are interpolated bilinearly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const TERRAIN_DIR = process.env.TERRAIN_DIR ?? path.resolve('terrain');
+
+/**
+ * Sample value SRTM uses for voids (no data)
+ */
+const VOID_SAMPLE = -32768;
+
+/**
+ * Tiles kept in memory (a 1 arc-second tile is about 25 MB)
+ */
+const MAX_CACHED_TILES = 8;
+
+const FEET_PER_METER = 1 / 0.3048;
+
+interface HGTTile {
+  data: Buffer;
+  size: number; // Samples per row and column
+}
+
+/**
+ * Name of the tile containing a point
+ */
+export function tileName(latitude: number, longitude: number): string {
+  const lat = Math.floor(latitude);
+  const lon = Math.floor(longitude);
+  const latPart = `${lat < 0 ? 'S' : 'N'}${String(Math.abs(lat)).padStart(2, '0')}`;
+  const lonPart = `${lon < 0 ? 'W' : 'E'}${String(Math.abs(lon)).padStart(3, '0')}`;
+  return `${latPart}${lonPart}`;
+}
+
+export class TerrainModel {
+  // Insertion order is use order: the first entry is the least recently used
+  private tiles = new Map<string, HGTTile | null>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Count the .hgt tiles in the terrain directory
+   */
+  countTiles(): number {
+    try {
+      return fs.readdirSync(this.directory).filter((file) => file.toLowerCase().endsWith('.hgt')).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Ground elevation in feet MSL, or null where there is no terrain data
+   */
+  getElevation(latitude: number, longitude: number): number | null {
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90) {
+      return null;
+    }
+
+    const tile = this.getTile(tileName(latitude, longitude));
+    if (!tile) return null;
+
+    // Fractional sample position; row 0 is the north edge
+    const last = tile.size - 1;
+    const column = (longitude - Math.floor(longitude)) * last;
+    const row = (Math.floor(latitude) + 1 - latitude) * last;
+    const column0 = Math.min(Math.floor(column), last - 1);
+    const row0 = Math.min(Math.floor(row), last - 1);
+    const dx = column - column0;
+    const dy = row - row0;
+
+    const sample = (r: number, c: number) => tile.data.readInt16BE((r * tile.size + c) * 2);
+    const corners = [
+      { value: sample(row0, column0), weight: (1 - dx) * (1 - dy) },
+      { value: sample(row0, column0 + 1), weight: dx * (1 - dy) },
+      { value: sample(row0 + 1, column0), weight: (1 - dx) * dy },
+      { value: sample(row0 + 1, column0 + 1), weight: dx * dy },
+    ].filter((corner) => corner.value !== VOID_SAMPLE);
+
+    if (corners.length === 0) return null;
+
+    // Interpolate between the samples that have data
+    const totalWeight = corners.reduce((sum, corner) => sum + corner.weight, 0);
+    const meters =
+      totalWeight > 0
+        ? corners.reduce((sum, corner) => sum + corner.value * corner.weight, 0) / totalWeight
+        : corners[0].value;
+    return meters * FEET_PER_METER;
+  }
+
+  /**
+   * Forget which tiles were missing so newly added files are picked up
+   */
+  rescan(): void {
+    for (const [name, tile] of this.tiles) {
+      if (!tile) this.tiles.delete(name);
+    }
+  }
+
+  /**
+   * Get a tile, reading it on first use; null if there is no usable file
+   */
+  private getTile(name: string): HGTTile | null {
+    if (this.tiles.has(name)) {
+      const cached = this.tiles.get(name)!;
+      this.tiles.delete(name);
+      this.tiles.set(name, cached);
+      return cached;
+    }
+
+    const tile = this.readTile(name);
+    this.tiles.set(name, tile);
+    if (this.tiles.size > MAX_CACHED_TILES) {
+      this.tiles.delete(this.tiles.keys().next().value!);
+    }
+    return tile;
+  }
+
+  private readTile(name: string): HGTTile | null {
+    let data: Buffer;
+    try {
+      data = fs.readFileSync(path.join(this.directory, `${name}.hgt`));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read terrain tile ${name}.hgt:`, (err as Error).message);
+      }
+      return null;
+    }
+
+    const size = Math.sqrt(data.length / 2);
+    if (!Number.isInteger(size) || size < 2) {
+      console.error(`Terrain tile ${name}.hgt is not a square grid of 16-bit samples`);
+      return null;
+    }
+    return { data, size };
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Tile Store
+ *
+ * Serves raster map tiles from MBTiles files (SQLite databases of PNG, JPEG
+ * or WebP tiles) in a local directory, so the map works without internet.
+ * Each file is a layer named after the file. The directory is rescanned
+ * when the layers are listed, so files can be added without a restart.
+ *
+ * MBTiles stores rows in TMS order (origin at the bottom), so the XYZ row
+ * the map asks for is flipped.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { MapLayer, TileFormat } from '../../src/types/tiles.js';
+
+export const TILES_DIR = process.env.TILES_DIR ?? path.resolve('tiles');
+
+const CONTENT_TYPES: Record<TileFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+/**
+ * An MBTiles file that could not be opened
+ */
+export interface TileLoadError {
+  file: string;
+  error: string;
+}
+
+/**
+ * A map tile and its MIME type
+ */
+export interface Tile {
+  data: Buffer;
+  contentType: string;
+}
+
+interface TileSource {
+  file: string;
+  layer: MapLayer;
+  db: Database.Database;
+  select: Database.Statement<[number, number, number], { tile_data: Buffer }>;
+}
+
+/**
+ * Layer id for a file name: lowercase letters, digits and dashes
+ */
+function layerId(file: string): string {
+  return path
+    .basename(file, path.extname(file))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Read the layer description from an MBTiles file's metadata table
+ */
+function readLayer(db: Database.Database, id: string): MapLayer {
+  const rows = db.prepare('SELECT name, value FROM metadata').all() as { name: string; value: string }[];
+  const metadata = new Map(rows.map((row) => [row.name, row.value]));
+
+  let format = (metadata.get('format') ?? 'png').toLowerCase();
+  if (format === 'jpeg') format = 'jpg';
+  if (!(format in CONTENT_TYPES)) {
+    throw new Error(`Unsupported tile format ${format} (raster PNG, JPEG or WebP only)`);
+  }
+
+  let minZoom = parseInt(metadata.get('minzoom') ?? '');
+  let maxZoom = parseInt(metadata.get('maxzoom') ?? '');
+  if (!Number.isFinite(minZoom) || !Number.isFinite(maxZoom)) {
+    const range = db.prepare('SELECT MIN(zoom_level) AS min, MAX(zoom_level) AS max FROM tiles').get() as {
+      min: number | null;
+      max: number | null;
+    };
+    if (range.min === null || range.max === null) {
+      throw new Error('File has no tiles');
+    }
+    minZoom = range.min;
+    maxZoom = range.max;
+  }
+
+  const bounds = (metadata.get('bounds') ?? '').split(',').map(Number);
+
+  return {
+    id,
+    name: metadata.get('name') || id,
+    format: format as TileFormat,
+    minZoom,
+    maxZoom,
+    bounds: bounds.length === 4 && bounds.every(Number.isFinite) ? (bounds as MapLayer['bounds']) : null,
+    attribution: metadata.get('attribution') || null,
+    overlay: metadata.get('type') === 'overlay',
+  };
+}
+
+export class TileStore {
+  private sources = new Map<string, TileSource>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Open any new MBTiles files, close removed ones, and list the layers
+   */
+  async refresh(): Promise<{ layers: MapLayer[]; errors: TileLoadError[] }> {
+    const errors: TileLoadError[] = [];
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter((file) => file.toLowerCase().endsWith('.mbtiles')).sort();
+    } catch (err) {
+      // No tiles directory: online layers only
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      files = [];
+    }
+
+    for (const [id, source] of this.sources) {
+      if (!files.includes(source.file)) {
+        source.db.close();
+        this.sources.delete(id);
+      }
+    }
+
+    for (const file of files) {
+      const id = layerId(file);
+      const existing = this.sources.get(id);
+      if (existing?.file === file) continue;
+      if (existing) {
+        errors.push({ file, error: `Layer id ${id} is already used by ${existing.file}` });
+        continue;
+      }
+
+      let db: Database.Database | null = null;
+      try {
+        db = new Database(path.join(this.directory, file), { readonly: true, fileMustExist: true });
+        const layer = readLayer(db, id);
+        const select = db.prepare<[number, number, number], { tile_data: Buffer }>(
+          'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+        );
+        this.sources.set(id, { file, layer, db, select });
+      } catch (err) {
+        db?.close();
+        errors.push({ file, error: err instanceof Error ? err.message : 'Unreadable file' });
+      }
+    }
+
+    return { layers: this.getLayers(), errors };
+  }
+
+  /**
+   * Get the open layers, base layers first
+   */
+  getLayers(): MapLayer[] {
+    return [...this.sources.values()]
+      .map((source) => ({ ...source.layer }))
+      .sort((a, b) => Number(a.overlay) - Number(b.overlay) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Check if a layer is open
+   */
+  hasLayer(id: string): boolean {
+    return this.sources.has(id);
+  }
+
+  /**
+   * Get a tile by its XYZ (slippy map) coordinates, or null if the layer
+   * has no tile there
+   */
+  getTile(id: string, z: number, x: number, y: number): Tile | null {
+    const source = this.sources.get(id);
+    if (!source) return null;
+
+    const row = source.select.get(z, x, 2 ** z - 1 - y);
+    if (!row) return null;
+    return { data: row.tile_data, contentType: CONTENT_TYPES[source.layer.format] };
+  }
+}
+
+// Singleton instance
+let storeInstance: TileStore | null = null;
+
+/**
+ * Get the tile store for TILES_DIR (singleton)
+ */
+export function getTileStore(): TileStore {
+  if (!storeInstance) {
+    storeInstance = new TileStore(TILES_DIR);
+  }
+  return storeInstance;
+}
@@ -0,0 +1,226 @@
+/**
+ * Track Player
+ *
+ * Replays a recorded flight track through the GPS data server. Between fixes
+ * the position and altitude are interpolated, and ground speed, track and
+ * vertical speed are derived from the surrounding fixes. Supports pause,
+ * seek, loop and a playback speed multiplier.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { PlaybackState, TrackPoint } from '../../src/types/track.js';
+import { Track } from '../utils/trackParser.js';
+import { METERS_PER_NM, angleDifference, distanceBetween, initialBearing } from '../utils/geo.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * Playback tick interval (10 Hz, so every broadcast at up to the maximum
+ * 10 Hz update rate carries a freshly interpolated fix)
+ */
+const TICK_INTERVAL_MS = 100;
+
+/**
+ * Allowed playback speed multipliers
+ */
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 16;
+
+export class TrackPlayer {
+  private track: Track | null = null;
+  private playhead = 0; // Seconds into the track
+  private speed = 1;
+  private loop = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private lastTick = 0;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Load a track, replacing any track already loaded. Playback starts paused
+   * at the first fix.
+   */
+  load(track: Track): void {
+    this.pause();
+    this.track = track;
+    this.playhead = 0;
+    this.server.updatePosition(this.positionAt(0));
+  }
+
+  /**
+   * Unload the track
+   */
+  unload(): void {
+    this.pause();
+    this.track = null;
+    this.playhead = 0;
+  }
+
+  /**
+   * Start or resume playback
+   */
+  play(): void {
+    if (!this.track) {
+      throw new Error('No track loaded');
+    }
+    if (this.tickInterval) return;
+
+    // Restart from the beginning if playback had reached the end
+    if (this.playhead >= this.getDuration()) {
+      this.playhead = 0;
+    }
+
+    this.lastTick = performance.now();
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.server.getEventStream().publish({ type: 'state', engine: 'playback', running: true });
+  }
+
+  /**
+   * Pause playback, leaving the aircraft at the current point of the track
+   */
+  pause(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+      this.server.getEventStream().publish({ type: 'state', engine: 'playback', running: false });
+    }
+  }
+
+  /**
+   * Jump to a time (seconds from the start of the track)
+   */
+  seek(seconds: number): void {
+    if (!this.track) {
+      throw new Error('No track loaded');
+    }
+    this.playhead = Math.max(0, Math.min(this.getDuration(), seconds));
+    this.server.updatePosition(this.positionAt(this.playhead));
+  }
+
+  /**
+   * Set the playback speed multiplier and loop mode
+   */
+  setOptions(options: { speed?: number; loop?: boolean }): void {
+    if (options.speed !== undefined) {
+      this.speed = options.speed;
+    }
+    if (options.loop !== undefined) {
+      this.loop = options.loop;
+    }
+  }
+
+  /**
+   * Check if a track is playing
+   */
+  getIsPlaying(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  /**
+   * Get the fixes of the loaded track
+   */
+  getPoints(): TrackPoint[] {
+    return this.track ? this.track.points : [];
+  }
+
+  /**
+   * Get the playback state
+   */
+  getState(): PlaybackState {
+    return {
+      isLoaded: this.track !== null,
+      isPlaying: this.getIsPlaying(),
+      name: this.track?.name ?? null,
+      format: this.track?.format ?? null,
+      pointCount: this.track?.points.length ?? 0,
+      duration: this.getDuration(),
+      position: this.playhead,
+      speed: this.speed,
+      loop: this.loop,
+    };
+  }
+
+  /**
+   * Track duration in seconds
+   */
+  private getDuration(): number {
+    if (!this.track) return 0;
+    const points = this.track.points;
+    return (points[points.length - 1].timestamp - points[0].timestamp) / 1000;
+  }
+
+  /**
+   * Advance the playhead by the real time elapsed, scaled by playback speed
+   */
+  private tick(): void {
+    const now = performance.now();
+    const dt = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    const duration = this.getDuration();
+    this.playhead += dt * this.speed;
+
+    if (this.playhead >= duration) {
+      if (this.loop) {
+        this.playhead %= duration;
+      } else {
+        this.playhead = duration;
+        this.server.updatePosition(this.positionAt(duration));
+        this.pause();
+        console.log('Track playback finished');
+        return;
+      }
+    }
+
+    this.server.updatePosition(this.positionAt(this.playhead));
+  }
+
+  /**
+   * Interpolate the position at a time into the track
+   */
+  private positionAt(seconds: number): GPSPosition {
+    const points = this.track!.points;
+    const time = points[0].timestamp + seconds * 1000;
+
+    // Find the segment containing the time (binary search on timestamps)
+    let low = 0;
+    let high = points.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (points[mid].timestamp <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    // Skip zero-length segments (duplicate timestamps)
+    while (high < points.length - 1 && points[high].timestamp === points[low].timestamp) {
+      high++;
+    }
+
+    const from = points[low];
+    const to = points[high];
+    const segmentSeconds = (to.timestamp - from.timestamp) / 1000;
+    const fraction = segmentSeconds > 0
+      ? Math.max(0, Math.min(1, (time - from.timestamp) / 1000 / segmentSeconds))
+      : 0;
+
+    const distanceNm = distanceBetween(from.latitude, from.longitude, to.latitude, to.longitude) / METERS_PER_NM;
+    const hasMoved = distanceNm > 0;
+    // Go the short way across the antimeridian, wrapping back into [-180, 180)
+    const longitude = from.longitude + angleDifference(to.longitude, from.longitude) * fraction;
+
+    return {
+      latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+      longitude: ((longitude + 540) % 360) - 180,
+      altitude: from.altitude + (to.altitude - from.altitude) * fraction,
+      // Keep the previous track when stationary rather than snapping to north
+      heading: hasMoved
+        ? initialBearing(from.latitude, from.longitude, to.latitude, to.longitude)
+        : this.server.getCurrentPosition()?.heading ?? 0,
+      groundSpeed: segmentSeconds > 0 ? distanceNm / (segmentSeconds / 3600) : 0,
+      verticalSpeed: segmentSeconds > 0 ? ((to.altitude - from.altitude) / segmentSeconds) * 60 : 0,
+      timestamp: Date.now(),
+    };
+  }
+}
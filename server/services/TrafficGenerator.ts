@@ -0,0 +1,398 @@
+/**
+ * Traffic Generator
+ *
+ * Simulates synthetic ADS-B traffic around ownship. Each target flies its own
+ * behavior (orbiting a point, crossing on a straight line, flying a route in
+ * a loop, or converging on ownship) and is broadcast by the GPS data server
+ * as XTRAFFIC and GDL 90 Traffic Reports alongside the ownship position.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { TRAFFIC_BEHAVIORS, TrafficBehavior, TrafficDefinition, TrafficTarget } from '../../src/types/traffic.js';
+import { Waypoint } from '../../src/types/route.js';
+import {
+  METERS_PER_NM,
+  destinationPoint,
+  distanceBetween,
+  initialBearing,
+  knotsToMetersPerSecond,
+  normalizeHeading,
+  toDegrees,
+  turnToward,
+} from '../utils/geo.js';
+import { advancePosition } from './FlightEngine.js';
+import { RouteNavigator } from './RouteNavigator.js';
+import type { GPSDataServer } from './GPSDataServer.js';
+
+/**
+ * Simulation tick interval (10 Hz, matching the flight engine)
+ */
+const TICK_INTERVAL_MS = 100;
+
+/**
+ * Turn rate for targets that steer (degrees per second)
+ */
+const STANDARD_TURN_RATE = 3;
+
+/**
+ * Vertical speed used by converging targets that don't specify one (fpm)
+ */
+const DEFAULT_CONVERGING_VERTICAL_SPEED = 500;
+
+/**
+ * Traffic alert volume around ownship
+ */
+export const ALERT_RANGE_NM = 2;
+export const ALERT_ALTITUDE_FT = 600;
+
+/**
+ * Range of US civil ICAO addresses used for generated targets
+ */
+const ICAO_ADDRESS_MIN = 0xa00001;
+const ICAO_ADDRESS_MAX = 0xadf7c7;
+
+export class TrafficGenerator {
+  private targets = new Map<string, TrafficTarget>();
+  private navigators = new Map<string, RouteNavigator>();
+  private nextId = 1;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private lastTick = 0;
+
+  constructor(private readonly server: GPSDataServer) {}
+
+  /**
+   * Start moving the traffic
+   */
+  start(): void {
+    if (this.tickInterval) return;
+
+    this.lastTick = performance.now();
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop moving the traffic, leaving targets where they are
+   */
+  stop(): void {
+    if (!this.tickInterval) return;
+
+    clearInterval(this.tickInterval);
+    this.tickInterval = null;
+  }
+
+  /**
+   * Get all traffic targets
+   */
+  getTargets(): TrafficTarget[] {
+    return [...this.targets.values()];
+  }
+
+  /**
+   * Get a traffic target by ID
+   */
+  getTarget(id: string): TrafficTarget | null {
+    return this.targets.get(id) ?? null;
+  }
+
+  /**
+   * Add a traffic target, placed at the start of its behavior
+   */
+  add(definition: TrafficDefinition): TrafficTarget {
+    const id = `T${this.nextId++}`;
+    return this.place(id, definition);
+  }
+
+  /**
+   * Replace a traffic target's definition, restarting its behavior
+   */
+  update(id: string, definition: TrafficDefinition): TrafficTarget | null {
+    if (!this.targets.has(id)) {
+      return null;
+    }
+    return this.place(id, definition);
+  }
+
+  /**
+   * Remove a traffic target
+   */
+  remove(id: string): boolean {
+    this.navigators.delete(id);
+    return this.targets.delete(id);
+  }
+
+  /**
+   * Remove all traffic targets
+   */
+  clear(): void {
+    this.targets.clear();
+    this.navigators.clear();
+  }
+
+  /**
+   * Spawn a number of randomly placed targets around a position. Behaviors
+   * cycle through every behavior unless one is given.
+   */
+  spawn(count: number, around: GPSPosition, behavior?: TrafficBehavior): TrafficTarget[] {
+    const spawned: TrafficTarget[] = [];
+    for (let i = 0; i < count; i++) {
+      const targetBehavior = behavior ?? TRAFFIC_BEHAVIORS[i % TRAFFIC_BEHAVIORS.length];
+      spawned.push(this.add(this.randomDefinition(targetBehavior, around)));
+    }
+    return spawned;
+  }
+
+  /**
+   * Pick a random ICAO address not used by another target or by ownship
+   * (EFBs drop traffic that shares ownship's address)
+   */
+  allocateICAOAddress(): number {
+    const used = new Set(this.getTargets().map((target) => target.icaoAddress));
+    used.add(this.server.getConfig().ownshipAddress);
+    let address: number;
+    do {
+      address = ICAO_ADDRESS_MIN + Math.floor(Math.random() * (ICAO_ADDRESS_MAX - ICAO_ADDRESS_MIN));
+    } while (used.has(address));
+    return address;
+  }
+
+  /**
+   * Check if a target is inside the traffic alert volume around a position
+   */
+  static isAlert(target: TrafficTarget['position'], ownship: GPSPosition): boolean {
+    const range = distanceBetween(ownship.latitude, ownship.longitude, target.latitude, target.longitude);
+    return (
+      range <= ALERT_RANGE_NM * METERS_PER_NM &&
+      Math.abs(target.altitude - ownship.altitude) <= ALERT_ALTITUDE_FT
+    );
+  }
+
+  /**
+   * Create or replace a target at the start of its behavior
+   */
+  private place(id: string, definition: TrafficDefinition): TrafficTarget {
+    const ownship = this.server.getCurrentPosition();
+
+    // Targets without a start point (or orbit center) start at ownship
+    const latitude = definition.latitude ?? ownship?.latitude ?? 0;
+    const longitude = definition.longitude ?? ownship?.longitude ?? 0;
+
+    const position = {
+      latitude,
+      longitude,
+      altitude: definition.altitude,
+      track: definition.heading ?? 0,
+      groundSpeed: definition.groundSpeed,
+      verticalSpeed: definition.verticalSpeed ?? 0,
+    };
+
+    this.navigators.delete(id);
+
+    switch (definition.behavior) {
+      case 'orbit': {
+        // Start due north of the center, flying around it
+        const start = destinationPoint(latitude, longitude, 0, (definition.radius ?? 1) * METERS_PER_NM);
+        position.latitude = start.latitude;
+        position.longitude = start.longitude;
+        position.track = definition.clockwise === false ? 270 : 90;
+        break;
+      }
+      case 'route': {
+        const waypoints = definition.waypoints ?? [];
+        if (waypoints.length > 0) {
+          position.latitude = waypoints[0].latitude;
+          position.longitude = waypoints[0].longitude;
+        }
+        if (waypoints.length > 1) {
+          position.track = initialBearing(
+            waypoints[0].latitude,
+            waypoints[0].longitude,
+            waypoints[1].latitude,
+            waypoints[1].longitude
+          );
+          const navigator = new RouteNavigator();
+          navigator.setWaypoints(waypoints.slice(1).concat(waypoints[0]));
+          this.navigators.set(id, navigator);
+        }
+        break;
+      }
+      case 'converging':
+        if (ownship) {
+          position.track = initialBearing(position.latitude, position.longitude, ownship.latitude, ownship.longitude);
+        }
+        break;
+    }
+
+    const target: TrafficTarget = {
+      ...definition,
+      latitude,
+      longitude,
+      id,
+      position,
+      alert: ownship ? TrafficGenerator.isAlert(position, ownship) : false,
+    };
+    this.targets.set(id, target);
+    return target;
+  }
+
+  /**
+   * Advance every target by the real time elapsed since the last tick
+   */
+  private tick(): void {
+    const now = performance.now();
+    const dt = (now - this.lastTick) / 1000; // seconds
+    this.lastTick = now;
+
+    const ownship = this.server.getCurrentPosition();
+    for (const target of this.targets.values()) {
+      target.position = this.advanceTarget(target, ownship, dt);
+      target.alert = ownship ? TrafficGenerator.isAlert(target.position, ownship) : false;
+    }
+  }
+
+  /**
+   * Move a target along its behavior by dt seconds
+   */
+  private advanceTarget(
+    target: TrafficTarget,
+    ownship: GPSPosition | null,
+    dt: number
+  ): TrafficTarget['position'] {
+    const { position } = target;
+
+    if (target.behavior === 'orbit') {
+      const center = { latitude: target.latitude ?? 0, longitude: target.longitude ?? 0 };
+      const radius = (target.radius ?? 1) * METERS_PER_NM;
+      const clockwise = target.clockwise !== false;
+      const angle = initialBearing(center.latitude, center.longitude, position.latitude, position.longitude);
+      const sweep = toDegrees((knotsToMetersPerSecond(position.groundSpeed) * dt) / radius);
+      const nextAngle = normalizeHeading(angle + (clockwise ? sweep : -sweep));
+      const next = destinationPoint(center.latitude, center.longitude, nextAngle, radius);
+
+      return {
+        ...position,
+        latitude: next.latitude,
+        longitude: next.longitude,
+        altitude: position.altitude + (position.verticalSpeed / 60) * dt,
+        track: normalizeHeading(nextAngle + (clockwise ? 90 : -90)),
+      };
+    }
+
+    let { track, verticalSpeed } = position;
+
+    if (target.behavior === 'route') {
+      const navigator = this.navigators.get(target.id);
+      if (navigator) {
+        const desiredTrack = navigator.guide(toGPSPosition(position), STANDARD_TURN_RATE);
+        if (desiredTrack !== null) {
+          track = turnToward(track, desiredTrack, STANDARD_TURN_RATE * dt);
+        }
+        // Fly the route in a loop
+        if (navigator.getState().isComplete) {
+          navigator.setWaypoints(navigator.getState().waypoints);
+        }
+      }
+    } else if (target.behavior === 'converging' && ownship) {
+      const bearing = initialBearing(position.latitude, position.longitude, ownship.latitude, ownship.longitude);
+      track = turnToward(track, bearing, STANDARD_TURN_RATE * dt);
+
+      // Climb or descend toward ownship's altitude without overshooting it
+      const rate = Math.abs(target.verticalSpeed ?? DEFAULT_CONVERGING_VERTICAL_SPEED);
+      const altitudeError = ownship.altitude - position.altitude;
+      if (Math.abs(altitudeError) <= (rate / 60) * dt) {
+        return { ...advanced(position, track, 0, dt), altitude: ownship.altitude };
+      }
+      verticalSpeed = Math.sign(altitudeError) * rate;
+    }
+
+    return advanced(position, track, verticalSpeed, dt);
+  }
+
+  /**
+   * Generate a random target of the given behavior near a position
+   */
+  private randomDefinition(behavior: TrafficBehavior, around: GPSPosition): TrafficDefinition {
+    const range = (2 + Math.random() * 6) * METERS_PER_NM;
+    const start = destinationPoint(around.latitude, around.longitude, Math.random() * 360, range);
+    const altitudeOffset = (Math.random() < 0.5 ? -1 : 1) * (5 + Math.floor(Math.random() * 26)) * 100;
+
+    const definition: TrafficDefinition = {
+      callsign: randomCallsign(),
+      icaoAddress: this.allocateICAOAddress(),
+      altitude: Math.max(500, Math.round(around.altitude / 100) * 100 + altitudeOffset),
+      groundSpeed: 90 + Math.round(Math.random() * 160),
+      behavior,
+      latitude: start.latitude,
+      longitude: start.longitude,
+    };
+
+    switch (behavior) {
+      case 'orbit':
+        definition.radius = 1 + Math.round(Math.random() * 20) / 10;
+        definition.clockwise = Math.random() < 0.5;
+        break;
+      case 'crossing': {
+        // Aim a couple of miles ahead of ownship so the target crosses its path
+        const ahead = destinationPoint(around.latitude, around.longitude, around.heading, 2 * METERS_PER_NM);
+        definition.heading = initialBearing(start.latitude, start.longitude, ahead.latitude, ahead.longitude);
+        break;
+      }
+      case 'route':
+        definition.waypoints = [0, 120, 240].map((bearing): Waypoint => {
+          const point = destinationPoint(start.latitude, start.longitude, bearing, 3 * METERS_PER_NM);
+          return { latitude: point.latitude, longitude: point.longitude };
+        });
+        break;
+      case 'converging':
+        definition.altitude = Math.max(500, Math.round(around.altitude / 100) * 100 + (altitudeOffset > 0 ? 1000 : -1000));
+        definition.verticalSpeed = DEFAULT_CONVERGING_VERTICAL_SPEED;
+        break;
+    }
+
+    return definition;
+  }
+}
+
+/**
+ * Move a target position straight ahead on a track for dt seconds
+ */
+function advanced(
+  position: TrafficTarget['position'],
+  track: number,
+  verticalSpeed: number,
+  dt: number
+): TrafficTarget['position'] {
+  const next = advancePosition({ ...toGPSPosition(position), heading: track, verticalSpeed }, dt);
+  return {
+    ...position,
+    latitude: next.latitude,
+    longitude: next.longitude,
+    altitude: next.altitude,
+    track,
+    verticalSpeed,
+  };
+}
+
+/**
+ * View a target position as a GPS position for the shared navigation code
+ */
+function toGPSPosition(position: TrafficTarget['position']): GPSPosition {
+  return {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    altitude: position.altitude,
+    heading: position.track,
+    groundSpeed: position.groundSpeed,
+    verticalSpeed: position.verticalSpeed,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Generate a US-style N-number callsign (e.g., N482KT)
+ */
+export function randomCallsign(): string {
+  const letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  const digits = 100 + Math.floor(Math.random() * 900);
+  const suffix = Array.from({ length: 2 }, () => letters[Math.floor(Math.random() * letters.length)]).join('');
+  return `N${digits}${suffix}`;
+}
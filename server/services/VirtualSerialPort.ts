@@ -0,0 +1,191 @@
+/**
+ * Virtual Serial Port
+ *
+ * Creates a pseudo-terminal (pty) using socat and exposes it at a stable
+ * symlink path (e.g., /tmp/flightsim-gps). Desktop navigation software and
+ * gpsd can open the path like a real serial GPS receiver.
+ *
+ * Writes are paced to the configured baud rate (8N1 = 10 bits per byte) so
+ * that readers see the same throughput as a hardware receiver.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * How often queued bytes are drained to the pty
+ */
+const DRAIN_INTERVAL_MS = 100;
+
+/**
+ * Maximum amount of queued output, in seconds of line time, before old data
+ * is discarded (a real receiver would overrun its buffer the same way)
+ */
+const MAX_QUEUE_SECONDS = 2;
+
+/**
+ * Time to wait for socat to create the pty symlink
+ */
+const OPEN_TIMEOUT_MS = 3000;
+
+export class VirtualSerialPort {
+  private process: ChildProcess | null = null;
+  private queue: Buffer[] = [];
+  private queuedBytes = 0;
+  private drainInterval: NodeJS.Timeout | null = null;
+  private isOpen = false;
+
+  constructor(
+    private readonly path: string,
+    private readonly baudRate: number
+  ) {}
+
+  /**
+   * Create the pty and start draining queued output
+   */
+  async open(): Promise<void> {
+    if (this.isOpen) {
+      throw new Error('Virtual serial port is already open');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(
+        'socat',
+        ['-d', '-d', 'STDIO', `PTY,link=${this.path},raw,echo=0,b${this.baudRate}`],
+        { stdio: ['pipe', 'ignore', 'pipe'] }
+      );
+      this.process = child;
+
+      const timeout = setTimeout(() => {
+        child.kill();
+        reject(new Error('Timed out waiting for socat to create the virtual serial port'));
+      }, OPEN_TIMEOUT_MS);
+
+      child.on('error', (err: NodeJS.ErrnoException) => {
+        clearTimeout(timeout);
+        this.process = null;
+        if (err.code === 'ENOENT') {
+          reject(new Error('socat is required for virtual serial output. Install it with your package manager (e.g., apt install socat).'));
+        } else {
+          reject(err);
+        }
+      });
+
+      child.on('exit', (code) => {
+        clearTimeout(timeout);
+        if (this.isOpen) {
+          console.error(`Virtual serial port process exited (code ${code})`);
+          this.close();
+        } else {
+          if (this.process === child) {
+            this.process = null;
+          }
+          reject(new Error(`socat exited before the virtual serial port was created (code ${code})`));
+        }
+      });
+
+      // socat logs the allocated pty once it is ready ("PTY is /dev/pts/N")
+      child.stderr?.on('data', (data: Buffer) => {
+        const match = /PTY is (\S+)/.exec(data.toString());
+        if (match && !this.isOpen) {
+          clearTimeout(timeout);
+          this.isOpen = true;
+          console.log(`Virtual serial port ${this.path} -> ${match[1]} (${this.baudRate} baud)`);
+          resolve();
+        }
+      });
+
+      // Writing to the pty with no reader attached must not crash the server
+      child.stdin?.on('error', (err) => {
+        console.error('Virtual serial port write error:', err.message);
+      });
+    });
+
+    this.drainInterval = setInterval(() => this.drain(), DRAIN_INTERVAL_MS);
+  }
+
+  /**
+   * Close the pty and discard any queued output
+   */
+  close(): void {
+    if (this.drainInterval) {
+      clearInterval(this.drainInterval);
+      this.drainInterval = null;
+    }
+
+    this.queue = [];
+    this.queuedBytes = 0;
+    this.isOpen = false;
+
+    if (this.process) {
+      const child = this.process;
+      this.process = null;
+      child.kill();
+    }
+  }
+
+  /**
+   * Queue data for transmission at the configured baud rate
+   */
+  write(data: Buffer): void {
+    if (!this.isOpen) return;
+
+    this.queue.push(data);
+    this.queuedBytes += data.length;
+
+    // Drop the oldest messages if the reader can't keep up with the line rate
+    const maxBytes = this.bytesPerSecond() * MAX_QUEUE_SECONDS;
+    while (this.queuedBytes > maxBytes && this.queue.length > 1) {
+      const dropped = this.queue.shift()!;
+      this.queuedBytes -= dropped.length;
+    }
+  }
+
+  /**
+   * Get the symlink path of the pty
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Check if the pty is open
+   */
+  getIsOpen(): boolean {
+    return this.isOpen;
+  }
+
+  /**
+   * Bytes per second at the configured baud rate (8 data bits, start and stop bit)
+   */
+  private bytesPerSecond(): number {
+    return this.baudRate / 10;
+  }
+
+  /**
+   * Write as many queued bytes as the baud rate allows for one drain interval
+   */
+  private drain(): void {
+    const stdin = this.process?.stdin;
+    if (!stdin || this.queue.length === 0) return;
+
+    let budget = Math.max(1, Math.floor((this.bytesPerSecond() * DRAIN_INTERVAL_MS) / 1000));
+    const chunks: Buffer[] = [];
+
+    while (budget > 0 && this.queue.length > 0) {
+      const head = this.queue[0];
+      if (head.length <= budget) {
+        chunks.push(head);
+        budget -= head.length;
+        this.queue.shift();
+      } else {
+        chunks.push(head.subarray(0, budget));
+        this.queue[0] = head.subarray(budget);
+        budget = 0;
+      }
+    }
+
+    const output = Buffer.concat(chunks);
+    this.queuedBytes -= output.length;
+    stdin.write(output);
+  }
+}
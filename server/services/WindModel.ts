@@ -0,0 +1,153 @@
+/**
+ * Wind Model
+ *
+ * Provides the wind at any altitude and solves the wind triangle so the
+ * flight engine can separate air-referenced heading and true airspeed from
+ * track and ground speed.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { WindConfig, WindLayer } from '../../src/types/wind.js';
+import { angleDifference, normalizeHeading, toDegrees, toRadians } from '../utils/geo.js';
+
+export class WindModel {
+  private config: WindConfig = { direction: 0, speed: 0, layers: [] };
+
+  /**
+   * Get the wind configuration
+   */
+  getConfig(): WindConfig {
+    return {
+      ...this.config,
+      layers: this.config.layers.map((layer) => ({ ...layer })),
+    };
+  }
+
+  /**
+   * Replace the wind configuration
+   */
+  setConfig(config: WindConfig): void {
+    this.config = {
+      direction: normalizeHeading(config.direction),
+      speed: config.speed,
+      layers: [...config.layers]
+        .map((layer) => ({ ...layer, direction: normalizeHeading(layer.direction) }))
+        .sort((a, b) => a.altitude - b.altitude),
+    };
+  }
+
+  /**
+   * Get the wind at an altitude (feet MSL)
+   */
+  getWindAt(altitude: number): { direction: number; speed: number } {
+    const layers = this.config.layers;
+    if (layers.length === 0) {
+      return { direction: this.config.direction, speed: this.config.speed };
+    }
+
+    // Hold the lowest/highest layer outside the layered range
+    if (altitude <= layers[0].altitude) return toWind(layers[0]);
+    if (altitude >= layers[layers.length - 1].altitude) return toWind(layers[layers.length - 1]);
+
+    const upperIndex = layers.findIndex((layer) => layer.altitude > altitude);
+    const lower = layers[upperIndex - 1];
+    const upper = layers[upperIndex];
+    const fraction = (altitude - lower.altitude) / (upper.altitude - lower.altitude);
+
+    // Interpolate the wind vectors so direction changes take the short way round
+    const [lowerNorth, lowerEast] = windComponents(lower);
+    const [upperNorth, upperEast] = windComponents(upper);
+    const north = lowerNorth + (upperNorth - lowerNorth) * fraction;
+    const east = lowerEast + (upperEast - lowerEast) * fraction;
+
+    return {
+      direction: normalizeHeading(toDegrees(Math.atan2(east, north))),
+      speed: Math.hypot(north, east),
+    };
+  }
+
+  /**
+   * Fill in track and ground speed from the position's true heading and
+   * airspeed (falling back to the ground values when they are unset)
+   */
+  applyAirData(position: GPSPosition): GPSPosition {
+    const trueHeading = position.trueHeading ?? position.heading;
+    const trueAirspeed = position.trueAirspeed ?? position.groundSpeed;
+    const { track, groundSpeed } = applyWind(trueHeading, trueAirspeed, this.getWindAt(position.altitude));
+
+    return { ...position, heading: track, groundSpeed, trueHeading, trueAirspeed };
+  }
+
+  /**
+   * Fill in true heading and airspeed from the position's track and ground
+   * speed, so that the given ground vector is flown in the current wind
+   */
+  deriveAirData(position: GPSPosition): GPSPosition {
+    const wind = this.getWindAt(position.altitude);
+    const heading = toRadians(position.heading);
+    const [windNorth, windEast] = windComponents(wind);
+
+    const north = position.groundSpeed * Math.cos(heading) + windNorth;
+    const east = position.groundSpeed * Math.sin(heading) + windEast;
+    const trueAirspeed = Math.hypot(north, east);
+
+    return {
+      ...position,
+      trueHeading: trueAirspeed > 0.01 ? normalizeHeading(toDegrees(Math.atan2(east, north))) : position.heading,
+      trueAirspeed,
+    };
+  }
+}
+
+function toWind(layer: WindLayer): { direction: number; speed: number } {
+  return { direction: layer.direction, speed: layer.speed };
+}
+
+/**
+ * North and east components of the direction the wind blows from
+ */
+function windComponents(wind: { direction: number; speed: number }): [number, number] {
+  const direction = toRadians(wind.direction);
+  return [wind.speed * Math.cos(direction), wind.speed * Math.sin(direction)];
+}
+
+/**
+ * Combine the air vector with the wind to get track and ground speed
+ */
+export function applyWind(
+  trueHeading: number,
+  trueAirspeed: number,
+  wind: { direction: number; speed: number }
+): { track: number; groundSpeed: number } {
+  const heading = toRadians(trueHeading);
+  const [windNorth, windEast] = windComponents(wind);
+
+  // Wind blows *from* its direction, so subtract its components
+  const north = trueAirspeed * Math.cos(heading) - windNorth;
+  const east = trueAirspeed * Math.sin(heading) - windEast;
+  const groundSpeed = Math.hypot(north, east);
+
+  return {
+    track: groundSpeed > 0.01 ? normalizeHeading(toDegrees(Math.atan2(east, north))) : trueHeading,
+    groundSpeed,
+  };
+}
+
+/**
+ * Heading to fly to make good a desired track (wind correction angle
+ * applied). If the crosswind exceeds the airspeed, the correction is capped
+ * at 90 degrees into the wind.
+ */
+export function headingForTrack(
+  track: number,
+  trueAirspeed: number,
+  wind: { direction: number; speed: number }
+): number {
+  if (trueAirspeed <= 0 || wind.speed <= 0) {
+    return track;
+  }
+
+  const crosswindRatio = (wind.speed * Math.sin(toRadians(angleDifference(wind.direction, track)))) / trueAirspeed;
+  const correction = toDegrees(Math.asin(Math.max(-1, Math.min(1, crosswindRatio))));
+  return normalizeHeading(track + correction);
+}
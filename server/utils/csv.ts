@@ -0,0 +1,66 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 CSV reading: quoted fields may contain commas, newlines and
+ * doubled quotes (""), as in the OurAirports data files.
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ */
+export function parseCSVRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export function parseCSVRecords(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCSVRows(content);
+  if (!header) return [];
+
+  return rows
+    .filter((row) => row.length > 1 || row[0] !== '')
+    .map((row) => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ''])));
+}
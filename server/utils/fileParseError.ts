@@ -0,0 +1,30 @@
+/**
+ * File Parse Error
+ *
+ * Thrown by the flight plan and track file parsers. Carries the detected
+ * format and, when known, the line number so the UI can show where an
+ * uploaded file is broken.
+ */
+
+export class FileParseError extends Error {
+  constructor(
+    message: string,
+    public readonly format: string,
+    public readonly line?: number
+  ) {
+    super(message);
+    this.name = 'FileParseError';
+  }
+
+  /**
+   * JSON body returned by the API for this error
+   */
+  toResponse(error: string): { error: string; details: string; format: string; line?: number } {
+    return {
+      error,
+      details: this.line !== undefined ? `Line ${this.line}: ${this.message}` : this.message,
+      format: this.format,
+      ...(this.line !== undefined && { line: this.line }),
+    };
+  }
+}
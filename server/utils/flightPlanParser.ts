@@ -0,0 +1,291 @@
+/**
+ * Flight Plan Parser
+ *
+ * Parses flight plans exported from EFBs and planning tools into an ordered
+ * list of waypoints:
+ * - GPX: <rte>/<rtept> route points (falls back to <wpt> waypoints)
+ * - KML: a LineString path, named by matching Point placemarks
+ *        (falls back to Point placemarks in document order)
+ * - Garmin .fpl: <route>/<route-point> entries resolved against the
+ *        <waypoint-table>
+ */
+
+import { Waypoint } from '../../src/types/route.js';
+import { FileParseError } from './fileParseError.js';
+import { XMLList, XMLNode, XMLText, asArray, findAll, parseXMLDocument, textOf } from './xml.js';
+
+export type FlightPlanFormat = 'gpx' | 'kml' | 'fpl';
+
+export interface FlightPlan {
+  name?: string;
+  format: FlightPlanFormat;
+  waypoints: Waypoint[];
+}
+
+interface GPXPoint {
+  '@_lat'?: string;
+  '@_lon'?: string;
+  ele?: XMLText;
+  name?: XMLText;
+}
+
+interface GPXDocument {
+  gpx?: {
+    metadata?: { name?: XMLText };
+    rte?: XMLList<{ name?: XMLText; rtept?: XMLList<GPXPoint> }>;
+    wpt?: XMLList<GPXPoint>;
+  };
+}
+
+interface KMLPlacemark {
+  name?: XMLText;
+  Point?: XMLList<{ coordinates?: XMLText }>;
+}
+
+interface KMLDocument {
+  kml?: XMLNode;
+}
+
+interface FPLWaypoint {
+  identifier?: XMLText;
+  type?: XMLText;
+  lat?: XMLText;
+  lon?: XMLText;
+}
+
+interface FPLRoutePoint {
+  'waypoint-identifier'?: XMLText;
+  'waypoint-type'?: XMLText;
+}
+
+interface FPLDocument {
+  'flight-plan'?: {
+    'waypoint-table'?: { waypoint?: XMLList<FPLWaypoint> };
+    route?: XMLList<{ 'route-name'?: XMLText; 'route-point'?: XMLList<FPLRoutePoint> }>;
+  };
+}
+
+/**
+ * Convert meters to feet
+ */
+function metersToFeet(meters: number): number {
+  return meters / 0.3048;
+}
+
+/**
+ * Detect the flight plan format from the file name, falling back to the
+ * root element of the document
+ */
+export function detectFlightPlanFormat(content: string, filename?: string): FlightPlanFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'fpl') {
+    return extension;
+  }
+
+  if (/<gpx[\s>]/i.test(content)) return 'gpx';
+  if (/<kml[\s>]/i.test(content)) return 'kml';
+  if (/<flight-plan[\s>]/i.test(content)) return 'fpl';
+
+  throw new FileParseError(
+    'Unrecognized flight plan format. Supported formats: GPX, KML, Garmin FPL',
+    extension ?? 'unknown'
+  );
+}
+
+/**
+ * Parse a flight plan file into waypoints
+ */
+export function parseFlightPlan(content: string, filename?: string): FlightPlan {
+  const format = detectFlightPlanFormat(content, filename);
+  const document = parseXMLDocument(content, format);
+
+  let plan: FlightPlan;
+  switch (format) {
+    case 'gpx':
+      plan = parseGPX(document as GPXDocument);
+      break;
+    case 'kml':
+      plan = parseKML(document as KMLDocument);
+      break;
+    case 'fpl':
+      plan = parseFPL(document as FPLDocument);
+      break;
+  }
+
+  if (plan.waypoints.length === 0) {
+    throw new FileParseError('Flight plan contains no waypoints', format);
+  }
+
+  return plan;
+}
+
+/**
+ * Parse a coordinate value, throwing if it is missing, empty or out of range
+ */
+function parseCoordinate(
+  value: XMLText | undefined,
+  limit: number,
+  label: string,
+  format: FlightPlanFormat,
+  waypointLabel: string
+): number {
+  const text = textOf(value)?.trim() ?? '';
+  const number = Number(text);
+  // Number('') is 0, so an empty value would otherwise be read as 0°
+  if (text === '' || !Number.isFinite(number) || Math.abs(number) > limit) {
+    throw new FileParseError(`${waypointLabel}: invalid ${label} "${text}"`, format);
+  }
+  return number;
+}
+
+/**
+ * Build a waypoint, omitting optional fields that aren't present
+ */
+function buildWaypoint(latitude: number, longitude: number, altitude?: number, name?: string): Waypoint {
+  return {
+    latitude,
+    longitude,
+    ...(altitude !== undefined && Number.isFinite(altitude) && { altitude: Math.round(altitude) }),
+    ...(name && { name }),
+  };
+}
+
+function parseGPX(document: GPXDocument): FlightPlan {
+  const gpx = document.gpx;
+  if (!gpx) {
+    throw new FileParseError('Missing <gpx> root element', 'gpx');
+  }
+
+  const route = asArray(gpx.rte)[0];
+  const points = route ? asArray(route.rtept) : asArray(gpx.wpt);
+
+  const waypoints = points.map((point, index) => {
+    const label = `Waypoint ${index + 1}`;
+    const latitude = parseCoordinate(point['@_lat'], 90, 'latitude', 'gpx', label);
+    const longitude = parseCoordinate(point['@_lon'], 180, 'longitude', 'gpx', label);
+    const elevation = textOf(point.ele);
+    return buildWaypoint(
+      latitude,
+      longitude,
+      elevation !== undefined ? metersToFeet(Number(elevation)) : undefined,
+      textOf(point.name)
+    );
+  });
+
+  return {
+    name: textOf(route?.name) ?? textOf(gpx.metadata?.name),
+    format: 'gpx',
+    waypoints,
+  };
+}
+
+/**
+ * Parse a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+ */
+function parseKMLCoordinates(text: string | undefined, label: string): Waypoint[] {
+  if (!text) return [];
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple, index) => {
+      const [lon, lat, alt] = tuple.split(',');
+      const pointLabel = `${label} point ${index + 1}`;
+      const longitude = parseCoordinate(lon, 180, 'longitude', 'kml', pointLabel);
+      const latitude = parseCoordinate(lat, 90, 'latitude', 'kml', pointLabel);
+      const altitude = alt !== undefined && Number(alt) !== 0 ? metersToFeet(Number(alt)) : undefined;
+      return buildWaypoint(latitude, longitude, altitude);
+    });
+}
+
+function parseKML(document: KMLDocument): FlightPlan {
+  if (!document.kml) {
+    throw new FileParseError('Missing <kml> root element', 'kml');
+  }
+
+  const placemarks = findAll(document.kml, 'Placemark') as KMLPlacemark[];
+
+  // Named points, used both as a fallback route and to name path vertices
+  const namedPoints: Waypoint[] = [];
+  placemarks.forEach((placemark, index) => {
+    for (const point of asArray(placemark.Point)) {
+      const [waypoint] = parseKMLCoordinates(textOf(point.coordinates), `Placemark ${index + 1}`);
+      if (waypoint) {
+        namedPoints.push({ ...waypoint, ...(textOf(placemark.name) && { name: textOf(placemark.name) }) });
+      }
+    }
+  });
+
+  const [lineString] = findAll(document.kml, 'LineString') as { coordinates?: XMLText }[];
+  let waypoints: Waypoint[];
+
+  if (lineString) {
+    waypoints = parseKMLCoordinates(textOf(lineString.coordinates), 'LineString').map((vertex) => {
+      const match = namedPoints.find(
+        (point) =>
+          Math.abs(point.latitude - vertex.latitude) < 1e-5 &&
+          Math.abs(point.longitude - vertex.longitude) < 1e-5
+      );
+      return match?.name ? { ...vertex, name: match.name } : vertex;
+    });
+  } else {
+    waypoints = namedPoints;
+  }
+
+  const [kmlDocument] = findAll(document.kml, 'Document') as { name?: XMLText }[];
+
+  return {
+    name: textOf(kmlDocument?.name),
+    format: 'kml',
+    waypoints,
+  };
+}
+
+function parseFPL(document: FPLDocument): FlightPlan {
+  const flightPlan = document['flight-plan'];
+  if (!flightPlan) {
+    throw new FileParseError('Missing <flight-plan> root element', 'fpl');
+  }
+
+  // Index the waypoint table by identifier and type
+  const table = new Map<string, Waypoint>();
+  asArray(flightPlan['waypoint-table']?.waypoint).forEach((entry, index) => {
+    const identifier = textOf(entry.identifier);
+    if (!identifier) {
+      throw new FileParseError(`Waypoint table entry ${index + 1}: missing identifier`, 'fpl');
+    }
+    const label = `Waypoint ${identifier}`;
+    const latitude = parseCoordinate(entry.lat, 90, 'latitude', 'fpl', label);
+    const longitude = parseCoordinate(entry.lon, 180, 'longitude', 'fpl', label);
+    const waypoint = buildWaypoint(latitude, longitude, undefined, identifier);
+    table.set(`${identifier}|${textOf(entry.type) ?? ''}`, waypoint);
+    // Also allow lookup by identifier alone
+    if (!table.has(identifier)) {
+      table.set(identifier, waypoint);
+    }
+  });
+
+  const route = asArray(flightPlan.route)[0];
+  const routePoints = asArray(route?.['route-point']);
+
+  const waypoints = routePoints.map((point, index) => {
+    const identifier = textOf(point['waypoint-identifier']);
+    const type = textOf(point['waypoint-type']) ?? '';
+    const waypoint = identifier
+      ? table.get(`${identifier}|${type}`) ?? table.get(identifier)
+      : undefined;
+    if (!waypoint) {
+      throw new FileParseError(
+        `Route point ${index + 1}: waypoint "${identifier ?? ''}" not found in waypoint table`,
+        'fpl'
+      );
+    }
+    return { ...waypoint };
+  });
+
+  return {
+    name: textOf(route?.['route-name']),
+    format: 'fpl',
+    waypoints,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * GDL 90 Encoder Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHeartbeatMessage, frameMessage } from './gdl90Encoder.js';
+
+describe('frameMessage', () => {
+  it('frames the GDL 90 spec sample heartbeat with CRC 0x8BB3, low byte first', () => {
+    const framed = frameMessage(Buffer.from([0x00, 0x81, 0x41, 0xdb, 0xd0, 0x08, 0x02]));
+    assert.deepEqual(
+      [...framed],
+      [0x7e, 0x00, 0x81, 0x41, 0xdb, 0xd0, 0x08, 0x02, 0xb3, 0x8b, 0x7e]
+    );
+  });
+
+  it('escapes flag and control-escape bytes', () => {
+    const framed = frameMessage(Buffer.from([0x7e, 0x7d]));
+    assert.deepEqual([...framed.subarray(0, 5)], [0x7e, 0x7d, 0x5e, 0x7d, 0x5d]);
+    assert.equal(framed[framed.length - 1], 0x7e);
+  });
+});
+
+describe('createHeartbeatMessage', () => {
+  it('sends the timestamp least significant byte first', () => {
+    // 14:51:07 UTC is 53467 (0xD0DB) seconds since midnight
+    const heartbeat = createHeartbeatMessage(true, new Date(Date.UTC(2024, 0, 1, 14, 51, 7)));
+    assert.deepEqual([...heartbeat], [...frameMessage(Buffer.from([0x00, 0x81, 0x00, 0xdb, 0xd0, 0x00, 0x00]))]);
+  });
+
+  it('puts timestamp bit 16 in bit 7 of status byte 2', () => {
+    // 23:59:59 UTC is 86399 (0x1517F) seconds since midnight
+    const heartbeat = createHeartbeatMessage(false, new Date(Date.UTC(2024, 0, 1, 23, 59, 59)));
+    assert.deepEqual([...heartbeat], [...frameMessage(Buffer.from([0x00, 0x01, 0x80, 0x7f, 0x51, 0x00, 0x00]))]);
+  });
+});
@@ -15,21 +15,29 @@ const FLAG_BYTE = 0x7e;
 const ESCAPE_BYTE = 0x7d;
 
 /**
- * Calculate CRC for GDL 90 message
+ * CRC-CCITT lookup table (polynomial 0x1021), as given in the GDL 90 spec
+ */
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = ((crc << 1) ^ (crc & 0x8000 ? 0x1021 : 0)) & 0xffff;
+    }
+    table[i] = crc;
+  }
+  return table;
+})();
+
+/**
+ * Calculate the Frame Check Sequence of a GDL 90 message (before escaping)
  */
 function calculateCRC(data: Buffer): number {
   let crc = 0;
   for (let i = 0; i < data.length; i++) {
-    crc ^= data[i];
-    for (let j = 0; j < 8; j++) {
-      if (crc & 0x8000) {
-        crc = (crc << 1) ^ 0x1021;
-      } else {
-        crc = crc << 1;
-      }
-    }
+    crc = (CRC16_TABLE[crc >> 8] ^ (crc << 8) ^ data[i]) & 0xffff;
   }
-  return crc & 0xffff;
+  return crc;
 }
 
 /**
@@ -49,6 +57,26 @@ function escapeData(data: Buffer): Buffer {
   return Buffer.from(escaped);
 }
 
+/**
+ * Frame a message for transmission: append the CRC (least significant
+ * byte first), escape flag and control-escape bytes, and add flag bytes
+ */
+export function frameMessage(payload: Buffer): Buffer {
+  const crc = calculateCRC(payload);
+  const message = Buffer.alloc(payload.length + 2);
+  payload.copy(message, 0);
+  message[payload.length] = crc & 0xff;
+  message[payload.length + 1] = (crc >> 8) & 0xff;
+
+  const escaped = escapeData(message);
+  const framed = Buffer.alloc(escaped.length + 2);
+  framed[0] = FLAG_BYTE;
+  escaped.copy(framed, 1);
+  framed[framed.length - 1] = FLAG_BYTE;
+
+  return framed;
+}
+
 /**
  * Encode latitude to GDL 90 format (24-bit signed integer)
  */
@@ -104,109 +132,160 @@ function encodeVerticalVelocity(vsFpm: number): number {
  * Encode track/heading to GDL 90 format
  */
 function encodeTrackHeading(heading: number): number {
-  // Track/heading is encoded as angle/1.4 degrees (8-bit value)
-  return Math.round((heading / 1.4) * (256 / 360)) & 0xff;
+  // Track/heading is encoded in units of 360/256 degrees (8-bit value)
+  return Math.round((heading * 256) / 360) & 0xff;
 }
 
 /**
  * Create GDL 90 Heartbeat message
  */
-export function createHeartbeatMessage(): Buffer {
+export function createHeartbeatMessage(gpsPositionValid: boolean = true, time: Date = new Date()): Buffer {
   const payload = Buffer.alloc(7);
   payload[0] = GDL90MessageId.HEARTBEAT;
 
-  // Status byte 1: GPS position valid
-  payload[1] = 0x81; // UAT initialized, GPS position valid
-
-  // Status byte 2
-  payload[2] = 0x00;
+  // Status byte 1: GPS position valid, UAT initialized
+  payload[1] = gpsPositionValid ? 0x81 : 0x01;
 
-  // Timestamp (seconds since midnight UTC, 17-bit value)
-  const now = new Date();
+  // Timestamp: seconds since midnight UTC (17 bits). Bit 16 is the most
+  // significant bit of status byte 2; the low 16 bits follow, LSB first.
   const secondsSinceMidnight =
-    now.getUTCHours() * 3600 + now.getUTCMinutes() * 60 + now.getUTCSeconds();
-  payload[3] = (secondsSinceMidnight >> 16) & 0x01;
+    time.getUTCHours() * 3600 + time.getUTCMinutes() * 60 + time.getUTCSeconds();
+  payload[2] = (secondsSinceMidnight >> 16) & 0x01 ? 0x80 : 0x00;
+  payload[3] = secondsSinceMidnight & 0xff;
   payload[4] = (secondsSinceMidnight >> 8) & 0xff;
-  payload[5] = secondsSinceMidnight & 0xff;
 
-  // Message counts
+  // Message counts (none received)
+  payload[5] = 0x00;
   payload[6] = 0x00;
 
-  // Calculate CRC
-  const crc = calculateCRC(payload);
-  const message = Buffer.alloc(9);
-  payload.copy(message, 0);
-  message[7] = (crc >> 8) & 0xff;
-  message[8] = crc & 0xff;
+  return frameMessage(payload);
+}
 
-  // Escape and frame
-  const escaped = escapeData(message);
-  const framed = Buffer.alloc(escaped.length + 2);
-  framed[0] = FLAG_BYTE;
-  escaped.copy(framed, 1);
-  framed[framed.length - 1] = FLAG_BYTE;
+/**
+ * Fields shared by GDL 90 Ownship and Traffic Reports
+ */
+export interface GDL90ReportData {
+  address: number;          // 24-bit ICAO address
+  latitude: number;         // Degrees
+  longitude: number;        // Degrees
+  altitude: number;         // Feet
+  groundSpeed: number;      // Knots
+  verticalSpeed: number;    // Feet per minute
+  track: number;            // Degrees true
+  callsign: string;         // Up to 8 characters
+  emitterCategory: number;  // GDL 90 emitter category (1 = light aircraft)
+  airborne: boolean;
+  trafficAlert?: boolean;   // Traffic Reports only: target is a collision threat
+  nic?: number;             // Navigation Integrity Category (default 10)
+  nacp?: number;            // Navigation Accuracy Category for Position (default 8)
+}
 
-  return framed;
+/**
+ * Integrity and accuracy reported for a healthy GPS position
+ */
+export const DEFAULT_NIC = 10;
+export const DEFAULT_NACP = 8;
+
+/**
+ * How ownship identifies itself in the Ownship Report
+ */
+export type OwnshipIdentity = Pick<GDL90ReportData, 'address' | 'callsign' | 'emitterCategory'>;
+
+/**
+ * Receiver fix state reported with ownship
+ */
+export interface OwnshipFix {
+  valid: boolean; // False sends zero position and NIC, as GDL 90 requires without a fix
+  nic: number;
+  nacp: number;
 }
 
 /**
  * Create GDL 90 Ownship Report message
  */
-export function createOwnshipReport(position: GPSPosition): Buffer {
+export function createOwnshipReport(
+  position: GPSPosition,
+  identity: OwnshipIdentity,
+  fix: OwnshipFix = { valid: true, nic: DEFAULT_NIC, nacp: DEFAULT_NACP }
+): Buffer {
+  return createReport(GDL90MessageId.OWNSHIP_REPORT, {
+    address: identity.address,
+    latitude: fix.valid ? position.latitude : 0,
+    longitude: fix.valid ? position.longitude : 0,
+    altitude: position.altitude,
+    groundSpeed: position.groundSpeed,
+    verticalSpeed: position.verticalSpeed,
+    track: position.heading, // Track over the ground, not the wind-corrected heading
+    callsign: identity.callsign,
+    emitterCategory: identity.emitterCategory,
+    airborne: !position.onGround,
+    nic: fix.valid ? fix.nic : 0,
+    nacp: fix.valid ? fix.nacp : 0,
+  });
+}
+
+/**
+ * Create GDL 90 Traffic Report message
+ */
+export function createTrafficReport(target: GDL90ReportData): Buffer {
+  return createReport(GDL90MessageId.TRAFFIC_REPORT, target);
+}
+
+/**
+ * Encode an Ownship or Traffic Report (both share the same 27-byte layout)
+ */
+function createReport(messageId: GDL90MessageId, report: GDL90ReportData): Buffer {
   const payload = Buffer.alloc(28);
   let offset = 0;
 
   // Message ID
-  payload[offset++] = GDL90MessageId.OWNSHIP_REPORT;
+  payload[offset++] = messageId;
 
-  // Status byte (bits for alert status, address type, etc.)
-  payload[offset++] = 0x00;
+  // Status nibble (traffic alert) and address type (0 = ADS-B with ICAO address)
+  payload[offset++] = report.trafficAlert ? 0x10 : 0x00;
 
-  // Address type (0 = ADS-B with ICAO address)
-  payload[offset++] = 0x00;
-
-  // Aircraft address (24-bit) - using dummy address
-  payload[offset++] = 0xab;
-  payload[offset++] = 0xcd;
-  payload[offset++] = 0xef;
+  // Aircraft address (24-bit)
+  payload[offset++] = (report.address >> 16) & 0xff;
+  payload[offset++] = (report.address >> 8) & 0xff;
+  payload[offset++] = report.address & 0xff;
 
   // Latitude (24-bit)
-  const latBytes = encodeLatitude(position.latitude);
+  const latBytes = encodeLatitude(report.latitude);
   latBytes.copy(payload, offset);
   offset += 3;
 
   // Longitude (24-bit)
-  const lonBytes = encodeLongitude(position.longitude);
+  const lonBytes = encodeLongitude(report.longitude);
   lonBytes.copy(payload, offset);
   offset += 3;
 
-  // Altitude (12-bit) and misc indicators (4-bit)
-  const altEncoded = encodeAltitude(position.altitude);
+  // Altitude (12-bit) and misc indicators (4-bit): airborne flag, true track
+  const altEncoded = encodeAltitude(report.altitude);
   payload[offset++] = (altEncoded >> 4) & 0xff;
-  payload[offset] = ((altEncoded & 0x0f) << 4) | 0x0b; // misc = airborne
+  payload[offset] = ((altEncoded & 0x0f) << 4) | (report.airborne ? 0x09 : 0x01);
   offset++;
 
   // NIC (Navigation Integrity Category) and NACp (Navigation Accuracy Category)
-  payload[offset++] = 0xa8; // NIC = 10, NACp = 8 (good accuracy)
+  payload[offset++] = (((report.nic ?? DEFAULT_NIC) & 0x0f) << 4) | ((report.nacp ?? DEFAULT_NACP) & 0x0f);
 
   // Horizontal velocity (12-bit)
-  const velEncoded = encodeVelocity(position.groundSpeed);
+  const velEncoded = encodeVelocity(report.groundSpeed);
   payload[offset++] = (velEncoded >> 4) & 0xff;
 
   // Vertical velocity (12-bit) combined with remaining velocity bits
-  const vsEncoded = encodeVerticalVelocity(position.verticalSpeed);
+  const vsEncoded = encodeVerticalVelocity(report.verticalSpeed);
   payload[offset] = ((velEncoded & 0x0f) << 4) | ((vsEncoded >> 8) & 0x0f);
   offset++;
   payload[offset++] = vsEncoded & 0xff;
 
   // Track/Heading (8-bit)
-  payload[offset++] = encodeTrackHeading(position.heading);
+  payload[offset++] = encodeTrackHeading(report.track);
 
-  // Emitter category (8-bit) - 1 = light aircraft
-  payload[offset++] = 0x01;
+  // Emitter category (8-bit)
+  payload[offset++] = report.emitterCategory;
 
-  // Call sign (8 characters)
-  const callSign = 'N12345  ';
+  // Call sign (8 characters, space padded)
+  const callSign = report.callsign.toUpperCase().padEnd(8, ' ').slice(0, 8);
   for (let i = 0; i < 8; i++) {
     payload[offset++] = callSign.charCodeAt(i);
   }
@@ -214,21 +293,7 @@ export function createOwnshipReport(position: GPSPosition): Buffer {
   // Emergency/priority code (4-bit)
   payload[offset++] = 0x00;
 
-  // Calculate CRC
-  const crc = calculateCRC(payload);
-  const message = Buffer.alloc(30);
-  payload.copy(message, 0);
-  message[28] = (crc >> 8) & 0xff;
-  message[29] = crc & 0xff;
-
-  // Escape and frame
-  const escaped = escapeData(message);
-  const framed = Buffer.alloc(escaped.length + 2);
-  framed[0] = FLAG_BYTE;
-  escaped.copy(framed, 1);
-  framed[framed.length - 1] = FLAG_BYTE;
-
-  return framed;
+  return frameMessage(payload);
 }
 
 /**
@@ -249,19 +314,23 @@ export function createGeometricAltitude(altitudeFeet: number): Buffer {
   payload[3] = 0x00;
   payload[4] = 0x00;
 
-  // Calculate CRC
-  const crc = calculateCRC(payload);
-  const message = Buffer.alloc(7);
-  payload.copy(message, 0);
-  message[5] = (crc >> 8) & 0xff;
-  message[6] = crc & 0xff;
+  return frameMessage(payload);
+}
 
-  // Escape and frame
-  const escaped = escapeData(message);
-  const framed = Buffer.alloc(escaped.length + 2);
-  framed[0] = FLAG_BYTE;
-  escaped.copy(framed, 1);
-  framed[framed.length - 1] = FLAG_BYTE;
+/**
+ * Create GDL 90 Height Above Terrain message (null when unknown)
+ */
+export function createHeightAboveTerrain(heightFeet: number | null): Buffer {
+  const payload = Buffer.alloc(3);
 
-  return framed;
+  // Message ID
+  payload[0] = GDL90MessageId.HEIGHT_ABOVE_TERRAIN;
+
+  // Height in feet (16-bit signed), 0x8000 when invalid
+  const heightEncoded =
+    heightFeet === null ? 0x8000 : Math.max(-32767, Math.min(32767, Math.round(heightFeet))) & 0xffff;
+  payload[1] = (heightEncoded >> 8) & 0xff;
+  payload[2] = heightEncoded & 0xff;
+
+  return frameMessage(payload);
 }
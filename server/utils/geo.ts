@@ -0,0 +1,184 @@
+/**
+ * Geodesy Utilities
+ *
+ * Spherical-earth navigation math used by the flight simulation.
+ */
+
+/**
+ * Earth radius in meters (WGS-84 equatorial radius)
+ */
+export const EARTH_RADIUS_METERS = 6378137;
+
+/**
+ * Meters per nautical mile
+ */
+export const METERS_PER_NM = 1852;
+
+/**
+ * Convert knots to meters per second
+ */
+export function knotsToMetersPerSecond(knots: number): number {
+  return knots * 0.514444;
+}
+
+/**
+ * Convert degrees to radians
+ */
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Convert radians to degrees
+ */
+export function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Normalize an angle to the range [0, 360)
+ */
+export function normalizeHeading(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Calculate the point reached by travelling a distance along a great circle
+ * from a starting point on an initial bearing
+ */
+export function destinationPoint(
+  latitude: number,
+  longitude: number,
+  bearing: number,
+  distanceMeters: number
+): { latitude: number; longitude: number } {
+  const angularDistance = distanceMeters / EARTH_RADIUS_METERS;
+  const brng = toRadians(bearing);
+  const lat1 = toRadians(latitude);
+  const lon1 = toRadians(longitude);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angularDistance) +
+      Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(brng)
+  );
+  const lon2 =
+    lon1 +
+    Math.atan2(
+      Math.sin(brng) * Math.sin(angularDistance) * Math.cos(lat1),
+      Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return {
+    latitude: toDegrees(lat2),
+    // Wrap longitude back into [-180, 180)
+    longitude: ((toDegrees(lon2) + 540) % 360) - 180,
+  };
+}
+
+/**
+ * Signed difference between two angles (target - current) in the range [-180, 180)
+ */
+export function angleDifference(target: number, current: number): number {
+  return ((((target - current) % 360) + 540) % 360) - 180;
+}
+
+/**
+ * Turn from the current heading toward a target, limited to maxChange degrees
+ */
+export function turnToward(current: number, target: number, maxChange: number): number {
+  const diff = angleDifference(target, current);
+  const change = Math.max(-maxChange, Math.min(maxChange, diff));
+  return normalizeHeading(current + change);
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+export function distanceBetween(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Initial great-circle bearing from the first point to the second
+ */
+export function initialBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+
+  return normalizeHeading(toDegrees(Math.atan2(y, x)));
+}
+
+/**
+ * Final bearing on arrival at the second point along the great circle
+ */
+export function finalBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  return normalizeHeading(initialBearing(lat2, lon2, lat1, lon1) + 180);
+}
+
+/**
+ * Distance of a point from the great-circle path through start and end.
+ * Positive when the point is right of the path, negative when left.
+ */
+export function crossTrackDistance(
+  startLat: number,
+  startLon: number,
+  endLat: number,
+  endLon: number,
+  lat: number,
+  lon: number
+): number {
+  const dist13 = distanceBetween(startLat, startLon, lat, lon) / EARTH_RADIUS_METERS;
+  const bearing13 = toRadians(initialBearing(startLat, startLon, lat, lon));
+  const bearing12 = toRadians(initialBearing(startLat, startLon, endLat, endLon));
+
+  return Math.asin(Math.sin(dist13) * Math.sin(bearing13 - bearing12)) * EARTH_RADIUS_METERS;
+}
+
+/**
+ * Distance from the start point to the closest point on the great-circle
+ * path through start and end (negative if the point is behind the start)
+ */
+export function alongTrackDistance(
+  startLat: number,
+  startLon: number,
+  endLat: number,
+  endLon: number,
+  lat: number,
+  lon: number
+): number {
+  const dist13 = distanceBetween(startLat, startLon, lat, lon) / EARTH_RADIUS_METERS;
+  const bearing13 = toRadians(initialBearing(startLat, startLon, lat, lon));
+  const bearing12 = toRadians(initialBearing(startLat, startLon, endLat, endLon));
+  const xtAngle = Math.asin(Math.sin(dist13) * Math.sin(bearing13 - bearing12));
+
+  const atAngle = Math.acos(Math.min(1, Math.max(-1, Math.cos(dist13) / Math.cos(xtAngle))));
+  return Math.sign(Math.cos(bearing13 - bearing12)) * atAngle * EARTH_RADIUS_METERS;
+}
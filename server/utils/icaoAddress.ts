@@ -0,0 +1,106 @@
+/**
+ * ICAO Address Utilities
+ *
+ * Derives the 24-bit ICAO (Mode S) address the FAA assigns to a US
+ * N-number. Addresses are allocated in order from A00001 (N1) to ADF7C7
+ * (N99999), so the address can be computed without looking anything up.
+ */
+
+/**
+ * Letters used in N-numbers (I and O are never issued)
+ */
+const LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+/**
+ * First address of the US N-number block (N1)
+ */
+const FIRST_ADDRESS = 0xa00001;
+
+/**
+ * Addresses taken by a letter suffix (none, one letter, or two letters)
+ */
+const SUFFIX_SIZE = 1 + LETTERS.length * (1 + LETTERS.length);
+
+/**
+ * Addresses taken by each digit in the 4th position (the 5th position holds
+ * nothing, a letter, or a digit)
+ */
+const BUCKET4_SIZE = 1 + LETTERS.length + 10;
+
+/**
+ * Addresses taken by each digit in the 3rd, 2nd and 1st positions
+ */
+const BUCKET3_SIZE = 10 * BUCKET4_SIZE + SUFFIX_SIZE;
+const BUCKET2_SIZE = 10 * BUCKET3_SIZE + SUFFIX_SIZE;
+const BUCKET1_SIZE = 10 * BUCKET2_SIZE + SUFFIX_SIZE;
+
+/**
+ * Valid N-numbers: a non-zero digit, up to four more digits, and an
+ * optional one or two letter suffix, at most five characters after the N
+ */
+const N_NUMBER_PATTERN = /^N[1-9](?:\d{0,4}|\d{0,3}[A-HJ-NP-Z]|\d{0,2}[A-HJ-NP-Z]{2})$/;
+
+/**
+ * Largest 24-bit ICAO address
+ */
+export const MAX_ICAO_ADDRESS = 0xffffff;
+
+/**
+ * Check if a string is a valid US N-number (e.g., N172SP)
+ */
+export function isNNumber(registration: string): boolean {
+  return N_NUMBER_PATTERN.test(registration.toUpperCase());
+}
+
+/**
+ * Offset of a one or two letter suffix within its block
+ */
+function suffixOffset(suffix: string): number {
+  if (suffix.length === 0) return 0;
+  let offset = (LETTERS.length + 1) * LETTERS.indexOf(suffix[0]) + 1;
+  if (suffix.length === 2) {
+    offset += LETTERS.indexOf(suffix[1]) + 1;
+  }
+  return offset;
+}
+
+/**
+ * Get the ICAO address assigned to a US N-number, or null if the string is
+ * not a valid N-number
+ */
+export function nNumberToICAOAddress(registration: string): number | null {
+  const nNumber = registration.toUpperCase();
+  if (!N_NUMBER_PATTERN.test(nNumber)) {
+    return null;
+  }
+
+  const chars = nNumber.slice(1);
+  let address = FIRST_ADDRESS + (Number(chars[0]) - 1) * BUCKET1_SIZE;
+
+  // Each following digit selects a bucket after the suffixes of the
+  // shorter registration; a letter ends the registration
+  const bucketSizes = [BUCKET2_SIZE, BUCKET3_SIZE, BUCKET4_SIZE];
+  for (let i = 1; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (i === 4) {
+      // Last position: a single letter, then the digits
+      return address + (LETTERS.includes(char) ? 1 + LETTERS.indexOf(char) : 1 + LETTERS.length + Number(char));
+    }
+
+    if (LETTERS.includes(char)) {
+      return address + suffixOffset(chars.slice(i));
+    }
+
+    address += SUFFIX_SIZE + Number(char) * bucketSizes[i - 1];
+  }
+
+  return address;
+}
+
+/**
+ * Format an ICAO address as six hex digits (e.g., A1B2C3)
+ */
+export function formatICAOAddress(address: number): string {
+  return address.toString(16).toUpperCase().padStart(6, '0');
+}
@@ -0,0 +1,74 @@
+/**
+ * Network Utilities
+ *
+ * Local interface discovery and IPv4 address math for broadcast and
+ * multicast delivery.
+ */
+
+import os from 'os';
+import { LocalInterface } from '../../src/types/network.js';
+
+/**
+ * Dotted-quad IPv4 address pattern
+ */
+export const IPV4_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$/;
+
+/**
+ * Convert a dotted-quad IPv4 address to a 32-bit unsigned number
+ */
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => ((value << 8) | Number(octet)) >>> 0, 0);
+}
+
+/**
+ * Convert a 32-bit unsigned number to a dotted-quad IPv4 address
+ */
+function numberToIPv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+}
+
+/**
+ * Directed broadcast address of the subnet an address belongs to
+ * (e.g., 192.168.1.20/255.255.255.0 → 192.168.1.255)
+ */
+export function directedBroadcast(address: string, netmask: string): string {
+  const mask = ipv4ToNumber(netmask);
+  return numberToIPv4((ipv4ToNumber(address) | ~mask) >>> 0);
+}
+
+/**
+ * Check if an address is an IPv4 multicast group (224.0.0.0/4)
+ */
+export function isMulticastAddress(address: string): boolean {
+  if (!IPV4_PATTERN.test(address)) return false;
+  const first = Number(address.split('.')[0]);
+  return first >= 224 && first <= 239;
+}
+
+/**
+ * List the IPv4 addresses of the machine's external network interfaces
+ */
+export function listLocalInterfaces(): LocalInterface[] {
+  const interfaces: LocalInterface[] = [];
+
+  for (const [name, addresses] of Object.entries(os.networkInterfaces())) {
+    for (const info of addresses ?? []) {
+      if (info.family !== 'IPv4' || info.internal) continue;
+      interfaces.push({
+        name,
+        address: info.address,
+        netmask: info.netmask,
+        broadcast: directedBroadcast(info.address, info.netmask),
+      });
+    }
+  }
+
+  return interfaces;
+}
+
+/**
+ * Find a local interface by name
+ */
+export function findLocalInterface(name: string): LocalInterface | null {
+  return listLocalInterfaces().find((info) => info.name === name) ?? null;
+}
@@ -0,0 +1,224 @@
+/**
+ * NMEA 0183 Encoder
+ *
+ * Encodes GPS data into NMEA 0183 sentences (GGA, RMC, VTG, GSA).
+ * Each sentence is terminated with CR/LF and carries an XOR checksum.
+ */
+
+import { GPSData, GPSPosition, FixQuality } from '../../src/types/gps.js';
+import { NMEASentence } from '../../src/types/nmea.js';
+
+/**
+ * Fix quality reported when no degradation is applied
+ */
+export const DEFAULT_FIX: Pick<GPSData, 'fixQuality' | 'satelliteCount' | 'hdop'> = {
+  fixQuality: FixQuality.GPS,
+  satelliteCount: 10,
+  hdop: 0.9,
+};
+
+/**
+ * Calculate NMEA checksum (XOR of all characters between '$' and '*')
+ */
+export function calculateChecksum(body: string): string {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Wrap a sentence body with '$', checksum and CR/LF
+ */
+function frameSentence(body: string): string {
+  return `$${body}*${calculateChecksum(body)}\r\n`;
+}
+
+/**
+ * Format UTC time as hhmmss.ss
+ */
+function formatTime(date: Date): string {
+  const hh = date.getUTCHours().toString().padStart(2, '0');
+  const mm = date.getUTCMinutes().toString().padStart(2, '0');
+  const ss = date.getUTCSeconds().toString().padStart(2, '0');
+  const cs = Math.floor(date.getUTCMilliseconds() / 10).toString().padStart(2, '0');
+  return `${hh}${mm}${ss}.${cs}`;
+}
+
+/**
+ * Format UTC date as ddmmyy
+ */
+function formatDate(date: Date): string {
+  const dd = date.getUTCDate().toString().padStart(2, '0');
+  const mm = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const yy = (date.getUTCFullYear() % 100).toString().padStart(2, '0');
+  return `${dd}${mm}${yy}`;
+}
+
+/**
+ * Format a coordinate as (d)ddmm.mmmm plus hemisphere
+ */
+function formatCoordinate(value: number, degreeDigits: number, positive: string, negative: string): string {
+  const abs = Math.abs(value);
+  let degrees = Math.floor(abs);
+  let minutes = (abs - degrees) * 60;
+  // Avoid emitting 60.0000 minutes after rounding
+  if (Number(minutes.toFixed(4)) >= 60) {
+    degrees += 1;
+    minutes = 0;
+  }
+  const deg = degrees.toString().padStart(degreeDigits, '0');
+  const min = minutes.toFixed(4).padStart(7, '0');
+  return `${deg}${min},${value < 0 ? negative : positive}`;
+}
+
+function formatLatitude(lat: number): string {
+  return formatCoordinate(lat, 2, 'N', 'S');
+}
+
+function formatLongitude(lon: number): string {
+  return formatCoordinate(lon, 3, 'E', 'W');
+}
+
+/**
+ * Check if the fix quality represents a usable position
+ */
+function hasFix(data: GPSData): boolean {
+  return data.fixQuality !== FixQuality.NoFix;
+}
+
+/**
+ * FAA mode indicator (NMEA 2.3+) for RMC and VTG
+ */
+function modeIndicator(data: GPSData): string {
+  switch (data.fixQuality) {
+    case FixQuality.NoFix:
+      return 'N';
+    case FixQuality.DGPS:
+      return 'D';
+    case FixQuality.Estimated:
+      return 'E';
+    case FixQuality.Manual:
+      return 'M';
+    case FixQuality.Simulation:
+      return 'S';
+    default:
+      return 'A';
+  }
+}
+
+/**
+ * Create GGA (fix data) sentence
+ * Format: $--GGA,time,lat,N/S,lon,E/W,quality,sats,hdop,alt,M,geoid,M,age,station*CS
+ */
+export function createGGASentence(data: GPSData, talkerId: string = 'GP'): string {
+  const time = formatTime(new Date(data.timestamp));
+  const fix = hasFix(data);
+  const fields = [
+    `${talkerId}GGA`,
+    time,
+    fix ? formatLatitude(data.latitude) : ',',
+    fix ? formatLongitude(data.longitude) : ',',
+    data.fixQuality.toString(),
+    data.satelliteCount.toString().padStart(2, '0'),
+    fix ? data.hdop.toFixed(1) : '',
+    fix ? (data.altitude * 0.3048).toFixed(1) : '',
+    'M',
+    '0.0',
+    'M',
+    '',
+    '',
+  ];
+  return frameSentence(fields.join(','));
+}
+
+/**
+ * Create RMC (recommended minimum) sentence
+ * Format: $--RMC,time,status,lat,N/S,lon,E/W,sog,cog,date,magvar,E/W,mode*CS
+ */
+export function createRMCSentence(data: GPSData, talkerId: string = 'GP'): string {
+  const date = new Date(data.timestamp);
+  const fix = hasFix(data);
+  const fields = [
+    `${talkerId}RMC`,
+    formatTime(date),
+    fix ? 'A' : 'V',
+    // Without a fix the position, speed and course are left empty
+    fix ? formatLatitude(data.latitude) : ',',
+    fix ? formatLongitude(data.longitude) : ',',
+    fix ? data.groundSpeed.toFixed(1) : '',
+    fix ? data.heading.toFixed(1) : '',
+    formatDate(date),
+    '',
+    '',
+    modeIndicator(data),
+  ];
+  return frameSentence(fields.join(','));
+}
+
+/**
+ * Create VTG (track made good and ground speed) sentence
+ * Format: $--VTG,cog,T,cog,M,sog,N,sog,K,mode*CS
+ */
+export function createVTGSentence(data: GPSData, talkerId: string = 'GP'): string {
+  const fields = [
+    `${talkerId}VTG`,
+    data.heading.toFixed(1),
+    'T',
+    '',
+    'M',
+    data.groundSpeed.toFixed(1),
+    'N',
+    (data.groundSpeed * 1.852).toFixed(1),
+    'K',
+    modeIndicator(data),
+  ];
+  return frameSentence(fields.join(','));
+}
+
+/**
+ * Create GSA (DOP and active satellites) sentence
+ * Format: $--GSA,mode,fix,sv1..sv12,pdop,hdop,vdop*CS
+ */
+export function createGSASentence(data: GPSData, talkerId: string = 'GP'): string {
+  const fixType = hasFix(data) ? '3' : '1';
+  const satellites: string[] = [];
+  const activeCount = hasFix(data) ? Math.min(12, data.satelliteCount) : 0;
+  for (let i = 0; i < 12; i++) {
+    // Use simple sequential PRNs for the simulated constellation
+    satellites.push(i < activeCount ? (i + 1).toString().padStart(2, '0') : '');
+  }
+  const pdop = data.hdop * 1.5;
+  const vdop = data.hdop * 1.1;
+  const fields = [
+    `${talkerId}GSA`,
+    'A',
+    fixType,
+    ...satellites,
+    pdop.toFixed(1),
+    data.hdop.toFixed(1),
+    vdop.toFixed(1),
+  ];
+  return frameSentence(fields.join(','));
+}
+
+/**
+ * Create the configured set of NMEA sentences for a position
+ */
+export function createNMEASentences(
+  position: GPSPosition | GPSData,
+  sentences: NMEASentence[],
+  talkerId: string = 'GP'
+): Buffer {
+  const data: GPSData = { ...DEFAULT_FIX, ...position };
+  const encoders: Record<NMEASentence, (data: GPSData, talkerId: string) => string> = {
+    GGA: createGGASentence,
+    RMC: createRMCSentence,
+    VTG: createVTGSentence,
+    GSA: createGSASentence,
+  };
+
+  const output = sentences.map((sentence) => encoders[sentence](data, talkerId)).join('');
+  return Buffer.from(output, 'ascii');
+}
@@ -0,0 +1,328 @@
+/**
+ * Track Parser
+ *
+ * Parses recorded flight tracks into timestamped fixes:
+ * - GPX: <trk>/<trkseg>/<trkpt> with <time> and <ele>
+ * - KML: <gx:Track> (<when> + <gx:coord>) or timestamped Point placemarks
+ * - CSV: header row with time, latitude, longitude and altitude columns
+ * - IGC: B records, dated by the HFDTE header
+ */
+
+import { TrackFormat, TrackPoint } from '../../src/types/track.js';
+import { parseCSVRows } from './csv.js';
+import { FileParseError } from './fileParseError.js';
+import { XMLList, XMLNode, XMLText, asArray, findAll, parseXMLDocument, textOf } from './xml.js';
+
+export interface Track {
+  name?: string;
+  format: TrackFormat;
+  points: TrackPoint[];
+}
+
+/**
+ * Convert meters to feet
+ */
+function metersToFeet(meters: number): number {
+  return meters / 0.3048;
+}
+
+/**
+ * Detect the track format from the file name, falling back to the content
+ */
+export function detectTrackFormat(content: string, filename?: string): TrackFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'csv' || extension === 'igc') {
+    return extension;
+  }
+
+  if (/<gpx[\s>]/i.test(content)) return 'gpx';
+  if (/<kml[\s>]/i.test(content)) return 'kml';
+  if (/^A[A-Z0-9]{3}/.test(content) && /^B\d{6}/m.test(content)) return 'igc';
+  if (/^[^\n]*(lat|latitude)[^\n]*,/i.test(content)) return 'csv';
+
+  throw new FileParseError(
+    'Unrecognized track format. Supported formats: GPX, KML, CSV, IGC',
+    extension ?? 'unknown'
+  );
+}
+
+/**
+ * Parse a track file into fixes sorted by time
+ */
+export function parseTrack(content: string, filename?: string): Track {
+  const format = detectTrackFormat(content, filename);
+
+  let track: Track;
+  switch (format) {
+    case 'gpx':
+      track = parseGPX(content);
+      break;
+    case 'kml':
+      track = parseKML(content);
+      break;
+    case 'csv':
+      track = parseCSV(content);
+      break;
+    case 'igc':
+      track = parseIGC(content);
+      break;
+  }
+
+  track.points.sort((a, b) => a.timestamp - b.timestamp);
+
+  if (track.points.length < 2) {
+    throw new FileParseError('Track must contain at least two timestamped fixes', format);
+  }
+  if (track.points[track.points.length - 1].timestamp === track.points[0].timestamp) {
+    throw new FileParseError('Track fixes all have the same timestamp', format);
+  }
+
+  return track;
+}
+
+/**
+ * Validate and build a track point
+ */
+function buildPoint(
+  latitude: number,
+  longitude: number,
+  altitude: number,
+  timestamp: number,
+  format: TrackFormat,
+  label: string,
+  line?: number
+): TrackPoint {
+  if (!Number.isFinite(latitude) || Math.abs(latitude) > 90) {
+    throw new FileParseError(`${label}: invalid latitude`, format, line);
+  }
+  if (!Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+    throw new FileParseError(`${label}: invalid longitude`, format, line);
+  }
+  if (!Number.isFinite(timestamp)) {
+    throw new FileParseError(`${label}: invalid or missing time`, format, line);
+  }
+  return {
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude) ? altitude : 0,
+    timestamp,
+  };
+}
+
+interface GPXDocument {
+  gpx?: {
+    trk?: XMLList<{
+      name?: XMLText;
+      trkseg?: XMLList<{
+        trkpt?: XMLList<{ '@_lat'?: string; '@_lon'?: string; ele?: XMLText; time?: XMLText }>;
+      }>;
+    }>;
+  };
+}
+
+interface KMLTrack {
+  when?: XMLList<XMLText>;
+  coord?: XMLList<XMLText>;
+}
+
+interface KMLPlacemark {
+  Point?: XMLList<{ coordinates?: XMLText }>;
+  TimeStamp?: { when?: XMLText };
+}
+
+function parseGPX(content: string): Track {
+  const document = parseXMLDocument(content, 'gpx') as GPXDocument;
+  if (!document.gpx) {
+    throw new FileParseError('Missing <gpx> root element', 'gpx');
+  }
+
+  const tracks = asArray(document.gpx.trk);
+  const points: TrackPoint[] = [];
+
+  for (const track of tracks) {
+    for (const segment of asArray(track.trkseg)) {
+      for (const point of asArray(segment.trkpt)) {
+        const label = `Track point ${points.length + 1}`;
+        const elevation = textOf(point.ele);
+        points.push(
+          buildPoint(
+            Number(point['@_lat']),
+            Number(point['@_lon']),
+            elevation !== undefined ? metersToFeet(Number(elevation)) : 0,
+            Date.parse(textOf(point.time) ?? ''),
+            'gpx',
+            label
+          )
+        );
+      }
+    }
+  }
+
+  if (tracks.length === 0) {
+    throw new FileParseError('No <trk> track found (flight plans with routes can be imported as a route instead)', 'gpx');
+  }
+
+  return { name: textOf(tracks[0]?.name), format: 'gpx', points };
+}
+
+function parseKML(content: string): Track {
+  const document = parseXMLDocument(content, 'kml') as { kml?: XMLNode };
+  if (!document.kml) {
+    throw new FileParseError('Missing <kml> root element', 'kml');
+  }
+
+  const points: TrackPoint[] = [];
+
+  // gx:Track: parallel lists of <when> and <gx:coord> ("lon lat alt")
+  for (const track of findAll(document.kml, 'Track') as KMLTrack[]) {
+    const whens = asArray(track.when).map(textOf);
+    const coords = asArray(track.coord).map(textOf);
+    if (whens.length !== coords.length) {
+      throw new FileParseError('gx:Track has a different number of <when> and <gx:coord> elements', 'kml');
+    }
+    coords.forEach((coord, index) => {
+      const [lon, lat, alt] = (coord ?? '').trim().split(/\s+/).map(Number);
+      points.push(
+        buildPoint(lat, lon, metersToFeet(alt), Date.parse(whens[index] ?? ''), 'kml', `Track point ${points.length + 1}`)
+      );
+    });
+  }
+
+  // Fall back to timestamped Point placemarks
+  if (points.length === 0) {
+    for (const placemark of findAll(document.kml, 'Placemark') as KMLPlacemark[]) {
+      const point = asArray(placemark.Point)[0];
+      const when = textOf(placemark.TimeStamp?.when);
+      if (!point || !when) continue;
+      const [lon, lat, alt] = (textOf(point.coordinates) ?? '').trim().split(',').map(Number);
+      points.push(
+        buildPoint(lat, lon, metersToFeet(alt), Date.parse(when), 'kml', `Placemark ${points.length + 1}`)
+      );
+    }
+  }
+
+  if (points.length === 0) {
+    throw new FileParseError('No gx:Track or timestamped placemarks found', 'kml');
+  }
+
+  const [kmlDocument] = findAll(document.kml, 'Document') as { name?: XMLText }[];
+  return { name: textOf(kmlDocument?.name), format: 'kml', points };
+}
+
+/**
+ * Parse a CSV time value: ISO 8601, or Unix time in seconds or milliseconds
+ */
+function parseCSVTime(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = Number(trimmed);
+    // Values below ~1e11 are seconds (1e11 ms is 1973)
+    return number < 1e11 ? number * 1000 : number;
+  }
+  return Date.parse(trimmed);
+}
+
+function parseCSV(content: string): Track {
+  const rows = parseCSVRows(content);
+  const header = (rows[0] ?? []).map((column) => column.trim().toLowerCase());
+
+  const findColumn = (pattern: RegExp) => header.findIndex((column) => pattern.test(column));
+  const timeColumn = findColumn(/time|date|utc/);
+  const latColumn = findColumn(/^lat/);
+  const lonColumn = findColumn(/^(lon|lng)/);
+  const altColumn = findColumn(/^(alt|ele)/);
+
+  if (timeColumn < 0 || latColumn < 0 || lonColumn < 0) {
+    throw new FileParseError('Header must include time, latitude and longitude columns', 'csv', 1);
+  }
+
+  // Altitude is in feet unless the header says meters
+  const altitudeInMeters = altColumn >= 0 && /\(m\)|meter|metre|_m$/.test(header[altColumn]);
+
+  const points: TrackPoint[] = [];
+  for (let i = 1; i < rows.length; i++) {
+    const fields = rows[i];
+    if (fields.length === 1 && fields[0].trim().length === 0) continue;
+    const altitude = altColumn >= 0 ? Number(fields[altColumn]) : 0;
+    points.push(
+      buildPoint(
+        Number(fields[latColumn]),
+        Number(fields[lonColumn]),
+        altitudeInMeters ? metersToFeet(altitude) : altitude,
+        parseCSVTime(fields[timeColumn] ?? ''),
+        'csv',
+        `Row ${i}`,
+        i + 1
+      )
+    );
+  }
+
+  return { format: 'csv', points };
+}
+
+/**
+ * Parse an IGC coordinate (DDMMmmmN or DDDMMmmmE)
+ */
+function parseIGCCoordinate(value: string, degreeDigits: number): number {
+  const degrees = Number(value.slice(0, degreeDigits));
+  const minutes = Number(value.slice(degreeDigits, degreeDigits + 5)) / 1000;
+  const hemisphere = value[value.length - 1];
+  const coordinate = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate;
+}
+
+function parseIGC(content: string): Track {
+  const lines = content.split(/\r?\n/);
+
+  // Flight date: HFDTEDDMMYY or HFDTEDATE:DDMMYY,NN
+  const dateLine = lines.find((line) => line.startsWith('HFDTE'));
+  const dateMatch = dateLine ? /(\d{2})(\d{2})(\d{2})/.exec(dateLine.slice(5)) : null;
+  if (!dateMatch) {
+    throw new FileParseError('Missing HFDTE flight date header', 'igc');
+  }
+  const [, dd, mm, yy] = dateMatch;
+  const flightDate = Date.UTC(2000 + Number(yy), Number(mm) - 1, Number(dd));
+
+  const nameLine = lines.find((line) => line.startsWith('HFGIDGLIDERID') || line.startsWith('HFGTYGLIDERTYPE'));
+  const points: TrackPoint[] = [];
+  let dayOffset = 0;
+  let lastSeconds = -1;
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('B')) return;
+
+    const match = /^B(\d{2})(\d{2})(\d{2})(\d{7}[NS])(\d{8}[EW])([AV])([-\d]{5})([-\d]{5})/.exec(line);
+    if (!match) {
+      throw new FileParseError('Malformed B record', 'igc', index + 1);
+    }
+    const [, hh, mi, ss, lat, lon, , pressureAlt, gnssAlt] = match;
+
+    // B records are UTC time of day; roll over to the next day after midnight
+    const seconds = Number(hh) * 3600 + Number(mi) * 60 + Number(ss);
+    if (seconds < lastSeconds) {
+      dayOffset++;
+    }
+    lastSeconds = seconds;
+
+    // Prefer GNSS altitude; fall back to pressure altitude if it's missing
+    const altitudeMeters = Number(gnssAlt) !== 0 ? Number(gnssAlt) : Number(pressureAlt);
+
+    points.push(
+      buildPoint(
+        parseIGCCoordinate(lat, 2),
+        parseIGCCoordinate(lon, 3),
+        metersToFeet(altitudeMeters),
+        flightDate + (dayOffset * 86400 + seconds) * 1000,
+        'igc',
+        `B record ${points.length + 1}`,
+        index + 1
+      )
+    );
+  });
+
+  return {
+    name: nameLine ? nameLine.split(':').slice(1).join(':').trim() || undefined : undefined,
+    format: 'igc',
+    points,
+  };
+}
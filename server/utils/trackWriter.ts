@@ -0,0 +1,121 @@
+/**
+ * Track Writer
+ *
+ * Serializes recorded positions to GPX, KML or CSV. The output can be
+ * loaded back into the track player.
+ */
+
+import { GPSPosition } from '../../src/types/gps.js';
+import { RecordingFormat } from '../../src/types/recording.js';
+
+/**
+ * Convert feet to meters
+ */
+function feetToMeters(feet: number): number {
+  return feet * 0.3048;
+}
+
+/**
+ * Escape text for inclusion in XML
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Write positions as a GPX 1.1 track
+ */
+export function writeGPX(positions: GPSPosition[], name: string): string {
+  const points = positions
+    .map(
+      (position) =>
+        `      <trkpt lat="${position.latitude.toFixed(8)}" lon="${position.longitude.toFixed(8)}">\n` +
+        `        <ele>${feetToMeters(position.altitude).toFixed(1)}</ele>\n` +
+        `        <time>${new Date(position.timestamp).toISOString()}</time>\n` +
+        `      </trkpt>`
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SP4L Flight Location Simulator" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <trk>',
+    `    <name>${escapeXML(name)}</name>`,
+    '    <trkseg>',
+    points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write positions as a KML gx:Track
+ */
+export function writeKML(positions: GPSPosition[], name: string): string {
+  const whens = positions
+    .map((position) => `        <when>${new Date(position.timestamp).toISOString()}</when>`)
+    .join('\n');
+  const coords = positions
+    .map(
+      (position) =>
+        `        <gx:coord>${position.longitude.toFixed(8)} ${position.latitude.toFixed(8)} ${feetToMeters(position.altitude).toFixed(1)}</gx:coord>`
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXML(name)}</name>`,
+    '    <Placemark>',
+    `      <name>${escapeXML(name)}</name>`,
+    '      <gx:Track>',
+    '        <altitudeMode>absolute</altitudeMode>',
+    whens,
+    coords,
+    '      </gx:Track>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write positions as CSV, including the transmitted speeds and track
+ */
+export function writeCSV(positions: GPSPosition[]): string {
+  const header = 'time,latitude,longitude,altitude_ft,track_deg,ground_speed_kts,vertical_speed_fpm';
+  const rows = positions.map((position) =>
+    [
+      new Date(position.timestamp).toISOString(),
+      position.latitude.toFixed(8),
+      position.longitude.toFixed(8),
+      position.altitude.toFixed(1),
+      position.heading.toFixed(1),
+      position.groundSpeed.toFixed(1),
+      position.verticalSpeed.toFixed(0),
+    ].join(',')
+  );
+  return [header, ...rows, ''].join('\n');
+}
+
+/**
+ * Write positions in the given format
+ */
+export function writeTrack(positions: GPSPosition[], format: RecordingFormat, name: string): string {
+  switch (format) {
+    case 'gpx':
+      return writeGPX(positions, name);
+    case 'kml':
+      return writeKML(positions, name);
+    case 'csv':
+      return writeCSV(positions);
+  }
+}
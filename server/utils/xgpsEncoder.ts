@@ -45,14 +45,13 @@ export function createXTRAFFICMessage(
   lon: number,
   altitudeFeet: number,
   verticalSpeed: number,
+  airborne: boolean,
   track: number,
   speedKnots: number,
   callsign: string = 'SIM',
   simulatorName: string = 'SP4L Location Simulator'
 ): Buffer {
-  const airborne = altitudeFeet > 0 ? 1 : 0;
-
-  const message = `XTRAFFIC${simulatorName},${icaoAddress},${lat.toFixed(8)},${lon.toFixed(8)},${altitudeFeet.toFixed(1)},${verticalSpeed.toFixed(1)},${airborne},${track.toFixed(1)},${speedKnots.toFixed(1)},${callsign}`;
+  const message = `XTRAFFIC${simulatorName},${icaoAddress},${lat.toFixed(8)},${lon.toFixed(8)},${altitudeFeet.toFixed(1)},${verticalSpeed.toFixed(1)},${airborne ? 1 : 0},${track.toFixed(1)},${speedKnots.toFixed(1)},${callsign}`;
 
   return Buffer.from(message, 'utf-8');
 }
@@ -60,14 +59,17 @@ export function createXTRAFFICMessage(
 /**
  * Create XATT attitude message (optional - for attitude display)
  * Format: XATT<name>,<heading_true>,<pitch>,<roll>
+ *
+ * The heading is where the nose points (GPSPosition.trueHeading), which
+ * differs from the XGPS track when there is a crosswind.
  */
 export function createXATTMessage(
-  heading: number,
+  trueHeading: number,
   pitch: number = 0,
   roll: number = 0,
   simulatorName: string = 'SP4L Location Simulator'
 ): Buffer {
-  const message = `XATT${simulatorName},${heading.toFixed(1)},${pitch.toFixed(1)},${roll.toFixed(1)}`;
+  const message = `XATT${simulatorName},${trueHeading.toFixed(1)},${pitch.toFixed(1)},${roll.toFixed(1)}`;
 
   return Buffer.from(message, 'utf-8');
 }
@@ -0,0 +1,90 @@
+/**
+ * XML Utilities
+ *
+ * Thin wrapper around fast-xml-parser shared by the file parsers.
+ */
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { FileParseError } from './fileParseError.js';
+
+/**
+ * A parsed element: child elements by tag name, attributes prefixed with
+ * @_ and text content as #text. Parsers narrow it to the shape of their
+ * format.
+ */
+export type XMLNode = Record<string, unknown>;
+
+/**
+ * Text content of a parsed element; an object when the element also
+ * carries attributes
+ */
+export type XMLText = string | { '#text'?: string };
+
+/**
+ * An element that appears once, or an array when it is repeated
+ */
+export type XMLList<T> = T | T[];
+
+/**
+ * Parse an XML document, throwing a FileParseError with the line number
+ * if it isn't well-formed
+ */
+export function parseXMLDocument(content: string, format: string): XMLNode {
+  const validation = XMLValidator.validate(content);
+  if (validation !== true) {
+    throw new FileParseError(validation.err.msg, format, validation.err.line);
+  }
+
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+  });
+
+  return parser.parse(content);
+}
+
+/**
+ * Normalize an element that may appear once or many times into an array
+ */
+export function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Get the text content of an element (which may carry attributes)
+ */
+export function textOf(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') {
+    const text = (value as Record<string, unknown>)['#text'];
+    return text === undefined ? undefined : String(text);
+  }
+  return String(value);
+}
+
+/**
+ * Find all elements with a tag name anywhere below a node, in document order
+ */
+export function findAll(node: unknown, tagName: string): unknown[] {
+  const results: unknown[] = [];
+  const visit = (current: unknown) => {
+    if (!current || typeof current !== 'object') return;
+    if (Array.isArray(current)) {
+      current.forEach(visit);
+      return;
+    }
+    for (const [key, value] of Object.entries(current as Record<string, unknown>)) {
+      if (key === tagName) {
+        results.push(...asArray(value));
+      }
+      visit(value);
+    }
+  };
+  visit(node);
+  return results;
+}
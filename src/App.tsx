@@ -1,8 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import MapView from './components/MapView';
 import PositionControl from './components/PositionControl';
 import ServerControl from './components/ServerControl';
+import RouteControl from './components/RouteControl';
+import ManeuverControl from './components/ManeuverControl';
+import PlaybackControl from './components/PlaybackControl';
+import RecordingControl from './components/RecordingControl';
+import WindControl from './components/WindControl';
+import TrafficControl from './components/TrafficControl';
+import ScenarioControl from './components/ScenarioControl';
+import DegradationControl from './components/DegradationControl';
+import OutputTargetControl from './components/OutputTargetControl';
+import { updateRoute } from './services/gpsApi';
 import { GPSPosition } from './types/gps';
+import { RouteState, Waypoint } from './types/route';
+import { TrackPoint } from './types/track';
+import { TrafficTarget } from './types/traffic';
+import { ManeuverState } from './types/maneuver';
 
 function App() {
   // Default position (Denver, CO area - good for aviation demos)
@@ -19,6 +33,15 @@ function App() {
   const [isServerRunning, setIsServerRunning] = useState(false);
   const [isFlying, setIsFlying] = useState(false);
   const [followMode, setFollowMode] = useState(false);
+  const [routeWaypoints, setRouteWaypoints] = useState<Waypoint[]>([]);
+  const [activeWaypointIndex, setActiveWaypointIndex] = useState<number | null>(null);
+  const [isEditingRoute, setIsEditingRoute] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  // Number of route updates in flight; polled routes are ignored until they land
+  const pendingRouteUpdates = useRef(0);
+  const [trackPoints, setTrackPoints] = useState<TrackPoint[]>([]);
+  const [traffic, setTraffic] = useState<TrafficTarget[]>([]);
+  const [maneuver, setManeuver] = useState<ManeuverState | null>(null);
 
   const handleMapPositionChange = (lat: number, lng: number) => {
     setPosition((prev) => ({
@@ -45,6 +68,28 @@ function App() {
     }
   };
 
+  const handleRouteChange = async (waypoints: Waypoint[]) => {
+    setRouteWaypoints(waypoints);
+    setRouteError(null);
+    pendingRouteUpdates.current++;
+    try {
+      const state = await updateRoute(waypoints);
+      setActiveWaypointIndex(state.activeWaypointIndex);
+    } catch (err) {
+      setRouteError(err instanceof Error ? err.message : 'Failed to update route');
+    } finally {
+      pendingRouteUpdates.current--;
+    }
+  };
+
+  const handleRouteStateChange = (state: RouteState) => {
+    if (pendingRouteUpdates.current > 0) {
+      return;
+    }
+    setRouteWaypoints(state.waypoints);
+    setActiveWaypointIndex(state.activeWaypointIndex);
+  };
+
   const handleCenterRequest = () => {
     if (isFlying) {
       // If flying, toggle follow mode
@@ -71,9 +116,17 @@ function App() {
         <div className="map-section">
           <MapView
             position={{ lat: position.latitude, lng: position.longitude }}
-            heading={position.heading}
+            heading={position.trueHeading ?? position.heading}
             onPositionChange={handleMapPositionChange}
             followMode={followMode}
+            route={routeWaypoints}
+            activeWaypointIndex={activeWaypointIndex}
+            isEditingRoute={isEditingRoute}
+            onRouteChange={handleRouteChange}
+            track={trackPoints}
+            traffic={traffic}
+            maneuver={maneuver}
+            ownshipAltitude={position.altitude}
           />
         </div>
 
@@ -83,6 +136,8 @@ function App() {
             onServerStatusChange={setIsServerRunning}
           />
 
+          <OutputTargetControl />
+
           <PositionControl
             position={position}
             onPositionChange={handlePositionControlChange}
@@ -91,6 +146,33 @@ function App() {
             onCenterRequest={handleCenterRequest}
             followMode={followMode}
           />
+
+          <RouteControl
+            waypoints={routeWaypoints}
+            activeWaypointIndex={activeWaypointIndex}
+            isEditing={isEditingRoute}
+            error={routeError}
+            onEditingChange={setIsEditingRoute}
+            onWaypointsChange={handleRouteChange}
+            onRouteStateChange={handleRouteStateChange}
+          />
+
+          <ManeuverControl position={position} onManeuverChange={setManeuver} />
+
+          <PlaybackControl
+            onTrackChange={setTrackPoints}
+            onPositionChange={handlePositionControlChange}
+          />
+
+          <RecordingControl />
+
+          <TrafficControl onTrafficChange={setTraffic} />
+
+          <ScenarioControl />
+
+          <WindControl />
+
+          <DegradationControl />
         </aside>
       </main>
     </div>
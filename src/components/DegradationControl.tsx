@@ -0,0 +1,134 @@
+/**
+ * DegradationControl Component
+ *
+ * Injects GPS failures (noise, drift, jumps, stale data, loss of fix and
+ * reduced integrity) to show how EFBs handle outages and RAIM loss
+ */
+
+import { useState, useEffect } from 'react';
+import { getDegradation, updateDegradation, clearDegradation } from '../services/gpsApi';
+import { DegradationConfig, DegradationState } from '../types/degradation';
+
+/**
+ * How often the accumulated drift is refreshed from the server
+ */
+const STATE_POLL_INTERVAL_MS = 2000;
+
+type NumericSetting = 'noise' | 'drift' | 'jumpInterval' | 'jumpDistance' | 'nic' | 'nacp';
+
+const NUMERIC_SETTINGS: { field: NumericSetting; label: string; unit: string; max: number; step: number }[] = [
+  { field: 'noise', label: 'Noise', unit: 'm (1σ)', max: 1000, step: 5 },
+  { field: 'drift', label: 'Drift', unit: 'm/min', max: 1000, step: 10 },
+  { field: 'jumpInterval', label: 'Jump Every', unit: 's (0 = off)', max: 3600, step: 10 },
+  { field: 'jumpDistance', label: 'Jump Distance', unit: 'm', max: 10000, step: 100 },
+  { field: 'nic', label: 'NIC', unit: 'GDL 90 (0-11)', max: 11, step: 1 },
+  { field: 'nacp', label: 'NACp', unit: 'GDL 90 (0-11)', max: 11, step: 1 },
+];
+
+export default function DegradationControl() {
+  const [state, setState] = useState<DegradationState | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<NumericSetting, number>>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const poll = () => {
+      getDegradation()
+        .then(setState)
+        .catch((err) => {
+          // Server might not be running
+          console.error('Failed to get GPS degradation:', err);
+        });
+    };
+
+    poll();
+    const interval = setInterval(poll, STATE_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<DegradationState>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setState(await command());
+      setDraft({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update GPS degradation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = (field: keyof Pick<DegradationConfig, 'freeze' | 'lossOfFix'>, value: boolean) =>
+    runCommand(() => updateDegradation({ [field]: value }));
+
+  const hasDraft = Object.keys(draft).length > 0;
+
+  return (
+    <div className="degradation-control">
+      <h3>GPS Degradation</h3>
+
+      <div className="control-grid">
+        {NUMERIC_SETTINGS.map(({ field, label, unit, max, step }) => (
+          <div className="control-group" key={field}>
+            <label htmlFor={`degradation-${field}`}>{label}</label>
+            <input
+              id={`degradation-${field}`}
+              type="number"
+              min="0"
+              max={max}
+              step={step}
+              value={draft[field] ?? state?.[field] ?? 0}
+              onChange={(e) => setDraft({ ...draft, [field]: parseFloat(e.target.value) || 0 })}
+              disabled={isLoading || !state}
+            />
+            <span className="unit">{unit}</span>
+          </div>
+        ))}
+      </div>
+
+      <label className="checkbox-option">
+        <input
+          type="checkbox"
+          checked={state?.freeze ?? false}
+          onChange={(e) => handleToggle('freeze', e.target.checked)}
+          disabled={isLoading || !state}
+        />
+        Freeze position (stale data)
+      </label>
+      <label className="checkbox-option">
+        <input
+          type="checkbox"
+          checked={state?.lossOfFix ?? false}
+          onChange={(e) => handleToggle('lossOfFix', e.target.checked)}
+          disabled={isLoading || !state}
+        />
+        Loss of fix
+      </label>
+
+      <div className="button-group">
+        <button
+          onClick={() => runCommand(() => updateDegradation(draft))}
+          disabled={isLoading || !hasDraft}
+          className="btn btn-primary"
+        >
+          Apply
+        </button>
+        <button onClick={() => runCommand(clearDegradation)} disabled={isLoading || !state} className="btn btn-secondary">
+          Healthy GPS
+        </button>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {state && (
+        <p className="help-text-small">
+          {state.hasFix ? 'GPS fix' : 'No fix'}
+          {state.freeze && ' · frozen'}
+          {state.driftError > 0 && ` · drifted ${Math.round(state.driftError)} m`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * ManeuverControl Component
+ *
+ * Plans and flies holding patterns, orbits and DME arcs around a fix. The
+ * planned maneuver is drawn on the map from the aircraft's position until
+ * it is executed.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { clearManeuver, executeManeuver, getManeuver, planManeuver } from '../services/gpsApi';
+import { GPSPosition } from '../types/gps';
+import {
+  HoldEntry,
+  LegUnit,
+  MANEUVER_TYPES,
+  ManeuverDefinition,
+  ManeuverState,
+  ManeuverType,
+  TurnDirection,
+} from '../types/maneuver';
+
+/**
+ * How often the maneuver is polled from the server
+ */
+const MANEUVER_POLL_INTERVAL_MS = 1000;
+
+const MANEUVER_LABELS: Record<ManeuverType, string> = {
+  hold: 'Hold',
+  orbit: 'Orbit',
+  dmeArc: 'DME arc',
+};
+
+const ENTRY_LABELS: Record<HoldEntry, string> = {
+  direct: 'direct entry',
+  teardrop: 'teardrop entry',
+  parallel: 'parallel entry',
+};
+
+interface ManeuverControlProps {
+  position: GPSPosition;
+  onManeuverChange: (state: ManeuverState) => void;
+}
+
+export default function ManeuverControl({ position, onManeuverChange }: ManeuverControlProps) {
+  const [state, setState] = useState<ManeuverState | null>(null);
+  const [type, setType] = useState<ManeuverType>('hold');
+  const [fixLatitude, setFixLatitude] = useState(position.latitude);
+  const [fixLongitude, setFixLongitude] = useState(position.longitude);
+  const [turnDirection, setTurnDirection] = useState<TurnDirection>('right');
+  const [inboundCourse, setInboundCourse] = useState(0);
+  const [legLength, setLegLength] = useState(1);
+  const [legUnit, setLegUnit] = useState<LegUnit>('min');
+  const [radius, setRadius] = useState(2);
+  const [startRadial, setStartRadial] = useState('');
+  const [endRadial, setEndRadial] = useState(90);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback in a ref so the polling loop isn't restarted every render
+  const onManeuverChangeRef = useRef(onManeuverChange);
+  onManeuverChangeRef.current = onManeuverChange;
+
+  const refresh = async () => {
+    try {
+      const maneuver = await getManeuver();
+      setState(maneuver);
+      onManeuverChangeRef.current(maneuver);
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get maneuver:', err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, MANEUVER_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const definition = (): ManeuverDefinition => ({
+    type,
+    fix: { latitude: fixLatitude, longitude: fixLongitude },
+    turnDirection,
+    ...(type === 'hold' && { inboundCourse, legLength, legUnit }),
+    ...(type !== 'hold' && { radius }),
+    ...(type === 'dmeArc' && {
+      endRadial,
+      ...(startRadial.trim() !== '' && { startRadial: parseInt(startRadial) || 0 }),
+    }),
+  });
+
+  const runCommand = async (command: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await command();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Maneuver command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Plan first so the maneuver flown is the one on the form
+  const handleExecute = () =>
+    runCommand(async () => {
+      await planManeuver(definition());
+      await executeManeuver();
+    });
+
+  const handleUseAircraftPosition = () => {
+    setFixLatitude(parseFloat(position.latitude.toFixed(6)));
+    setFixLongitude(parseFloat(position.longitude.toFixed(6)));
+  };
+
+  const status = (() => {
+    if (!state?.maneuver) return null;
+    const label = MANEUVER_LABELS[state.maneuver.type];
+    const entry = state.entry ? ` (${ENTRY_LABELS[state.entry]})` : '';
+    if (state.isComplete) return `${label} complete`;
+    return state.active ? `Flying ${label.toLowerCase()}${entry}` : `${label} planned${entry}`;
+  })();
+
+  return (
+    <div className="maneuver-control">
+      <h3>Maneuvers</h3>
+
+      <div className="control-grid">
+        <div className="control-group">
+          <label htmlFor="maneuverType">Maneuver</label>
+          <select
+            id="maneuverType"
+            value={type}
+            onChange={(e) => setType(e.target.value as ManeuverType)}
+            disabled={isLoading}
+          >
+            {MANEUVER_TYPES.map((value) => (
+              <option key={value} value={value}>
+                {MANEUVER_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="maneuverTurns">Turns</label>
+          <select
+            id="maneuverTurns"
+            value={turnDirection}
+            onChange={(e) => setTurnDirection(e.target.value as TurnDirection)}
+            disabled={isLoading}
+          >
+            <option value="right">Right</option>
+            <option value="left">Left</option>
+          </select>
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="fixLatitude">{type === 'hold' ? 'Fix' : 'Center'} latitude</label>
+          <input
+            id="fixLatitude"
+            type="number"
+            step="0.0001"
+            value={fixLatitude}
+            onChange={(e) => setFixLatitude(parseFloat(e.target.value) || 0)}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="fixLongitude">{type === 'hold' ? 'Fix' : 'Center'} longitude</label>
+          <input
+            id="fixLongitude"
+            type="number"
+            step="0.0001"
+            value={fixLongitude}
+            onChange={(e) => setFixLongitude(parseFloat(e.target.value) || 0)}
+            disabled={isLoading}
+          />
+        </div>
+
+        {type === 'hold' ? (
+          <>
+            <div className="control-group">
+              <label htmlFor="inboundCourse">Inbound course</label>
+              <input
+                id="inboundCourse"
+                type="number"
+                min="0"
+                max="359"
+                value={inboundCourse}
+                onChange={(e) => setInboundCourse(parseInt(e.target.value) || 0)}
+                disabled={isLoading}
+              />
+              <span className="unit">° true</span>
+            </div>
+
+            <div className="control-group">
+              <label htmlFor="legLength">Legs</label>
+              <div className="option-row">
+                <input
+                  id="legLength"
+                  type="number"
+                  min="0.5"
+                  max="30"
+                  step="0.5"
+                  value={legLength}
+                  onChange={(e) => setLegLength(parseFloat(e.target.value) || 1)}
+                  disabled={isLoading}
+                />
+                <select
+                  aria-label="Leg unit"
+                  value={legUnit}
+                  onChange={(e) => setLegUnit(e.target.value as LegUnit)}
+                  disabled={isLoading}
+                >
+                  <option value="min">min</option>
+                  <option value="nm">NM</option>
+                </select>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="control-group">
+            <label htmlFor="maneuverRadius">{type === 'dmeArc' ? 'DME' : 'Radius'}</label>
+            <input
+              id="maneuverRadius"
+              type="number"
+              min="0.5"
+              max="100"
+              step="0.5"
+              value={radius}
+              onChange={(e) => setRadius(parseFloat(e.target.value) || 1)}
+              disabled={isLoading}
+            />
+            <span className="unit">NM</span>
+          </div>
+        )}
+
+        {type === 'dmeArc' && (
+          <>
+            <div className="control-group">
+              <label htmlFor="endRadial">To radial</label>
+              <input
+                id="endRadial"
+                type="number"
+                min="0"
+                max="359"
+                value={endRadial}
+                onChange={(e) => setEndRadial(parseInt(e.target.value) || 0)}
+                disabled={isLoading}
+              />
+              <span className="unit">° true</span>
+            </div>
+
+            <div className="control-group">
+              <label htmlFor="startRadial">From radial</label>
+              <input
+                id="startRadial"
+                type="number"
+                min="0"
+                max="359"
+                placeholder="Aircraft"
+                value={startRadial}
+                onChange={(e) => setStartRadial(e.target.value)}
+                disabled={isLoading}
+              />
+              <span className="unit">° true</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="button-group">
+        <button onClick={handleUseAircraftPosition} disabled={isLoading} className="btn btn-secondary">
+          Fix at Aircraft
+        </button>
+        <button
+          onClick={() => runCommand(() => planManeuver(definition()))}
+          disabled={isLoading}
+          className="btn btn-secondary"
+        >
+          Preview
+        </button>
+        <button onClick={handleExecute} disabled={isLoading} className="btn btn-primary">
+          Execute
+        </button>
+        {state?.maneuver && (
+          <button onClick={() => runCommand(clearManeuver)} disabled={isLoading} className="btn btn-secondary">
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {status && <div className="maneuver-status">{status}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text-small">
+        Maneuvers are flown en route and take over from the route until cancelled. A DME arc ends at its
+        radial; the aircraft then carries on along its route or heading.
+      </p>
+    </div>
+  );
+}
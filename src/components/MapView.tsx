@@ -4,10 +4,16 @@
  * Interactive map for selecting and displaying GPS position
  */
 
-import React, { useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, useMapEvents, useMap } from 'react-leaflet';
+import React, { useEffect, useRef, useState } from 'react';
+import { MapContainer, TileLayer, LayersControl, Marker, Polyline, useMapEvents, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { Waypoint } from '../types/route';
+import { TrackPoint } from '../types/track';
+import { TrafficTarget } from '../types/traffic';
+import { ManeuverState } from '../types/maneuver';
+import { MapLayer } from '../types/tiles';
+import { getMapLayers, mapLayerTileUrl } from '../services/gpsApi';
 
 // Fix for default marker icon in React-Leaflet
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -30,11 +36,23 @@ const airplaneIcon = L.divIcon({
   iconAnchor: [15, 15],
 });
 
+const OSM_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const OSM_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
 interface MapViewProps {
   position: { lat: number; lng: number };
   heading?: number;
   onPositionChange: (lat: number, lng: number) => void;
   followMode?: boolean;
+  route?: Waypoint[];
+  activeWaypointIndex?: number | null;
+  isEditingRoute?: boolean;
+  onRouteChange?: (waypoints: Waypoint[]) => void;
+  track?: TrackPoint[];
+  traffic?: TrafficTarget[];
+  maneuver?: ManeuverState | null;
+  ownshipAltitude?: number;
 }
 
 /**
@@ -53,6 +71,134 @@ function MapClickHandler({
   return null;
 }
 
+/**
+ * Create a numbered waypoint icon
+ */
+function waypointIcon(label: string, isActive: boolean): L.DivIcon {
+  return L.divIcon({
+    className: `waypoint-marker${isActive ? ' active' : ''}`,
+    html: `<div>${label}</div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+}
+
+/**
+ * Route polyline and waypoint markers (draggable while editing)
+ */
+function RouteLayer({
+  waypoints,
+  activeWaypointIndex,
+  isEditing,
+  onRouteChange,
+}: {
+  waypoints: Waypoint[];
+  activeWaypointIndex: number | null;
+  isEditing: boolean;
+  onRouteChange?: (waypoints: Waypoint[]) => void;
+}) {
+  const handleMove = (index: number, lat: number, lng: number) => {
+    onRouteChange?.(
+      waypoints.map((waypoint, i) =>
+        i === index ? { ...waypoint, latitude: lat, longitude: lng } : waypoint
+      )
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    onRouteChange?.(waypoints.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {waypoints.length > 1 && (
+        <Polyline
+          positions={waypoints.map((waypoint) => [waypoint.latitude, waypoint.longitude])}
+          pathOptions={{ color: '#8b5cf6', weight: 3 }}
+        />
+      )}
+      {waypoints.map((waypoint, index) => (
+        <Marker
+          key={index}
+          position={[waypoint.latitude, waypoint.longitude]}
+          icon={waypointIcon(waypoint.name || `${index + 1}`, index === activeWaypointIndex)}
+          draggable={isEditing}
+          title={waypoint.name || `WP${index + 1}`}
+          eventHandlers={{
+            dragend: (e) => {
+              const latlng = (e.target as L.Marker).getLatLng();
+              handleMove(index, latlng.lat, latlng.lng);
+            },
+            contextmenu: () => {
+              if (isEditing) {
+                handleRemove(index);
+              }
+            },
+          }}
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Maneuver path: dashed while planned, solid while flown, with a thinner
+ * line for the entry and a marker on the fix
+ */
+function ManeuverLayer({ maneuver }: { maneuver: ManeuverState }) {
+  if (!maneuver.maneuver) {
+    return null;
+  }
+
+  const { fix } = maneuver.maneuver;
+  const dashArray = maneuver.active ? undefined : '8 6';
+  return (
+    <>
+      {maneuver.entryPath.length > 1 && (
+        <Polyline
+          positions={maneuver.entryPath.map((point) => [point.latitude, point.longitude])}
+          pathOptions={{ color: '#0891b2', weight: 2, opacity: 0.7, dashArray: '4 6' }}
+        />
+      )}
+      {maneuver.path.length > 1 && (
+        <Polyline
+          positions={maneuver.path.map((point) => [point.latitude, point.longitude])}
+          pathOptions={{ color: '#0891b2', weight: 3, dashArray }}
+        />
+      )}
+      <Marker
+        position={[fix.latitude, fix.longitude]}
+        icon={L.divIcon({
+          className: 'maneuver-fix-marker',
+          html: `<div>${fix.name || '◆'}</div>`,
+          iconSize: [20, 20],
+          iconAnchor: [10, 10],
+        })}
+        title={fix.name || 'Maneuver fix'}
+        interactive={false}
+      />
+    </>
+  );
+}
+
+/**
+ * Create a traffic icon: a track arrow with the callsign and relative altitude
+ */
+function trafficIcon(target: TrafficTarget, ownshipAltitude?: number): L.DivIcon {
+  const relative =
+    ownshipAltitude === undefined
+      ? ''
+      : ` ${target.position.altitude >= ownshipAltitude ? '+' : '-'}${String(
+          Math.round(Math.abs(target.position.altitude - ownshipAltitude) / 100)
+        ).padStart(2, '0')}`;
+  return L.divIcon({
+    className: `traffic-marker${target.alert ? ' alert' : ''}`,
+    html: `<div class="traffic-arrow" style="transform: rotate(${target.position.track}deg);">▲</div><span>${target.callsign}${relative}</span>`,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+  });
+}
+
 /**
  * Component to update map view when position changes
  */
@@ -110,7 +256,94 @@ function AirplaneMarker({
   return <Marker ref={markerRef} position={[position.lat, position.lng]} icon={airplaneIcon} />;
 }
 
-export default function MapView({ position, heading = 0, onPositionChange, followMode = false }: MapViewProps) {
+/**
+ * Tile layer for an offline MBTiles layer. Tiles are only requested inside
+ * its bounds, and scaled up beyond its highest zoom.
+ */
+function OfflineTileLayer({ layer }: { layer: MapLayer }) {
+  const bounds = layer.bounds
+    ? L.latLngBounds([layer.bounds[1], layer.bounds[0]], [layer.bounds[3], layer.bounds[2]])
+    : undefined;
+  return (
+    <TileLayer
+      url={mapLayerTileUrl(layer)}
+      attribution={layer.attribution ?? undefined}
+      minNativeZoom={layer.minZoom}
+      maxNativeZoom={layer.maxZoom}
+      bounds={bounds}
+    />
+  );
+}
+
+/**
+ * Layer switcher for the offline map layers, with online OpenStreetMap as
+ * the fallback base layer (and the default when there are no local ones)
+ */
+function MapLayers() {
+  const [layers, setLayers] = useState<MapLayer[] | null>(null);
+
+  useEffect(() => {
+    getMapLayers()
+      .then((status) => {
+        setLayers(status.layers);
+        status.errors.forEach(({ file, error }) => console.warn(`Map layer ${file}: ${error}`));
+      })
+      .catch((err) => {
+        console.error('Failed to get offline map layers:', err);
+        setLayers([]);
+      });
+  }, []);
+
+  // Wait for the list so only one base layer starts checked
+  if (layers === null) {
+    return null;
+  }
+
+  const baseLayers = layers.filter((layer) => !layer.overlay);
+  const overlays = layers.filter((layer) => layer.overlay);
+
+  return (
+    <LayersControl position="topright">
+      {baseLayers.map((layer, index) => (
+        <LayersControl.BaseLayer key={layer.id} name={layer.name} checked={index === 0}>
+          <OfflineTileLayer layer={layer} />
+        </LayersControl.BaseLayer>
+      ))}
+      <LayersControl.BaseLayer name="OpenStreetMap (online)" checked={baseLayers.length === 0}>
+        <TileLayer attribution={OSM_ATTRIBUTION} url={OSM_TILE_URL} />
+      </LayersControl.BaseLayer>
+      {overlays.map((layer) => (
+        <LayersControl.Overlay key={layer.id} name={layer.name}>
+          <OfflineTileLayer layer={layer} />
+        </LayersControl.Overlay>
+      ))}
+    </LayersControl>
+  );
+}
+
+export default function MapView({
+  position,
+  heading = 0,
+  onPositionChange,
+  followMode = false,
+  route = [],
+  activeWaypointIndex = null,
+  isEditingRoute = false,
+  onRouteChange,
+  track = [],
+  traffic = [],
+  maneuver = null,
+  ownshipAltitude,
+}: MapViewProps) {
+  // While editing the route, map clicks append waypoints instead of moving the aircraft
+  const handleMapClick = (lat: number, lng: number) => {
+    if (isEditingRoute) {
+      onRouteChange?.([...route, { latitude: lat, longitude: lng }]);
+    } else {
+      onPositionChange(lat, lng);
+    }
+  };
+
   return (
     <div className="map-container">
       <MapContainer
@@ -118,12 +351,31 @@ export default function MapView({ position, heading = 0, onPositionChange, follo
         zoom={13}
         style={{ height: '100%', width: '100%' }}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
-        <MapClickHandler onPositionChange={onPositionChange} />
+        <MapLayers />
+        <MapClickHandler onPositionChange={handleMapClick} />
         <MapViewController position={position} followMode={followMode} />
+        {track.length > 1 && (
+          <Polyline
+            positions={track.map((point) => [point.latitude, point.longitude])}
+            pathOptions={{ color: '#f59e0b', weight: 3, opacity: 0.8 }}
+          />
+        )}
+        <RouteLayer
+          waypoints={route}
+          activeWaypointIndex={activeWaypointIndex}
+          isEditing={isEditingRoute}
+          onRouteChange={onRouteChange}
+        />
+        {maneuver && <ManeuverLayer maneuver={maneuver} />}
+        {traffic.map((target) => (
+          <Marker
+            key={target.id}
+            position={[target.position.latitude, target.position.longitude]}
+            icon={trafficIcon(target, ownshipAltitude)}
+            title={`${target.callsign} (${target.behavior}) ${Math.round(target.position.altitude)} ft`}
+            interactive={false}
+          />
+        ))}
         <AirplaneMarker position={position} heading={heading} />
       </MapContainer>
     </div>
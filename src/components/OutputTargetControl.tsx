@@ -0,0 +1,194 @@
+/**
+ * OutputTargetControl Component
+ *
+ * Adds, enables and removes the additional devices the GPS server sends
+ * to, each with its own protocol and update rate, and shows their send
+ * counters
+ */
+
+import { useState, useEffect } from 'react';
+import { addOutputTarget, getOutputTargets, removeOutputTarget, updateOutputTarget } from '../services/gpsApi';
+import { OutputTarget, OutputTargetConfig, TARGET_PROTOCOLS, TargetProtocol } from '../types/target';
+
+/**
+ * How often the send counters are polled from the server
+ */
+const TARGET_POLL_INTERVAL_MS = 2000;
+
+const PROTOCOL_LABELS: Record<TargetProtocol, string> = {
+  xgps: 'XGPS',
+  gdl90: 'GDL 90',
+  nmea: 'NMEA',
+};
+
+/**
+ * Port each protocol is usually received on
+ */
+const DEFAULT_PORTS: Record<TargetProtocol, number> = {
+  xgps: 49002,
+  gdl90: 4000,
+  nmea: 10110,
+};
+
+const NEW_TARGET: OutputTargetConfig = {
+  name: '',
+  ip: '',
+  port: DEFAULT_PORTS.gdl90,
+  protocol: 'gdl90',
+  updateRate: 1,
+  enabled: true,
+};
+
+export default function OutputTargetControl() {
+  const [targets, setTargets] = useState<OutputTarget[]>([]);
+  const [draft, setDraft] = useState<OutputTargetConfig>(NEW_TARGET);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTargets(await getOutputTargets());
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get output targets:', err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, TARGET_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await command();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Output target command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = () =>
+    runCommand(async () => {
+      await addOutputTarget({ ...draft, name: draft.name.trim() || draft.ip.trim(), ip: draft.ip.trim() });
+      setDraft(NEW_TARGET);
+    });
+
+  const handleToggle = (target: OutputTarget) => {
+    const { name, ip, port, protocol, updateRate } = target;
+    runCommand(() => updateOutputTarget(target.id, { name, ip, port, protocol, updateRate, enabled: !target.enabled }));
+  };
+
+  return (
+    <div className="output-target-control">
+      <h3>Output Targets</h3>
+
+      {targets.length > 0 ? (
+        <ul className="output-target-list">
+          {targets.map((target) => (
+            <li key={target.id} className={target.stats.errors > 0 ? 'has-errors' : ''}>
+              <input
+                type="checkbox"
+                aria-label={`Send to ${target.name}`}
+                checked={target.enabled}
+                onChange={() => handleToggle(target)}
+                disabled={isLoading}
+              />
+              <span className="output-target-name">{target.name}</span>
+              <span className="output-target-details" title={target.stats.lastError ?? undefined}>
+                {PROTOCOL_LABELS[target.protocol]} · {target.ip}:{target.port} · {target.updateRate} Hz ·{' '}
+                {target.stats.sent} sent
+                {target.stats.errors > 0 && `, ${target.stats.errors} errors`}
+              </span>
+              <button
+                onClick={() => runCommand(() => removeOutputTarget(target.id))}
+                disabled={isLoading}
+                className="waypoint-remove"
+                title="Remove target"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="help-text-small">No additional targets.</p>
+      )}
+
+      <div className="option-row">
+        <input
+          type="text"
+          aria-label="Target name"
+          placeholder="Name"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          disabled={isLoading}
+        />
+        <input
+          type="text"
+          aria-label="Target IP address"
+          placeholder="192.168.1.101"
+          value={draft.ip}
+          onChange={(e) => setDraft({ ...draft, ip: e.target.value })}
+          disabled={isLoading}
+        />
+      </div>
+      <div className="option-row">
+        <select
+          aria-label="Target protocol"
+          value={draft.protocol}
+          onChange={(e) => {
+            const protocol = e.target.value as TargetProtocol;
+            setDraft({ ...draft, protocol, port: DEFAULT_PORTS[protocol] });
+          }}
+          disabled={isLoading}
+        >
+          {TARGET_PROTOCOLS.map((value) => (
+            <option key={value} value={value}>
+              {PROTOCOL_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          aria-label="Target port"
+          min="1"
+          max="65535"
+          value={draft.port}
+          onChange={(e) => setDraft({ ...draft, port: parseInt(e.target.value) || 0 })}
+          disabled={isLoading}
+        />
+        <select
+          aria-label="Target update rate"
+          value={draft.updateRate}
+          onChange={(e) => setDraft({ ...draft, updateRate: parseInt(e.target.value) })}
+          disabled={isLoading}
+        >
+          {[1, 2, 5, 10].map((rate) => (
+            <option key={rate} value={rate}>
+              {rate} Hz
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="button-group">
+        <button onClick={handleAdd} disabled={isLoading || !draft.ip.trim()} className="btn btn-primary">
+          Add Target
+        </button>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text-small">
+        Targets receive position and traffic while the server is running, alongside the device IP above.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * PlaybackControl Component
+ *
+ * Loads a recorded flight track and controls its replay (play/pause,
+ * scrubber, speed and loop)
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  getFlightState,
+  getPlaybackState,
+  getPlaybackTrack,
+  loadTrack,
+  pauseTrack,
+  playTrack,
+  seekTrack,
+  unloadTrack,
+  updatePlaybackOptions,
+} from '../services/gpsApi';
+import { GPSPosition } from '../types/gps';
+import { PlaybackState, TrackPoint } from '../types/track';
+
+/**
+ * How often playback state is polled from the server
+ */
+const PLAYBACK_POLL_INTERVAL_MS = 500;
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+interface PlaybackControlProps {
+  onTrackChange: (points: TrackPoint[]) => void;
+  onPositionChange: (position: Partial<GPSPosition>) => void;
+}
+
+/**
+ * Format seconds as h:mm:ss
+ */
+function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+  const s = (total % 60).toString().padStart(2, '0');
+  return `${h}:${m}:${s}`;
+}
+
+export default function PlaybackControl({ onTrackChange, onPositionChange }: PlaybackControlProps) {
+  const [state, setState] = useState<PlaybackState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest callbacks in refs so the polling loop isn't restarted every render
+  const onTrackChangeRef = useRef(onTrackChange);
+  const onPositionChangeRef = useRef(onPositionChange);
+  onTrackChangeRef.current = onTrackChange;
+  onPositionChangeRef.current = onPositionChange;
+
+  // Poll playback state, mirroring the replayed position while playing
+  useEffect(() => {
+    let lastPointCount = -1;
+    let lastPosition = -1;
+
+    const poll = async () => {
+      try {
+        const playback = await getPlaybackState();
+        setState(playback);
+
+        // Fetch the full track when a different one is loaded
+        if (playback.pointCount !== lastPointCount) {
+          lastPointCount = playback.pointCount;
+          onTrackChangeRef.current(playback.isLoaded ? await getPlaybackTrack() : []);
+        }
+
+        if (playback.isLoaded && playback.position !== lastPosition) {
+          lastPosition = playback.position;
+          const flight = await getFlightState();
+          if (flight.position) {
+            const { latitude, longitude, altitude, heading, groundSpeed, verticalSpeed } = flight.position;
+            onPositionChangeRef.current({ latitude, longitude, altitude, heading, groundSpeed, verticalSpeed });
+          }
+        }
+      } catch (err) {
+        // Server might not be running
+        console.error('Failed to get playback state:', err);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, PLAYBACK_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<PlaybackState | void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await command();
+      if (result) {
+        setState(result);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Playback command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoad = (file: File) =>
+    runCommand(async () => {
+      const result = await loadTrack(file);
+      onTrackChange(await getPlaybackTrack());
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      return result;
+    });
+
+  const handleUnload = () =>
+    runCommand(async () => {
+      await unloadTrack();
+      onTrackChange([]);
+      setState(null);
+    });
+
+  const isLoaded = state?.isLoaded ?? false;
+  const position = scrubPosition ?? state?.position ?? 0;
+
+  return (
+    <div className="playback-control">
+      <h3>Track Playback</h3>
+
+      <div className="button-group">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="btn btn-secondary"
+        >
+          Load Track
+        </button>
+        <button
+          onClick={handleUnload}
+          disabled={isLoading || !isLoaded}
+          className="btn btn-secondary"
+        >
+          Unload
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".gpx,.kml,.csv,.igc"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleLoad(file);
+          }
+        }}
+      />
+
+      {isLoaded && state && (
+        <>
+          <p className="playback-name">
+            {state.name ?? 'Track'} ({state.format?.toUpperCase()}, {state.pointCount} fixes)
+          </p>
+
+          <div className="playback-scrubber">
+            <input
+              type="range"
+              min={0}
+              max={state.duration}
+              step={1}
+              value={position}
+              onChange={(e) => setScrubPosition(parseFloat(e.target.value))}
+              onMouseUp={() => {
+                if (scrubPosition !== null) {
+                  runCommand(() => seekTrack(scrubPosition));
+                  setScrubPosition(null);
+                }
+              }}
+              onKeyUp={() => {
+                if (scrubPosition !== null) {
+                  runCommand(() => seekTrack(scrubPosition));
+                  setScrubPosition(null);
+                }
+              }}
+            />
+            <span className="playback-time">
+              {formatDuration(position)} / {formatDuration(state.duration)}
+            </span>
+          </div>
+
+          <div className="playback-options">
+            <button
+              onClick={() => runCommand(state.isPlaying ? pauseTrack : playTrack)}
+              disabled={isLoading}
+              className="btn btn-fly"
+            >
+              {state.isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <select
+              aria-label="Playback speed"
+              value={state.speed}
+              onChange={(e) =>
+                runCommand(() => updatePlaybackOptions({ speed: parseFloat(e.target.value) }))
+              }
+            >
+              {PLAYBACK_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>
+                  {speed}×
+                </option>
+              ))}
+            </select>
+            <label>
+              <input
+                type="checkbox"
+                checked={state.loop}
+                onChange={(e) => runCommand(() => updatePlaybackOptions({ loop: e.target.checked }))}
+              />
+              Loop
+            </label>
+          </div>
+        </>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text">
+        Replay a recorded flight from a GPX, KML, CSV or IGC track file.
+      </p>
+    </div>
+  );
+}
@@ -1,12 +1,43 @@
 /**
  * PositionControl Component
  *
- * Manual controls for adjusting GPS position parameters
+ * Manual controls for adjusting GPS position parameters, with autopilot
+ * "selected" bugs the server-side flight engine flies toward, takeoff and
+ * landing
  */
 
 import React, { useState, useRef, useEffect } from 'react';
 import { GPSPosition } from '../types/gps';
-import { updatePosition } from '../services/gpsApi';
+import { AutopilotTargets } from '../types/autopilot';
+import { AircraftProfile } from '../types/profile';
+import { Airport } from '../types/airport';
+import { FLIGHT_PHASE_LABELS, FlightPhase, GROUND_PHASES, LandingClearance } from '../types/phase';
+import {
+  getFlightState,
+  startFlight,
+  stopFlight,
+  patchPosition,
+  updateAutopilot,
+  getProfiles,
+  selectProfile,
+  subscribeToEvents,
+  searchAirports,
+  spawnAtRunway,
+  landAtRunway,
+  takeOff,
+  getTerrainElevation,
+  setTerrainBlocking,
+} from '../services/gpsApi';
+
+/**
+ * Delay after typing before the airport database is searched
+ */
+const AIRPORT_SEARCH_DELAY_MS = 300;
+
+/**
+ * Delay after the position moves before the ground elevation is looked up
+ */
+const TERRAIN_LOOKUP_DELAY_MS = 500;
 
 interface PositionControlProps {
   position: GPSPosition;
@@ -17,6 +48,171 @@ interface PositionControlProps {
   followMode?: boolean;
 }
 
+/**
+ * Selected-value input: edits are sent when committed (Enter or blur), and
+ * clearing the field disengages the target
+ */
+function SelectedBug({
+  id,
+  value,
+  onCommit,
+  disabled,
+  step,
+  allowOff = true,
+}: {
+  id: string;
+  value: number | null;
+  onCommit: (value: number | null) => void;
+  disabled: boolean;
+  step: number;
+  allowOff?: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseInt(draft);
+    if (Number.isFinite(parsed)) {
+      onCommit(parsed);
+    } else if (allowOff) {
+      onCommit(null);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="selected-bug">
+      <label htmlFor={id}>SEL</label>
+      <input
+        id={id}
+        type="number"
+        step={step}
+        placeholder="off"
+        value={draft ?? (value === null ? '' : Math.round(value))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+/**
+ * Airport search by ident or name; picking a runway end places the
+ * aircraft on its threshold or, while airborne, lands on it
+ */
+function RunwaySpawn({
+  onSpawn,
+  onError,
+  disabled,
+  canLand,
+}: {
+  onSpawn: (position: GPSPosition) => void;
+  onError: (message: string | null) => void;
+  disabled: boolean;
+  canLand: boolean;
+}) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Airport[]>([]);
+  const [airport, setAirport] = useState<Airport | null>(null);
+
+  useEffect(() => {
+    if (airport || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      searchAirports(query)
+        .then((airports) => {
+          setResults(airports);
+          onError(null);
+        })
+        .catch((err) => onError(err instanceof Error ? err.message : 'Failed to search airports'));
+    }, AIRPORT_SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, airport, onError]);
+
+  const handleSpawn = (runway: string) => {
+    if (!airport) return;
+    onError(null);
+    spawnAtRunway(airport.ident, runway)
+      .then(onSpawn)
+      .catch((err) => onError(err instanceof Error ? err.message : 'Failed to place aircraft on runway'));
+  };
+
+  const handleLand = (runway: string) => {
+    if (!airport) return;
+    onError(null);
+    landAtRunway(airport.ident, runway).catch((err) =>
+      onError(err instanceof Error ? err.message : 'Failed to start landing')
+    );
+  };
+
+  const runwayEnds = airport
+    ? airport.runways.filter((runway) => !runway.closed).flatMap((runway) => runway.ends)
+    : [];
+
+  return (
+    <div className="runway-spawn">
+      <label htmlFor="airportSearch">Airport</label>
+      <input
+        id="airportSearch"
+        type="text"
+        placeholder="Ident or name (e.g., KDEN)"
+        value={airport ? `${airport.ident} · ${airport.name}` : query}
+        onChange={(e) => {
+          setAirport(null);
+          setQuery(e.target.value);
+        }}
+        disabled={disabled}
+      />
+      {results.length > 0 && (
+        <ul className="airport-results">
+          {results.map((result) => (
+            <li key={result.ident}>
+              <button
+                onClick={() => {
+                  setAirport(result);
+                  setResults([]);
+                }}
+              >
+                <strong>{result.ident}</strong> {result.name}
+                {result.municipality && <span className="airport-location"> · {result.municipality}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {airport && (
+        <div className="runway-ends">
+          {runwayEnds.length === 0 && <span className="help-text-small">No open runways listed</span>}
+          {runwayEnds.map((end) => (
+            <button
+              key={end.ident}
+              onClick={() => (canLand ? handleLand(end.ident) : handleSpawn(end.ident))}
+              disabled={disabled}
+              className="btn btn-runway"
+              title={
+                canLand
+                  ? `Land on runway ${end.ident}`
+                  : `Line up on runway ${end.ident}, heading ${Math.round(end.heading)}° true`
+              }
+            >
+              {end.ident}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function PositionControl({
   position,
   onPositionChange,
@@ -26,20 +222,91 @@ export default function PositionControl({
   followMode = false,
 }: PositionControlProps) {
   const [isFlying, setIsFlying] = useState(false);
-  const flightIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [autopilot, setAutopilot] = useState<AutopilotTargets | null>(null);
+  const [profiles, setProfiles] = useState<AircraftProfile[]>([]);
+  const [profile, setProfile] = useState<AircraftProfile | null>(null);
+  const [phase, setPhase] = useState<FlightPhase | null>(null);
+  const [landing, setLanding] = useState<LandingClearance | null>(null);
+  const [groundElevation, setGroundElevation] = useState<number | null>(null);
+  const [terrainBlocking, setTerrainBlockingState] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callbacks in refs so the polling loop isn't restarted every render
+  const onPositionChangeRef = useRef(onPositionChange);
+  const onFlyingChangeRef = useRef(onFlyingChange);
+  onPositionChangeRef.current = onPositionChange;
+  onFlyingChangeRef.current = onFlyingChange;
 
   const handleChange = (field: keyof GPSPosition, value: number) => {
-    onPositionChange({ [field]: value });
+    // The wind is only solved while the server is flying, so until then the
+    // track and ground speed follow the heading and airspeed directly
+    if (!isFlying && field === 'trueHeading') {
+      onPositionChange({ trueHeading: value, heading: value });
+    } else if (!isFlying && field === 'trueAirspeed') {
+      onPositionChange({ trueAirspeed: value, groundSpeed: value });
+    } else {
+      onPositionChange({ [field]: value });
+    }
+
+    // While flying, the server owns the position, so send the change there too
+    if (isFlying && Number.isFinite(value)) {
+      patchPosition({ [field]: value }).catch((err) => {
+        console.error('Failed to update position while flying:', err);
+        setError(err instanceof Error ? err.message : 'Failed to update position');
+      });
+    }
+  };
+
+  const handleSelectedChange = (changes: Partial<AutopilotTargets>) => {
+    setError(null);
+    updateAutopilot(changes)
+      .then(setAutopilot)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to update autopilot');
+      });
+  };
+
+  const handleProfileChange = (id: string) => {
+    setError(null);
+    selectProfile(id)
+      .then(setProfile)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to select aircraft profile');
+      });
+  };
+
+  const handleTerrainBlockingChange = (blocking: boolean) => {
+    setError(null);
+    setTerrainBlocking(blocking)
+      .then(setTerrainBlockingState)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to update terrain blocking');
+      });
   };
 
-  const handleFlyToggle = () => {
-    setIsFlying((prev) => {
-      const newValue = !prev;
+  const handleTakeOff = () => {
+    setError(null);
+    takeOff().catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to take off');
+    });
+  };
+
+  const handleFlyToggle = async () => {
+    setError(null);
+    try {
+      if (isFlying) {
+        await stopFlight();
+      } else {
+        await startFlight({ ...position, timestamp: Date.now() });
+      }
+      const flying = !isFlying;
+      setIsFlying(flying);
       if (onFlyingChange) {
-        onFlyingChange(newValue);
+        onFlyingChange(flying);
       }
-      return newValue;
-    });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to toggle flight');
+    }
   };
 
   const handleCenterClick = () => {
@@ -48,80 +315,144 @@ export default function PositionControl({
     }
   };
 
+  // Follow the server-side flight engine and mirror its true position (not the
+  // degraded fix, which would otherwise become the start of the next flight)
   useEffect(() => {
-    if (isFlying) {
-      flightIntervalRef.current = setInterval(() => {
-        // Earth radius in meters
-        const R = 6378137;
-        const { latitude, longitude, altitude, heading, groundSpeed, verticalSpeed } = position;
-
-        // Time interval in seconds
-        const dt = 1;
-
-        // --- Horizontal Movement ---
-        const groundSpeedMs = groundSpeed * 0.514444; // knots to m/s
-        const distance = groundSpeedMs * dt;
-        const brng = (heading * Math.PI) / 180; // heading to radians
-        const lat1 = (latitude * Math.PI) / 180;
-        const lon1 = (longitude * Math.PI) / 180;
-
-        const lat2 = Math.asin(
-          Math.sin(lat1) * Math.cos(distance / R) +
-            Math.cos(lat1) * Math.sin(distance / R) * Math.cos(brng)
-        );
-        const lon2 =
-          lon1 +
-          Math.atan2(
-            Math.sin(brng) * Math.sin(distance / R) * Math.cos(lat1),
-            Math.cos(distance / R) - Math.sin(lat1) * Math.sin(lat2)
-          );
-
-        const newLatitude = (lat2 * 180) / Math.PI;
-        const newLongitude = (lon2 * 180) / Math.PI;
-
-        // --- Vertical Movement ---
-        const verticalSpeedFps = verticalSpeed / 60; // fpm to fps
-        const dAlt = verticalSpeedFps * dt;
-        const newAltitude = altitude + dAlt;
-
-        const newPosition: Partial<GPSPosition> = {
-          latitude: newLatitude,
-          longitude: newLongitude,
-          altitude: newAltitude,
-        };
-
-        onPositionChange(newPosition);
-
-        // Also send the full updated position to the server
-        const fullNewPosition = {
-          ...position,
-          ...newPosition,
-          timestamp: Date.now(),
-        };
-        updatePosition(fullNewPosition).catch((err) => {
-          console.error('Failed to auto-update position while flying:', err);
-          // Stop flying if there's a persistent error
-          setIsFlying(false);
-        });
-      }, 250);
-    } else {
-      if (flightIntervalRef.current) {
-        clearInterval(flightIntervalRef.current);
-        flightIntervalRef.current = null;
-      }
+    if (disabled) {
+      return;
     }
 
-    return () => {
-      if (flightIntervalRef.current) {
-        clearInterval(flightIntervalRef.current);
+    let wasFlying = false;
+    const setFlying = (flying: boolean) => {
+      if (flying !== wasFlying) {
+        wasFlying = flying;
+        setIsFlying(flying);
+        onFlyingChangeRef.current?.(flying);
+      }
+    };
+
+    const refresh = async () => {
+      try {
+        const state = await getFlightState();
+        setAutopilot(state.autopilot);
+        setProfile(state.profile);
+        setTerrainBlockingState(state.terrainBlocking);
+        setPhase(state.phase);
+        setLanding(state.landing);
+        setFlying(state.isFlying);
+      } catch (err) {
+        console.error('Failed to get flight state:', err);
       }
     };
-  }, [isFlying, position, onPositionChange]);
+
+    refresh();
+
+    const unsubscribers = [
+      subscribeToEvents('state', (event) => {
+        if (event.engine === 'flight') {
+          setFlying(event.running);
+          refresh();
+        }
+      }),
+      subscribeToEvents('phase', (event) => {
+        setPhase(event.phase);
+        setLanding(event.landing);
+        // Landing clears the selected targets
+        if (event.phase === 'approach') refresh();
+      }),
+      subscribeToEvents('position', ({ position }) => {
+        if (!wasFlying) return;
+        const {
+          latitude,
+          longitude,
+          altitude,
+          heading,
+          groundSpeed,
+          verticalSpeed,
+          trueHeading,
+          trueAirspeed,
+          onGround,
+        } = position;
+        onPositionChangeRef.current({
+          latitude,
+          longitude,
+          altitude,
+          heading,
+          groundSpeed,
+          verticalSpeed,
+          trueHeading,
+          trueAirspeed,
+          onGround,
+        });
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [disabled]);
+
+  // Look up the ground under the aircraft once it settles (or every few
+  // positions while flying) for the AGL readout
+  const { latitude, longitude } = position;
+  useEffect(() => {
+    if (disabled) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      getTerrainElevation(latitude, longitude)
+        .then(setGroundElevation)
+        .catch((err) => console.error('Failed to get terrain elevation:', err));
+    }, TERRAIN_LOOKUP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [latitude, longitude, disabled]);
+
+  // Load the aircraft profiles (JSON profiles are read when the list is requested)
+  useEffect(() => {
+    if (disabled) {
+      return;
+    }
+
+    getProfiles()
+      .then((status) => {
+        setProfiles(status.profiles);
+        status.errors.forEach(({ file, error }) => console.warn(`Aircraft profile ${file}: ${error}`));
+      })
+      .catch((err) => console.error('Failed to get aircraft profiles:', err));
+  }, [disabled]);
 
   return (
     <div className="position-control">
       <h3>Position Controls</h3>
 
+      <div className="profile-select">
+        <label htmlFor="aircraftProfile">Aircraft</label>
+        <select
+          id="aircraftProfile"
+          value={profile?.id ?? ''}
+          onChange={(e) => handleProfileChange(e.target.value)}
+          disabled={disabled || profiles.length === 0}
+        >
+          {profiles.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </option>
+          ))}
+        </select>
+        {profile && (
+          <span className="profile-summary">
+            {profile.callsign} · cruise {profile.cruiseSpeed} kts · climb {profile.climbRate} fpm · ceiling{' '}
+            {profile.serviceCeiling.toLocaleString()} ft
+          </span>
+        )}
+      </div>
+
+      <RunwaySpawn
+        onSpawn={(spawned) => onPositionChange(spawned)}
+        onError={setError}
+        disabled={disabled}
+        canLand={isFlying && phase !== null && !GROUND_PHASES.includes(phase)}
+      />
+
       <div className="control-grid">
         <div className="control-group">
           <label htmlFor="latitude">Latitude</label>
@@ -165,7 +496,19 @@ export default function PositionControl({
             onChange={(e) => handleChange('altitude', parseInt(e.target.value))}
             disabled={disabled || isFlying}
           />
-          <span className="unit">ft MSL</span>
+          <span className="unit">
+            ft MSL
+            {groundElevation !== null && (
+              <span className="agl"> · {Math.round(position.altitude - groundElevation).toLocaleString()} ft AGL</span>
+            )}
+          </span>
+          <SelectedBug
+            id="selectedAltitude"
+            value={autopilot?.altitude ?? null}
+            onCommit={(altitude) => handleSelectedChange({ altitude })}
+            disabled={disabled}
+            step={100}
+          />
         </div>
 
         <div className="control-group">
@@ -176,26 +519,42 @@ export default function PositionControl({
             min="0"
             max="359"
             step="1"
-            value={position.heading}
-            onChange={(e) => handleChange('heading', parseInt(e.target.value))}
+            value={Math.round(position.trueHeading ?? position.heading)}
+            onChange={(e) => handleChange('trueHeading', parseInt(e.target.value))}
+            disabled={disabled || isFlying}
+          />
+          <span className="unit">° true</span>
+          <SelectedBug
+            id="selectedHeading"
+            value={autopilot?.heading ?? null}
+            onCommit={(heading) =>
+              handleSelectedChange({ heading: heading === null ? null : ((heading % 360) + 360) % 360 })
+            }
             disabled={disabled}
+            step={1}
           />
-          <span className="unit">°</span>
         </div>
 
         <div className="control-group">
-          <label htmlFor="groundSpeed">Ground Speed</label>
+          <label htmlFor="trueAirspeed">True Airspeed</label>
           <input
-            id="groundSpeed"
+            id="trueAirspeed"
             type="number"
             min="0"
             max="500"
             step="1"
-            value={position.groundSpeed}
-            onChange={(e) => handleChange('groundSpeed', parseInt(e.target.value))}
-            disabled={disabled}
+            value={Math.round(position.trueAirspeed ?? position.groundSpeed)}
+            onChange={(e) => handleChange('trueAirspeed', parseInt(e.target.value))}
+            disabled={disabled || isFlying}
           />
           <span className="unit">kts</span>
+          <SelectedBug
+            id="selectedSpeed"
+            value={autopilot?.speed ?? null}
+            onCommit={(speed) => handleSelectedChange({ speed })}
+            disabled={disabled}
+            step={5}
+          />
         </div>
 
         <div className="control-group">
@@ -208,12 +567,38 @@ export default function PositionControl({
             step="100"
             value={position.verticalSpeed}
             onChange={(e) => handleChange('verticalSpeed', parseInt(e.target.value))}
-            disabled={disabled}
+            disabled={disabled || (isFlying && autopilot?.altitude != null)}
           />
           <span className="unit">fpm</span>
+          <SelectedBug
+            id="selectedVerticalSpeed"
+            value={autopilot?.verticalSpeed ?? null}
+            onCommit={(verticalSpeed) => {
+              if (verticalSpeed !== null && verticalSpeed > 0) {
+                handleSelectedChange({ verticalSpeed });
+              }
+            }}
+            disabled={disabled}
+            step={100}
+            allowOff={false}
+          />
         </div>
       </div>
 
+      {isFlying && phase && (
+        <p className="flight-phase">
+          {FLIGHT_PHASE_LABELS[phase]}
+          {landing && ` · ${landing.airport} runway ${landing.runway}`}
+        </p>
+      )}
+
+      {isFlying && (
+        <p className="air-data">
+          Track {Math.round(position.heading).toString().padStart(3, '0')}° · Ground speed{' '}
+          {Math.round(position.groundSpeed)} kts
+        </p>
+      )}
+
       <div className="fly-control">
         <div>
           <button onClick={handleFlyToggle} disabled={disabled} className="btn btn-fly">
@@ -227,10 +612,27 @@ export default function PositionControl({
           >
             📍
           </button>
+          {isFlying && (phase === 'parked' || phase === 'taxi') && (
+            <button onClick={handleTakeOff} disabled={disabled} className="btn btn-takeoff">
+              Take off
+            </button>
+          )}
         </div>
+        <label className="checkbox-option terrain-blocking">
+          <input
+            type="checkbox"
+            checked={terrainBlocking}
+            onChange={(e) => handleTerrainBlockingChange(e.target.checked)}
+            disabled={disabled}
+          />
+          Block flight below terrain
+        </label>
         <p className="help-text-small">
-          Continuously updates position based on heading and speed.
+          The server continuously updates position based on heading and speed. Enter a
+          selected (SEL) value to turn, climb or accelerate toward it; clear it to disengage.
+          On the ground, the selected speed and heading taxi the aircraft.
         </p>
+        {error && <div className="error-message">{error}</div>}
       </div>
 
       <div className="help-text">
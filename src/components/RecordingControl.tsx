@@ -0,0 +1,139 @@
+/**
+ * RecordingControl Component
+ *
+ * Records the broadcast session to a track file and lists saved recordings
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  deleteRecording,
+  getRecordingDownloadUrl,
+  getRecordings,
+  startRecording,
+  stopRecording,
+  RecordingsStatus,
+} from '../services/gpsApi';
+import { RecordingFormat } from '../types/recording';
+
+/**
+ * How often recording state is polled from the server
+ */
+const RECORDING_POLL_INTERVAL_MS = 2000;
+
+const FORMAT_LABELS: Record<RecordingFormat, string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  csv: 'CSV',
+};
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function RecordingControl() {
+  const [status, setStatus] = useState<RecordingsStatus | null>(null);
+  const [format, setFormat] = useState<RecordingFormat>('gpx');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStatus(await getRecordings());
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get recordings:', err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, RECORDING_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await command();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const recorder = status?.recorder;
+  const isRecording = recorder?.isRecording ?? false;
+
+  return (
+    <div className="recording-control">
+      <h3>Session Recording</h3>
+
+      <div className="status-indicator">
+        <div className={`status-light ${isRecording ? 'recording' : 'inactive'}`}></div>
+        <span className="status-text">
+          {isRecording
+            ? `Recording ${recorder?.format?.toUpperCase()} (${recorder?.pointCount} positions)`
+            : 'Not recording'}
+        </span>
+      </div>
+
+      <div className="option-row">
+        <select
+          aria-label="Recording format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as RecordingFormat)}
+          disabled={isLoading || isRecording}
+        >
+          {(Object.keys(FORMAT_LABELS) as RecordingFormat[]).map((value) => (
+            <option key={value} value={value}>
+              {FORMAT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => runCommand(isRecording ? stopRecording : () => startRecording(format))}
+          disabled={isLoading}
+          className={`btn ${isRecording ? 'btn-secondary' : 'btn-primary'}`}
+        >
+          {isRecording ? 'Stop & Save' : 'Start Recording'}
+        </button>
+      </div>
+
+      {status && status.recordings.length > 0 && (
+        <ul className="recording-list">
+          {status.recordings.map((recording) => (
+            <li key={recording.id}>
+              <a href={getRecordingDownloadUrl(recording.id)} download={recording.id}>
+                {recording.id}
+              </a>
+              <span className="recording-size">{formatSize(recording.size)}</span>
+              <button
+                onClick={() => runCommand(() => deleteRecording(recording.id))}
+                className="waypoint-remove"
+                title="Delete recording"
+                disabled={isLoading}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text">
+        Records every position the server transmits while broadcasting.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * RouteControl Component
+ *
+ * Lists the waypoint route, toggles route editing on the map and imports
+ * flight plans (GPX, KML, Garmin FPL)
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { getRoute, importFlightPlan } from '../services/gpsApi';
+import { RouteState, Waypoint } from '../types/route';
+
+/**
+ * How often route progress is polled from the server
+ */
+const ROUTE_POLL_INTERVAL_MS = 1000;
+
+interface RouteControlProps {
+  waypoints: Waypoint[];
+  activeWaypointIndex: number | null;
+  isEditing: boolean;
+  error: string | null;
+  onEditingChange: (isEditing: boolean) => void;
+  onWaypointsChange: (waypoints: Waypoint[]) => void;
+  onRouteStateChange: (state: RouteState) => void;
+}
+
+export default function RouteControl({
+  waypoints,
+  activeWaypointIndex,
+  isEditing,
+  error,
+  onEditingChange,
+  onWaypointsChange,
+  onRouteStateChange,
+}: RouteControlProps) {
+  // Keep the latest callback in a ref so the polling loop isn't restarted every render
+  const onRouteStateChangeRef = useRef(onRouteStateChange);
+  onRouteStateChangeRef.current = onRouteStateChange;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string>('');
+
+  // Poll route progress (and routes set through the API)
+  useEffect(() => {
+    const poll = async () => {
+      try {
+        onRouteStateChangeRef.current(await getRoute());
+      } catch (err) {
+        // Server might not be running
+        console.error('Failed to get route:', err);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, ROUTE_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const plan = await importFlightPlan(file);
+      onRouteStateChange(plan.route);
+      setStatusMessage(
+        `Imported ${plan.name ?? file.name} (${plan.route.waypoints.length} waypoints)`
+      );
+      setTimeout(() => setStatusMessage(''), 3000);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import flight plan');
+    } finally {
+      setIsImporting(false);
+      // Allow re-importing the same file after fixing it
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    onWaypointsChange(waypoints.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="route-control">
+      <h3>Route</h3>
+
+      <div className="button-group">
+        <button
+          onClick={() => onEditingChange(!isEditing)}
+          className={`btn ${isEditing ? 'btn-primary' : 'btn-secondary'}`}
+        >
+          {isEditing ? 'Done Editing' : 'Edit Route'}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="btn btn-secondary"
+        >
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+        <button
+          onClick={() => onWaypointsChange([])}
+          disabled={waypoints.length === 0}
+          className="btn btn-secondary"
+        >
+          Clear
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".gpx,.kml,.fpl"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleImport(file);
+          }
+        }}
+      />
+
+      {waypoints.length > 0 ? (
+        <ol className="waypoint-list">
+          {waypoints.map((waypoint, index) => (
+            <li
+              key={index}
+              className={index === activeWaypointIndex ? 'active' : ''}
+            >
+              <span className="waypoint-name">{waypoint.name || `WP${index + 1}`}</span>
+              <span className="waypoint-coords">
+                {waypoint.latitude.toFixed(4)}, {waypoint.longitude.toFixed(4)}
+              </span>
+              {waypoint.altitude !== undefined && (
+                <span className="waypoint-altitude">{waypoint.altitude} ft</span>
+              )}
+              <button
+                onClick={() => handleRemove(index)}
+                className="waypoint-remove"
+                title="Remove waypoint"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="help-text-small">No route loaded.</p>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+      {importError && <div className="error-message">{importError}</div>}
+      {statusMessage && <div className="success-message">{statusMessage}</div>}
+
+      <p className="help-text">
+        {isEditing
+          ? 'Click the map to add waypoints, drag them to move, right-click to remove.'
+          : 'When flying, the aircraft follows the route in order. Import GPX, KML or Garmin FPL flight plans.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * ScenarioControl Component
+ *
+ * Runs scripted traffic encounters relative to ownship and shows when each
+ * intruder will trigger a traffic alert
+ */
+
+import { useState, useEffect } from 'react';
+import { getScenarios, startScenario, stopScenario, ScenariosStatus } from '../services/gpsApi';
+
+/**
+ * How often scenario state is polled from the server
+ */
+const SCENARIO_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Format seconds from scenario start as T+m:ss
+ */
+function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `T+${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+export default function ScenarioControl() {
+  const [status, setStatus] = useState<ScenariosStatus | null>(null);
+  const [selected, setSelected] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStatus(await getScenarios());
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get scenarios:', err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, SCENARIO_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await command();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scenario command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const scenarios = status?.scenarios ?? [];
+  const state = status?.state;
+  const scenarioName = selected || scenarios[0]?.name || '';
+  const description = scenarios.find((scenario) => scenario.name === scenarioName)?.description;
+
+  return (
+    <div className="scenario-control">
+      <h3>Traffic Scenarios</h3>
+
+      <div className="option-row">
+        <select
+          aria-label="Scenario"
+          value={scenarioName}
+          onChange={(e) => setSelected(e.target.value)}
+          disabled={isLoading || state?.isRunning}
+        >
+          {scenarios.map((scenario) => (
+            <option key={scenario.name} value={scenario.name}>
+              {scenario.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => runCommand(state?.isRunning ? stopScenario : () => startScenario(scenarioName))}
+          disabled={isLoading || !scenarioName}
+          className={`btn ${state?.isRunning ? 'btn-secondary' : 'btn-primary'}`}
+        >
+          {state?.isRunning ? 'Stop' : 'Start'}
+        </button>
+      </div>
+
+      {!state?.isRunning && description && <p className="help-text-small">{description}</p>}
+
+      {state?.isRunning && (
+        <>
+          <p className="scenario-clock">
+            {state.name} · {formatTime(state.elapsed)}
+          </p>
+          <ul className="traffic-list">
+            {state.intruders.map((intruder, index) => (
+              <li
+                key={index}
+                className={intruder.alertAt !== null && state.elapsed >= intruder.alertAt ? 'alert' : ''}
+              >
+                <span className="traffic-callsign">{intruder.callsign}</span>
+                <span className="traffic-details">
+                  {intruder.targetId ? '' : `Appears ${formatTime(intruder.appearsAt)} · `}
+                  {intruder.alertAt !== null ? `Alert ${formatTime(intruder.alertAt)}` : 'No alert'} · CPA{' '}
+                  {formatTime(intruder.closestApproachAt)} ({intruder.closestApproachRange.toFixed(1)} NM,{' '}
+                  {intruder.closestApproachAltitude >= 0 ? '+' : ''}
+                  {Math.round(intruder.closestApproachAltitude)} ft)
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text-small">
+        Intruders are placed relative to ownship&apos;s current track. Hold track and speed for the
+        alert to fire on schedule.
+      </p>
+    </div>
+  );
+}
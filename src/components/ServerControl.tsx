@@ -4,9 +4,119 @@
  * Controls for starting/stopping the GPS data server
  */
 
-import { useState, useEffect } from 'react';
-import { getServerStatus, startServer, stopServer, updatePosition, updateConfig } from '../services/gpsApi';
-import { GPSPosition } from '../types/gps';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getServerStatus,
+  getDiscoveredDevices,
+  getNetworkInterfaces,
+  startServer,
+  stopServer,
+  subscribeToEvents,
+  updatePosition,
+  updateConfig,
+  ServerStatus,
+  ServerConfig,
+  OwnshipIdentity,
+} from '../services/gpsApi';
+import { DeliveryMode, GPSPosition, OutputProtocol } from '../types/gps';
+import { LocalInterface } from '../types/network';
+import { DiscoveredDevice } from '../types/discovery';
+import { NMEA_SENTENCES, NMEASentence, NMEATransport } from '../types/nmea';
+import { SERIAL_BAUD_RATES, SerialOutput } from '../types/serial';
+
+const PROTOCOL_LABELS: Record<OutputProtocol, string> = {
+  xgps: 'XGPS (ForeFlight Network GPS)',
+  gdl90: 'GDL 90 (Garmin Pilot, FltPlan Go, WingX)',
+  both: 'XGPS + GDL 90',
+};
+
+const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  unicast: 'Unicast (single device)',
+  broadcast: 'Subnet broadcast (all devices)',
+  multicast: 'Multicast group',
+};
+
+const NMEA_TRANSPORT_LABELS: Record<NMEATransport, string> = {
+  off: 'Off',
+  udp: 'UDP to target IP',
+  tcp: 'TCP listener',
+};
+
+const NMEA_TALKER_IDS = ['GP', 'GN', 'GL', 'GA'];
+
+const SERIAL_OUTPUT_LABELS: Record<SerialOutput, string> = {
+  off: 'Off',
+  nmea: 'NMEA 0183',
+  gdl90: 'GDL 90',
+};
+
+const EMITTER_CATEGORY_LABELS: Record<number, string> = {
+  0: 'No information',
+  1: 'Light (< 15,500 lb)',
+  2: 'Small (15,500-75,000 lb)',
+  3: 'Large (75,000-300,000 lb)',
+  4: 'High vortex large',
+  5: 'Heavy (> 300,000 lb)',
+  6: 'Highly maneuverable',
+  7: 'Rotorcraft',
+  9: 'Glider/sailplane',
+  10: 'Lighter than air',
+  11: 'Parachutist/skydiver',
+  12: 'Ultralight/hang glider',
+  14: 'Unmanned aerial vehicle',
+};
+
+/**
+ * Text input whose edits are applied when committed (Enter or blur)
+ */
+function CommitInput({
+  id,
+  value,
+  placeholder,
+  onCommit,
+  disabled,
+}: {
+  id: string;
+  value: string;
+  placeholder?: string;
+  onCommit: (value: string) => void;
+  disabled: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() !== value) {
+      onCommit(draft.trim());
+    }
+    setDraft(null);
+  };
+
+  return (
+    <input
+      id={id}
+      type="text"
+      placeholder={placeholder}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value.toUpperCase())}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      disabled={disabled}
+    />
+  );
+}
+
+/**
+ * Describe how long ago a discovered device was last heard
+ */
+function formatLastSeen(lastSeen: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - lastSeen) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.round(seconds / 60)} min ago`;
+}
 
 interface ServerControlProps {
   currentPosition: GPSPosition;
@@ -23,29 +133,71 @@ export default function ServerControl({
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [targetIP, setTargetIP] = useState<string>('');
   const [isEditing, setIsEditing] = useState(false);
+  const [config, setConfig] = useState<ServerStatus['config'] | null>(null);
+  const [nmeaClients, setNMEAClients] = useState(0);
+  const [serialPath, setSerialPath] = useState<string | null>(null);
+  const [ownship, setOwnship] = useState<OwnshipIdentity | null>(null);
+  const [destination, setDestination] = useState<string | null>(null);
+  const [interfaces, setInterfaces] = useState<LocalInterface[]>([]);
+  const [devices, setDevices] = useState<DiscoveredDevice[]>([]);
 
-  // Poll server status
+  // Load local network interfaces for broadcast and multicast
   useEffect(() => {
-    const checkStatus = async () => {
-      try {
-        const status = await getServerStatus();
-        setIsRunning(status.isRunning);
-        // Only update targetIP from server if user is not currently editing
-        if (!isEditing) {
-          setTargetIP(status.config.targetIP || '');
-        }
-        onServerStatusChange(status.isRunning);
-      } catch (err) {
-        // Server might not be running
-        console.error('Failed to get server status:', err);
+    getNetworkInterfaces()
+      .then(setInterfaces)
+      .catch((err) => console.error('Failed to get network interfaces:', err));
+  }, []);
+
+  // Read by refreshStatus without making it change on every keystroke
+  const isEditingRef = useRef(isEditing);
+  isEditingRef.current = isEditing;
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      const status = await getServerStatus();
+      setIsRunning(status.isRunning);
+      setConfig(status.config);
+      setNMEAClients(status.nmeaClients ?? 0);
+      setSerialPath(status.serialPath ?? null);
+      setOwnship(status.ownship ?? null);
+      setDestination(status.destination ?? null);
+      // Only update targetIP from server if user is not currently editing
+      if (!isEditingRef.current) {
+        setTargetIP(status.config.targetIP || '');
       }
-    };
+      onServerStatusChange(status.isRunning);
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get server status:', err);
+    }
+  }, [onServerStatusChange]);
 
-    checkStatus();
-    const interval = setInterval(checkStatus, 2000);
+  // Load the status, then follow live events instead of polling
+  useEffect(() => {
+    refreshStatus();
+    getDiscoveredDevices()
+      .then(setDevices)
+      .catch((err) => console.error('Failed to get discovered devices:', err));
+
+    const unsubscribers = [
+      subscribeToEvents('state', (event) => {
+        if (event.engine === 'server') {
+          setIsRunning(event.running);
+          onServerStatusChange(event.running);
+          refreshStatus();
+        }
+      }),
+      subscribeToEvents('nmeaClients', (event) => setNMEAClients(event.count)),
+      subscribeToEvents('devices', (event) => setDevices(event.devices)),
+      subscribeToEvents('error', (event) => {
+        if (event.target === 'main') {
+          setError(`Send to ${event.address} failed: ${event.message}`);
+        }
+      }),
+    ];
 
-    return () => clearInterval(interval);
-  }, [onServerStatusChange, isEditing]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [refreshStatus, onServerStatusChange]);
 
   const handleStart = async () => {
     setIsLoading(true);
@@ -113,6 +265,7 @@ export default function ServerControl({
       console.log('Calling updateConfig with:', { targetIP: ipToSet }); // Debug log
       await updateConfig({ targetIP: ipToSet });
       setIsEditing(false);
+      refreshStatus();
       setStatusMessage('Target IP set successfully');
       setTimeout(() => setStatusMessage(''), 3000);
     } catch (err) {
@@ -124,6 +277,100 @@ export default function ServerControl({
     }
   };
 
+  const applyConfig = async (changes: ServerConfig, successMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await updateConfig(changes);
+      setConfig((prev) => (prev ? { ...prev, ...changes } : prev));
+      refreshStatus();
+      setStatusMessage(successMessage);
+      setTimeout(() => setStatusMessage(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update configuration');
+      // Show what the server kept (e.g., serial output left off when the port couldn't open)
+      refreshStatus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleProtocolChange = (protocol: OutputProtocol) =>
+    applyConfig({ protocol }, `Protocol set to ${PROTOCOL_LABELS[protocol]}`);
+
+  const handleNMEASentenceToggle = (sentence: NMEASentence) => {
+    const current = config?.nmeaSentences ?? NMEA_SENTENCES;
+    const nmeaSentences = current.includes(sentence)
+      ? current.filter((s) => s !== sentence)
+      : NMEA_SENTENCES.filter((s) => s === sentence || current.includes(s));
+    applyConfig({ nmeaSentences }, 'NMEA sentences updated');
+  };
+
+  const handleOwnshipAddressChange = (value: string) => {
+    const ownshipAddress = parseInt(value, 16);
+    if (!/^[0-9A-F]{1,6}$/.test(value) || ownshipAddress === 0) {
+      setError('ICAO address must be 1-6 hex digits (e.g., A1B2C3)');
+      return;
+    }
+    applyConfig({ ownshipAddress }, `Ownship ICAO address set to ${value.padStart(6, '0')}`);
+  };
+
+  const handleOwnshipRegistration = (value: string) => {
+    if (!value) return;
+    applyConfig(
+      { ownshipRegistration: value },
+      `Ownship ICAO address and callsign derived from ${value}`
+    );
+  };
+
+  const handleUseDevice = (device: DiscoveredDevice) => {
+    const changes: ServerConfig = { targetIP: device.address };
+    // Ports and delivery mode can only change while stopped
+    if (!isRunning) {
+      changes.deliveryMode = 'unicast';
+      if (device.gdl90Port !== null) {
+        changes.gdl90Port = device.gdl90Port;
+      }
+    }
+    setTargetIP(device.address);
+    setIsEditing(false);
+    applyConfig(changes, `Sending to ${device.app} at ${device.address}`);
+  };
+
+  const handleDeliveryModeChange = (deliveryMode: DeliveryMode) => {
+    const changes: ServerConfig = { deliveryMode };
+    // Broadcast needs an interface to compute the subnet's broadcast address
+    if (deliveryMode === 'broadcast' && !config?.networkInterface && interfaces.length > 0) {
+      changes.networkInterface = interfaces[0].name;
+    }
+    applyConfig(changes, `Delivery set to ${DELIVERY_MODE_LABELS[deliveryMode]}`);
+  };
+
+  const handleMulticastTTLChange = (value: string) => {
+    const multicastTTL = parseInt(value);
+    if (isNaN(multicastTTL) || multicastTTL < 1 || multicastTTL > 255) {
+      setError('Multicast TTL must be between 1 and 255');
+      return;
+    }
+    applyConfig({ multicastTTL }, `Multicast TTL set to ${multicastTTL}`);
+  };
+
+  const deliveryMode = config?.deliveryMode ?? 'unicast';
+  const selectedInterface = interfaces.find((info) => info.name === config?.networkInterface);
+  const deliveryAddress =
+    destination ??
+    (deliveryMode === 'broadcast'
+      ? selectedInterface?.broadcast
+      : deliveryMode === 'multicast'
+        ? config?.multicastGroup
+        : targetIP);
+  const protocol = config?.protocol ?? 'xgps';
+  const nmeaOutput = config?.nmeaOutput ?? 'off';
+  const serialOutput = config?.serialOutput ?? 'off';
+  const usesXGPS = protocol === 'xgps' || protocol === 'both';
+  const usesGDL90 = protocol === 'gdl90' || protocol === 'both';
+  const sendsOwnshipReport = usesGDL90 || serialOutput === 'gdl90';
+
   return (
     <div className="server-control">
       <h3>GPS Server Control</h3>
@@ -135,42 +382,314 @@ export default function ServerControl({
         </span>
       </div>
 
-      <div className="ip-config">
-        <label htmlFor="targetIP">ForeFlight Device IP</label>
-        <div className="ip-input-group">
-          <input
-            id="targetIP"
-            type="text"
-            placeholder="192.168.1.100"
-            value={targetIP}
+      <div className="protocol-config delivery-config">
+        <label htmlFor="deliveryMode">Delivery</label>
+        <select
+          id="deliveryMode"
+          value={deliveryMode}
+          onChange={(e) => handleDeliveryModeChange(e.target.value as DeliveryMode)}
+          disabled={isLoading || isRunning}
+        >
+          {(Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[]).map((value) => (
+            <option key={value} value={value}>
+              {DELIVERY_MODE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        {deliveryMode !== 'unicast' && (
+          <select
+            aria-label="Network interface"
+            value={config?.networkInterface ?? ''}
+            onChange={(e) =>
+              applyConfig(
+                { networkInterface: e.target.value },
+                e.target.value ? `Network interface set to ${e.target.value}` : 'Using the default interface'
+              )
+            }
+            disabled={isLoading || isRunning}
+          >
+            {(deliveryMode === 'multicast' || !selectedInterface) && (
+              <option value="">
+                {deliveryMode === 'multicast' ? 'Default interface' : 'Choose an interface'}
+              </option>
+            )}
+            {interfaces.map((info) => (
+              <option key={`${info.name}-${info.address}`} value={info.name}>
+                {info.name} · {info.address}
+                {deliveryMode === 'broadcast' && ` → ${info.broadcast}`}
+              </option>
+            ))}
+          </select>
+        )}
+        {deliveryMode === 'multicast' && config && (
+          <div className="option-row">
+            <CommitInput
+              id="multicastGroup"
+              value={config.multicastGroup}
+              placeholder="239.255.40.0"
+              onCommit={(value) => applyConfig({ multicastGroup: value }, `Multicast group set to ${value}`)}
+              disabled={isLoading || isRunning}
+            />
+            <CommitInput
+              id="multicastTTL"
+              value={String(config.multicastTTL)}
+              placeholder="TTL"
+              onCommit={handleMulticastTTLChange}
+              disabled={isLoading || isRunning}
+            />
+          </div>
+        )}
+        {deliveryMode === 'broadcast' && (
+          <p className="help-text-small">
+            Every device on the interface&apos;s subnet receives the data.
+          </p>
+        )}
+        {deliveryMode === 'multicast' && (
+          <p className="help-text-small">
+            Group address and TTL (1 keeps packets on the local network).
+          </p>
+        )}
+      </div>
+
+      {deliveryMode === 'unicast' && (
+        <div className="ip-config">
+          <label htmlFor="targetIP">ForeFlight Device IP</label>
+          <div className="ip-input-group">
+            <input
+              id="targetIP"
+              type="text"
+              placeholder="192.168.1.100"
+              value={targetIP}
+              onChange={(e) => {
+                setTargetIP(e.target.value);
+                setIsEditing(true);
+              }}
+              onFocus={() => setIsEditing(true)}
+              disabled={isRunning}
+            />
+            <button
+              onMouseDown={(e) => {
+                // Prevent blur event on input when clicking button
+                e.preventDefault();
+              }}
+              onClick={handleSetTargetIP}
+              disabled={isLoading || isRunning}
+              className="btn btn-set-ip"
+            >
+              Set IP
+            </button>
+          </div>
+          <p className="help-text-small">
+            Find your iPad&apos;s IP in Settings &gt; Wi-Fi &gt; (i) icon
+          </p>
+        </div>
+      )}
+
+      {devices.length > 0 && (
+        <div className="discovered-devices">
+          <label>Discovered Devices</label>
+          <ul>
+            {devices.map((device) => (
+              <li key={device.address}>
+                <span className="device-info">
+                  <strong>{device.app}</strong> {device.address}
+                  {device.gdl90Port !== null && `:${device.gdl90Port}`}
+                  <span className="device-seen">{formatLastSeen(device.lastSeen)}</span>
+                </span>
+                <button
+                  onClick={() => handleUseDevice(device)}
+                  disabled={
+                    isLoading ||
+                    (deliveryMode === 'unicast' && targetIP === device.address) ||
+                    (isRunning && deliveryMode !== 'unicast')
+                  }
+                  className="btn btn-set-ip"
+                >
+                  {deliveryMode === 'unicast' && targetIP === device.address ? 'In use' : 'Use'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="protocol-config">
+        <label htmlFor="protocol">Output Protocol</label>
+        <select
+          id="protocol"
+          value={protocol}
+          onChange={(e) => handleProtocolChange(e.target.value as OutputProtocol)}
+          disabled={isLoading}
+        >
+          {(Object.keys(PROTOCOL_LABELS) as OutputProtocol[]).map((value) => (
+            <option key={value} value={value}>
+              {PROTOCOL_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        {usesXGPS && (
+          <label className="checkbox-option">
+            <input
+              type="checkbox"
+              checked={config?.attitudeOutput ?? false}
+              onChange={(e) =>
+                applyConfig(
+                  { attitudeOutput: e.target.checked },
+                  e.target.checked ? 'Attitude output enabled' : 'Attitude output disabled'
+                )
+              }
+              disabled={isLoading}
+            />
+            Send attitude (XATT) for synthetic vision
+          </label>
+        )}
+      </div>
+
+      <div className="protocol-config">
+        <label htmlFor="nmeaOutput">NMEA 0183 Output</label>
+        <div className="option-row">
+          <select
+            id="nmeaOutput"
+            value={nmeaOutput}
+            onChange={(e) => {
+              const value = e.target.value as NMEATransport;
+              applyConfig({ nmeaOutput: value }, `NMEA output set to ${NMEA_TRANSPORT_LABELS[value]}`);
+            }}
+            disabled={isLoading}
+          >
+            {(Object.keys(NMEA_TRANSPORT_LABELS) as NMEATransport[]).map((value) => (
+              <option key={value} value={value}>
+                {NMEA_TRANSPORT_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="NMEA talker ID"
+            value={config?.nmeaTalkerId ?? 'GP'}
+            onChange={(e) =>
+              applyConfig({ nmeaTalkerId: e.target.value }, `NMEA talker ID set to ${e.target.value}`)
+            }
+            disabled={isLoading || nmeaOutput === 'off'}
+          >
+            {NMEA_TALKER_IDS.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+        </div>
+        {nmeaOutput !== 'off' && (
+          <div className="nmea-sentences">
+            {NMEA_SENTENCES.map((sentence) => (
+              <label key={sentence}>
+                <input
+                  type="checkbox"
+                  checked={(config?.nmeaSentences ?? NMEA_SENTENCES).includes(sentence)}
+                  onChange={() => handleNMEASentenceToggle(sentence)}
+                  disabled={isLoading}
+                />
+                {sentence}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="protocol-config">
+        <label htmlFor="serialOutput">Virtual Serial Port</label>
+        <div className="option-row">
+          <select
+            id="serialOutput"
+            value={serialOutput}
             onChange={(e) => {
-              setTargetIP(e.target.value);
-              setIsEditing(true);
+              const value = e.target.value as SerialOutput;
+              applyConfig({ serialOutput: value }, `Serial output set to ${SERIAL_OUTPUT_LABELS[value]}`);
             }}
-            onFocus={() => setIsEditing(true)}
-            disabled={isRunning}
-          />
-          <button
-            onMouseDown={(e) => {
-              // Prevent blur event on input when clicking button
-              e.preventDefault();
+            disabled={isLoading}
+          >
+            {(Object.keys(SERIAL_OUTPUT_LABELS) as SerialOutput[]).map((value) => (
+              <option key={value} value={value}>
+                {SERIAL_OUTPUT_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Serial baud rate"
+            value={config?.serialBaudRate ?? 4800}
+            onChange={(e) => {
+              const serialBaudRate = parseInt(e.target.value);
+              applyConfig({ serialBaudRate }, `Serial baud rate set to ${serialBaudRate}`);
             }}
-            onClick={handleSetTargetIP}
-            disabled={isLoading || isRunning}
-            className="btn btn-set-ip"
+            disabled={isLoading || isRunning || serialOutput === 'off'}
           >
-            Set IP
-          </button>
+            {SERIAL_BAUD_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}
+              </option>
+            ))}
+          </select>
         </div>
-        <p className="help-text-small">
-          Find your iPad&apos;s IP in Settings &gt; Wi-Fi &gt; (i) icon
-        </p>
       </div>
 
+      {sendsOwnshipReport && config && (
+        <div className="protocol-config ownship-config">
+          <label htmlFor="ownshipAddress">GDL 90 Ownship Identity</label>
+          <div className="option-row">
+            <CommitInput
+              id="ownshipAddress"
+              value={config.ownshipAddress.toString(16).toUpperCase().padStart(6, '0')}
+              onCommit={handleOwnshipAddressChange}
+              disabled={isLoading}
+            />
+            <CommitInput
+              id="ownshipCallsign"
+              value={config.ownshipCallsign ?? ''}
+              placeholder={ownship?.callsign ?? 'Callsign'}
+              onCommit={(value) =>
+                applyConfig(
+                  { ownshipCallsign: value || null },
+                  value ? `Ownship callsign set to ${value}` : 'Ownship callsign follows the aircraft profile'
+                )
+              }
+              disabled={isLoading}
+            />
+          </div>
+          <select
+            aria-label="Ownship emitter category"
+            value={config.ownshipEmitterCategory ?? ''}
+            onChange={(e) => {
+              const ownshipEmitterCategory = e.target.value === '' ? null : parseInt(e.target.value);
+              applyConfig({ ownshipEmitterCategory }, 'Ownship emitter category updated');
+            }}
+            disabled={isLoading}
+          >
+            <option value="">Aircraft profile</option>
+            {Object.entries(EMITTER_CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="option-row">
+            <CommitInput
+              id="ownshipRegistration"
+              value=""
+              placeholder="N-number (e.g., N172SP)"
+              onCommit={handleOwnshipRegistration}
+              disabled={isLoading}
+            />
+          </div>
+          <p className="help-text-small">
+            ICAO address (hex) and callsign. Enter an N-number to derive both; leave the callsign
+            blank to use the aircraft profile&apos;s.
+          </p>
+        </div>
+      )}
+
       <div className="button-group">
         <button
           onClick={handleStart}
-          disabled={isLoading || isRunning || !targetIP}
+          disabled={isLoading || isRunning}
           className="btn btn-primary"
         >
           {isLoading && !isRunning ? 'Starting...' : 'Start Server'}
@@ -199,20 +718,55 @@ export default function ServerControl({
       <div className="info-box">
         <h4>Connection Info</h4>
         <p>
-          <strong>Protocol:</strong> XGPS (ForeFlight Network GPS)
+          <strong>Protocol:</strong> {PROTOCOL_LABELS[protocol]}
         </p>
         <p>
-          <strong>Target IP:</strong> {targetIP || 'Not set'}
+          <strong>Delivery:</strong> {DELIVERY_MODE_LABELS[deliveryMode]}
         </p>
         <p>
-          <strong>UDP Port:</strong> 49002
+          <strong>{deliveryMode === 'unicast' ? 'Target IP' : 'Address'}:</strong>{' '}
+          {deliveryAddress || 'Not set'}
         </p>
+        {usesXGPS && (
+          <p>
+            <strong>XGPS UDP Port:</strong> {config?.port ?? 49002}
+          </p>
+        )}
+        {usesGDL90 && (
+          <p>
+            <strong>GDL 90 UDP Port:</strong> {config?.gdl90Port ?? 4000}
+          </p>
+        )}
+        {nmeaOutput !== 'off' && (
+          <p>
+            <strong>NMEA {nmeaOutput.toUpperCase()} Port:</strong> {config?.nmeaPort ?? 10110}
+            {nmeaOutput === 'tcp' && ` (${nmeaClients} connected)`}
+          </p>
+        )}
+        {sendsOwnshipReport && ownship && (
+          <p>
+            <strong>Ownship:</strong> {ownship.callsign} ·{' '}
+            {ownship.address.toString(16).toUpperCase().padStart(6, '0')}
+          </p>
+        )}
+        {serialOutput !== 'off' && (
+          <p>
+            <strong>Serial Port:</strong> {serialPath ?? `${config?.serialPath ?? '/tmp/flightsim-gps'} (created on start)`}
+          </p>
+        )}
         <p>
-          <strong>Update Rate:</strong> 1 Hz
-        </p>
-        <p className="help-text">
-          The app will send GPS data to ForeFlight using the XGPS protocol. Enable the simulator in ForeFlight → More → Devices.
+          <strong>Update Rate:</strong> {config?.updateRate ?? 1} Hz
         </p>
+        {usesXGPS && (
+          <p className="help-text">
+            XGPS data is sent to ForeFlight. Enable the simulator in ForeFlight → More → Devices.
+          </p>
+        )}
+        {usesGDL90 && (
+          <p className="help-text">
+            GDL 90 data (heartbeat at 1 Hz, ownship at the update rate) is sent for EFBs that accept a GDL 90 receiver on UDP port 4000.
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+/**
+ * TrafficControl Component
+ *
+ * Spawns and removes synthetic ADS-B traffic around ownship and lists the
+ * live targets
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { clearTraffic, getTraffic, removeTraffic, spawnTraffic } from '../services/gpsApi';
+import { TRAFFIC_BEHAVIORS, TrafficBehavior, TrafficTarget } from '../types/traffic';
+
+/**
+ * How often traffic is polled from the server
+ */
+const TRAFFIC_POLL_INTERVAL_MS = 1000;
+
+const BEHAVIOR_LABELS: Record<TrafficBehavior, string> = {
+  orbit: 'Orbiting',
+  crossing: 'Crossing',
+  route: 'Route',
+  converging: 'Converging',
+};
+
+interface TrafficControlProps {
+  onTrafficChange: (targets: TrafficTarget[]) => void;
+}
+
+export default function TrafficControl({ onTrafficChange }: TrafficControlProps) {
+  const [targets, setTargets] = useState<TrafficTarget[]>([]);
+  const [count, setCount] = useState(3);
+  const [behavior, setBehavior] = useState<TrafficBehavior | 'mixed'>('mixed');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback in a ref so the polling loop isn't restarted every render
+  const onTrafficChangeRef = useRef(onTrafficChange);
+  onTrafficChangeRef.current = onTrafficChange;
+
+  const refresh = async () => {
+    try {
+      const traffic = await getTraffic();
+      setTargets(traffic);
+      onTrafficChangeRef.current(traffic);
+    } catch (err) {
+      // Server might not be running
+      console.error('Failed to get traffic:', err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, TRAFFIC_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const runCommand = async (command: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await command();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Traffic command failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="traffic-control">
+      <h3>Traffic</h3>
+
+      <div className="option-row">
+        <input
+          type="number"
+          aria-label="Number of aircraft"
+          min="1"
+          max="50"
+          value={count}
+          onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+          disabled={isLoading}
+        />
+        <select
+          aria-label="Traffic behavior"
+          value={behavior}
+          onChange={(e) => setBehavior(e.target.value as TrafficBehavior | 'mixed')}
+          disabled={isLoading}
+        >
+          <option value="mixed">Mixed</option>
+          {TRAFFIC_BEHAVIORS.map((value) => (
+            <option key={value} value={value}>
+              {BEHAVIOR_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => runCommand(() => spawnTraffic(count, behavior === 'mixed' ? undefined : behavior))}
+          disabled={isLoading}
+          className="btn btn-primary"
+        >
+          Spawn
+        </button>
+      </div>
+
+      {targets.length > 0 ? (
+        <ul className="traffic-list">
+          {targets.map((target) => (
+            <li key={target.id} className={target.alert ? 'alert' : ''}>
+              <span className="traffic-callsign">{target.callsign}</span>
+              <span className="traffic-details">
+                {BEHAVIOR_LABELS[target.behavior]} · {Math.round(target.position.altitude)} ft ·{' '}
+                {Math.round(target.position.groundSpeed)} kts
+              </span>
+              <button
+                onClick={() => runCommand(() => removeTraffic(target.id))}
+                disabled={isLoading}
+                className="waypoint-remove"
+                title="Remove target"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="help-text-small">No traffic.</p>
+      )}
+
+      {targets.length > 0 && (
+        <div className="button-group">
+          <button onClick={() => runCommand(clearTraffic)} disabled={isLoading} className="btn btn-secondary">
+            Clear All
+          </button>
+        </div>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      <p className="help-text-small">
+        Traffic is broadcast as XTRAFFIC and GDL 90 Traffic Reports while the server is running.
+      </p>
+    </div>
+  );
+}
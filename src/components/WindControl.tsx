@@ -0,0 +1,161 @@
+/**
+ * WindControl Component
+ *
+ * Sets the wind the flight engine flies through, either as a single wind or
+ * as layers that vary with altitude
+ */
+
+import { useState, useEffect } from 'react';
+import { getWind, updateWind } from '../services/gpsApi';
+import { WindLayer } from '../types/wind';
+
+export default function WindControl() {
+  const [direction, setDirection] = useState(0);
+  const [speed, setSpeed] = useState(0);
+  const [layers, setLayers] = useState<WindLayer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWind()
+      .then((wind) => {
+        setDirection(wind.direction);
+        setSpeed(wind.speed);
+        setLayers(wind.layers);
+      })
+      .catch((err) => {
+        // Server might not be running
+        console.error('Failed to get wind:', err);
+      });
+  }, []);
+
+  const handleLayerChange = (index: number, field: keyof WindLayer, value: number) => {
+    setLayers((prev) => prev.map((layer, i) => (i === index ? { ...layer, [field]: value } : layer)));
+  };
+
+  const handleAddLayer = () => {
+    const highest = layers.reduce((max, layer) => Math.max(max, layer.altitude), 0);
+    setLayers([...layers, { altitude: layers.length > 0 ? highest + 3000 : 3000, direction, speed }]);
+  };
+
+  const handleApply = async () => {
+    setIsLoading(true);
+    setError(null);
+    setStatusMessage(null);
+    try {
+      const wind = await updateWind({ direction, speed, layers });
+      setLayers(wind.layers);
+      setStatusMessage(
+        wind.speed === 0 && wind.layers.length === 0 ? 'Wind calm' : 'Wind updated'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update wind');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="wind-control">
+      <h3>Wind</h3>
+
+      {layers.length === 0 && (
+        <div className="control-grid">
+          <div className="control-group">
+            <label htmlFor="windDirection">Direction</label>
+            <input
+              id="windDirection"
+              type="number"
+              min="0"
+              max="359"
+              step="10"
+              value={direction}
+              onChange={(e) => setDirection(parseInt(e.target.value) || 0)}
+              disabled={isLoading}
+            />
+            <span className="unit">° true (from)</span>
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="windSpeed">Speed</label>
+            <input
+              id="windSpeed"
+              type="number"
+              min="0"
+              max="300"
+              step="1"
+              value={speed}
+              onChange={(e) => setSpeed(parseInt(e.target.value) || 0)}
+              disabled={isLoading}
+            />
+            <span className="unit">kts</span>
+          </div>
+        </div>
+      )}
+
+      {layers.length > 0 && (
+        <ol className="wind-layers">
+          {layers.map((layer, index) => (
+            <li key={index}>
+              <input
+                type="number"
+                aria-label={`Layer ${index + 1} altitude`}
+                step="1000"
+                value={layer.altitude}
+                onChange={(e) => handleLayerChange(index, 'altitude', parseInt(e.target.value) || 0)}
+                disabled={isLoading}
+              />
+              <span className="unit">ft</span>
+              <input
+                type="number"
+                aria-label={`Layer ${index + 1} direction`}
+                min="0"
+                max="359"
+                step="10"
+                value={layer.direction}
+                onChange={(e) => handleLayerChange(index, 'direction', parseInt(e.target.value) || 0)}
+                disabled={isLoading}
+              />
+              <span className="unit">°</span>
+              <input
+                type="number"
+                aria-label={`Layer ${index + 1} speed`}
+                min="0"
+                max="300"
+                value={layer.speed}
+                onChange={(e) => handleLayerChange(index, 'speed', parseInt(e.target.value) || 0)}
+                disabled={isLoading}
+              />
+              <span className="unit">kts</span>
+              <button
+                onClick={() => setLayers(layers.filter((_, i) => i !== index))}
+                disabled={isLoading}
+                className="waypoint-remove"
+                title="Remove layer"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="button-group">
+        <button onClick={handleApply} disabled={isLoading} className="btn btn-primary">
+          Apply Wind
+        </button>
+        <button onClick={handleAddLayer} disabled={isLoading} className="btn btn-secondary">
+          Add Altitude Layer
+        </button>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {statusMessage && <div className="success-message">{statusMessage}</div>}
+
+      <p className="help-text-small">
+        With altitude layers, wind is interpolated between the layers nearest the aircraft.
+      </p>
+    </div>
+  );
+}
@@ -4,24 +4,93 @@
  * Client-side service for communicating with the GPS data server API
  */
 
-import { GPSPosition } from '../types/gps';
+import { DeliveryMode, GPSPosition, OutputProtocol } from '../types/gps';
+import { NMEASentence, NMEATransport } from '../types/nmea';
+import { SerialOutput } from '../types/serial';
+import { RouteState, Waypoint } from '../types/route';
+import { ManeuverDefinition, ManeuverState } from '../types/maneuver';
+import { PlaybackState, TrackPoint } from '../types/track';
+import { Recording, RecorderState, RecordingFormat } from '../types/recording';
+import { WindConfig } from '../types/wind';
+import { TrafficBehavior, TrafficTarget } from '../types/traffic';
+import { Scenario, ScenarioState } from '../types/scenario';
+import { AutopilotTargets } from '../types/autopilot';
+import { AircraftProfile } from '../types/profile';
+import { DegradationConfig, DegradationState } from '../types/degradation';
+import { OutputTarget, OutputTargetConfig } from '../types/target';
+import { LocalInterface } from '../types/network';
+import { DiscoveredDevice } from '../types/discovery';
+import { ServerEvent, ServerEventType } from '../types/events';
+import { MapLayer } from '../types/tiles';
+import { Airport } from '../types/airport';
+import { FlightPhase, LandingClearance } from '../types/phase';
 
 const API_BASE_URL = 'http://localhost:5001/api/gps';
+const TILES_BASE_URL = 'http://localhost:5001/api/tiles';
+const AIRPORTS_BASE_URL = 'http://localhost:5001/api/airports';
 
 export interface ServerStatus {
   isRunning: boolean;
   config: {
     port: number;
+    gdl90Port: number;
     targetIP: string;
+    deliveryMode: DeliveryMode;
+    networkInterface: string;
+    multicastGroup: string;
+    multicastTTL: number;
     updateRate: number;
+    protocol: OutputProtocol;
+    nmeaOutput: NMEATransport;
+    nmeaPort: number;
+    nmeaTalkerId: string;
+    nmeaSentences: NMEASentence[];
+    serialOutput: SerialOutput;
+    serialPath: string;
+    serialBaudRate: number;
+    attitudeOutput: boolean;
+    ownshipAddress: number;
+    ownshipCallsign: string | null;
+    ownshipEmitterCategory: number | null;
   };
+  ownship: OwnshipIdentity;
   currentPosition: GPSPosition | null;
+  nmeaClients: number;
+  serialPath: string | null;
+  destination: string | null; // Address the main target is sent to while running
+}
+
+/**
+ * The ICAO address, callsign and emitter category sent in the GDL 90 Ownship Report
+ */
+export interface OwnshipIdentity {
+  address: number;
+  callsign: string;
+  emitterCategory: number;
 }
 
 export interface ServerConfig {
   port?: number;
+  gdl90Port?: number;
   targetIP?: string;
+  deliveryMode?: DeliveryMode;
+  networkInterface?: string;
+  multicastGroup?: string;
+  multicastTTL?: number;
   updateRate?: number;
+  protocol?: OutputProtocol;
+  nmeaOutput?: NMEATransport;
+  nmeaPort?: number;
+  nmeaTalkerId?: string;
+  nmeaSentences?: NMEASentence[];
+  serialOutput?: SerialOutput;
+  serialPath?: string;
+  serialBaudRate?: number;
+  attitudeOutput?: boolean;
+  ownshipAddress?: number;
+  ownshipCallsign?: string | null;
+  ownshipEmitterCategory?: number | null;
+  ownshipRegistration?: string; // US N-number the address (and callsign) are derived from
 }
 
 /**
@@ -35,6 +104,30 @@ export async function getServerStatus(): Promise<ServerStatus> {
   return response.json();
 }
 
+/**
+ * List the local network interfaces that can be broadcast or multicast on
+ */
+export async function getNetworkInterfaces(): Promise<LocalInterface[]> {
+  const response = await fetch(`${API_BASE_URL}/interfaces`);
+  if (!response.ok) {
+    throw new Error('Failed to get network interfaces');
+  }
+  const result = await response.json();
+  return result.interfaces;
+}
+
+/**
+ * Get the EFBs that announced themselves with a discovery broadcast
+ */
+export async function getDiscoveredDevices(): Promise<DiscoveredDevice[]> {
+  const response = await fetch(`${API_BASE_URL}/devices`);
+  if (!response.ok) {
+    throw new Error('Failed to get discovered devices');
+  }
+  const result = await response.json();
+  return result.devices;
+}
+
 /**
  * Start the GPS data server
  */
@@ -48,7 +141,7 @@ export async function startServer(initialPosition?: GPSPosition): Promise<void>
   });
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to start server');
+    throw new Error(error.details || error.error || 'Failed to start server');
   }
 }
 
@@ -95,6 +188,852 @@ export async function updateConfig(config: ServerConfig): Promise<void> {
   });
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to update configuration');
+    throw new Error(error.details || error.error || 'Failed to update configuration');
+  }
+}
+
+export interface FlightState {
+  isFlying: boolean;
+  position: GPSPosition | null;
+  route: RouteState;
+  autopilot: AutopilotTargets;
+  profile: AircraftProfile;
+  phase: FlightPhase;
+  landing: LandingClearance | null;
+  groundElevation: number | null;
+  agl: number | null;
+  terrainBlocking: boolean;
+}
+
+/**
+ * Update individual fields of the server's current position
+ */
+export async function patchPosition(changes: Partial<GPSPosition>): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/position`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update position');
+  }
+}
+
+/**
+ * Get the flight engine state and live position
+ */
+export async function getFlightState(): Promise<FlightState> {
+  const response = await fetch(`${API_BASE_URL}/flight`);
+  if (!response.ok) {
+    throw new Error('Failed to get flight state');
+  }
+  return response.json();
+}
+
+/**
+ * Change the autopilot's selected targets (null disengages a target)
+ */
+export async function updateAutopilot(changes: Partial<AutopilotTargets>): Promise<AutopilotTargets> {
+  const response = await fetch(`${API_BASE_URL}/autopilot`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to update autopilot');
+  }
+  const { altitude, heading, speed, verticalSpeed } = result;
+  return { altitude, heading, speed, verticalSpeed };
+}
+
+/**
+ * Start the server-side flight engine
+ */
+export async function startFlight(initialPosition?: GPSPosition): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/flight/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ position: initialPosition }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || 'Failed to start flight');
+  }
+}
+
+/**
+ * Begin the takeoff roll (the aircraft must be parked or taxiing)
+ */
+export async function takeOff(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/flight/takeoff`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || 'Failed to take off');
+  }
+}
+
+/**
+ * Stop the server-side flight engine
+ */
+export async function stopFlight(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/flight/stop`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to stop flight');
+  }
+}
+
+/**
+ * Get the route and progress along it
+ */
+export async function getRoute(): Promise<RouteState> {
+  const response = await fetch(`${API_BASE_URL}/route`);
+  if (!response.ok) {
+    throw new Error('Failed to get route');
+  }
+  return response.json();
+}
+
+/**
+ * Replace the route flown by the flight engine
+ */
+export async function updateRoute(waypoints: Waypoint[]): Promise<RouteState> {
+  const response = await fetch(`${API_BASE_URL}/route`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ waypoints }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || 'Failed to update route');
+  }
+  const result = await response.json();
+  return result.route;
+}
+
+/**
+ * Remove the route
+ */
+export async function clearRoute(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/route`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to clear route');
+  }
+}
+
+/**
+ * Get the maneuver and its path
+ */
+export async function getManeuver(): Promise<ManeuverState> {
+  const response = await fetch(`${API_BASE_URL}/maneuver`);
+  if (!response.ok) {
+    throw new Error('Failed to get maneuver');
+  }
+  return response.json();
+}
+
+/**
+ * Plan a hold, orbit or DME arc (drawn on the map until it is executed)
+ */
+export async function planManeuver(maneuver: ManeuverDefinition): Promise<ManeuverState> {
+  const response = await fetch(`${API_BASE_URL}/maneuver`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(maneuver),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to plan maneuver');
+  }
+  return result.maneuver;
+}
+
+/**
+ * Fly the planned maneuver from the current position
+ */
+export async function executeManeuver(): Promise<ManeuverState> {
+  const response = await fetch(`${API_BASE_URL}/maneuver/execute`, {
+    method: 'POST',
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to execute maneuver');
+  }
+  return result.maneuver;
+}
+
+/**
+ * Stop flying and remove the maneuver
+ */
+export async function clearManeuver(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/maneuver`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to clear maneuver');
+  }
+}
+
+export interface ImportedFlightPlan {
+  name: string | null;
+  format: 'gpx' | 'kml' | 'fpl';
+  route: RouteState;
+}
+
+/**
+ * Import a GPX, KML or Garmin FPL flight plan as the active route
+ */
+export async function importFlightPlan(file: File): Promise<ImportedFlightPlan> {
+  const response = await fetch(
+    `${API_BASE_URL}/route/import?filename=${encodeURIComponent(file.name)}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      body: await file.text(),
+    }
+  );
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Failed to import flight plan');
+  }
+  return result;
+}
+
+/**
+ * Get the track playback state
+ */
+export async function getPlaybackState(): Promise<PlaybackState> {
+  const response = await fetch(`${API_BASE_URL}/playback`);
+  if (!response.ok) {
+    throw new Error('Failed to get playback state');
+  }
+  return response.json();
+}
+
+/**
+ * Get the fixes of the loaded track
+ */
+export async function getPlaybackTrack(): Promise<TrackPoint[]> {
+  const response = await fetch(`${API_BASE_URL}/playback/track`);
+  if (!response.ok) {
+    throw new Error('Failed to get track');
+  }
+  const result = await response.json();
+  return result.points;
+}
+
+/**
+ * Load a GPX, KML, CSV or IGC track for playback
+ */
+export async function loadTrack(file: File): Promise<PlaybackState> {
+  const response = await fetch(
+    `${API_BASE_URL}/playback/load?filename=${encodeURIComponent(file.name)}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      body: await file.text(),
+    }
+  );
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Failed to load track');
+  }
+  return result.playback;
+}
+
+/**
+ * Send a playback command (play, pause, seek)
+ */
+async function sendPlaybackCommand(command: string, body?: object): Promise<PlaybackState> {
+  const response = await fetch(`${API_BASE_URL}/playback/${command}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Failed to ${command} playback`);
+  }
+  return result.playback;
+}
+
+/**
+ * Start or resume track playback
+ */
+export function playTrack(): Promise<PlaybackState> {
+  return sendPlaybackCommand('play');
+}
+
+/**
+ * Pause track playback
+ */
+export function pauseTrack(): Promise<PlaybackState> {
+  return sendPlaybackCommand('pause');
+}
+
+/**
+ * Jump to a time (seconds) in the track
+ */
+export function seekTrack(position: number): Promise<PlaybackState> {
+  return sendPlaybackCommand('seek', { position });
+}
+
+/**
+ * Update playback speed and loop mode
+ */
+export async function updatePlaybackOptions(options: { speed?: number; loop?: boolean }): Promise<PlaybackState> {
+  const response = await fetch(`${API_BASE_URL}/playback`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to update playback options');
+  }
+  return result.playback;
+}
+
+/**
+ * Unload the track
+ */
+export async function unloadTrack(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/playback`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to unload track');
+  }
+}
+
+export interface RecordingsStatus {
+  recorder: RecorderState;
+  recordings: Recording[];
+}
+
+/**
+ * Get the recording in progress and the saved recordings
+ */
+export async function getRecordings(): Promise<RecordingsStatus> {
+  const response = await fetch(`${API_BASE_URL}/recordings`);
+  if (!response.ok) {
+    throw new Error('Failed to get recordings');
+  }
+  return response.json();
+}
+
+/**
+ * Start recording the broadcast session
+ */
+export async function startRecording(format: RecordingFormat, name?: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/recordings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ format, name }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to start recording');
+  }
+}
+
+/**
+ * Stop recording and save the session
+ */
+export async function stopRecording(): Promise<Recording> {
+  const response = await fetch(`${API_BASE_URL}/recordings/stop`, {
+    method: 'POST',
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to stop recording');
+  }
+  return result.recording;
+}
+
+/**
+ * Delete a saved recording
+ */
+export async function deleteRecording(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/recordings/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete recording');
+  }
+}
+
+/**
+ * Get the download URL of a saved recording
+ */
+export function getRecordingDownloadUrl(id: string): string {
+  return `${API_BASE_URL}/recordings/${encodeURIComponent(id)}/download`;
+}
+
+/**
+ * Get the wind used by the flight engine
+ */
+export async function getWind(): Promise<WindConfig> {
+  const response = await fetch(`${API_BASE_URL}/wind`);
+  if (!response.ok) {
+    throw new Error('Failed to get wind');
+  }
+  return response.json();
+}
+
+/**
+ * Replace the wind used by the flight engine
+ */
+export async function updateWind(wind: WindConfig): Promise<WindConfig> {
+  const response = await fetch(`${API_BASE_URL}/wind`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(wind),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to update wind');
+  }
+  const { direction, speed, layers } = result;
+  return { direction, speed, layers };
+}
+
+export interface TerrainStatus {
+  directory: string;
+  tiles: number;
+  blocking: boolean;
+}
+
+/**
+ * Get the terrain tiles available and whether flight below terrain is blocked
+ */
+export async function getTerrain(): Promise<TerrainStatus> {
+  const response = await fetch(`${API_BASE_URL}/terrain`);
+  if (!response.ok) {
+    throw new Error('Failed to get terrain');
+  }
+  return response.json();
+}
+
+/**
+ * Get the ground elevation (feet MSL) at a point, or null without terrain data
+ */
+export async function getTerrainElevation(latitude: number, longitude: number): Promise<number | null> {
+  const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude) });
+  const response = await fetch(`${API_BASE_URL}/terrain/elevation?${params}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to get terrain elevation');
+  }
+  return result.elevation;
+}
+
+/**
+ * Block (or allow) flight below the terrain
+ */
+export async function setTerrainBlocking(blocking: boolean): Promise<boolean> {
+  const response = await fetch(`${API_BASE_URL}/terrain`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ blocking }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to update terrain blocking');
+  }
+  return result.blocking;
+}
+
+/**
+ * Get the synthetic traffic targets
+ */
+export async function getTraffic(): Promise<TrafficTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/traffic`);
+  if (!response.ok) {
+    throw new Error('Failed to get traffic');
+  }
+  const result = await response.json();
+  return result.targets;
+}
+
+/**
+ * Spawn randomly generated traffic around ownship
+ */
+export async function spawnTraffic(count: number, behavior?: TrafficBehavior): Promise<TrafficTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/traffic/spawn`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ count, behavior }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to spawn traffic');
+  }
+  return result.targets;
+}
+
+/**
+ * Remove a traffic target
+ */
+export async function removeTraffic(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/traffic/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to remove traffic');
+  }
+}
+
+/**
+ * Remove all traffic targets
+ */
+export async function clearTraffic(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/traffic`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to clear traffic');
+  }
+}
+
+export interface ScenariosStatus {
+  scenarios: Scenario[];
+  state: ScenarioState;
+}
+
+/**
+ * Get the built-in traffic scenarios and the scenario state
+ */
+export async function getScenarios(): Promise<ScenariosStatus> {
+  const response = await fetch(`${API_BASE_URL}/scenarios`);
+  if (!response.ok) {
+    throw new Error('Failed to get scenarios');
+  }
+  return response.json();
+}
+
+/**
+ * Start a built-in traffic scenario relative to the current position
+ */
+export async function startScenario(name: string): Promise<ScenarioState> {
+  const response = await fetch(`${API_BASE_URL}/scenarios/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to start scenario');
+  }
+  return result.state;
+}
+
+/**
+ * Stop the traffic scenario
+ */
+export async function stopScenario(): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/scenarios/stop`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to stop scenario');
+  }
+}
+
+export interface ProfilesStatus {
+  profiles: AircraftProfile[];
+  activeProfileId: string;
+  errors: { file: string; error: string }[];
+}
+
+/**
+ * Get the available aircraft profiles and the active one
+ */
+export async function getProfiles(): Promise<ProfilesStatus> {
+  const response = await fetch(`${API_BASE_URL}/profiles`);
+  if (!response.ok) {
+    throw new Error('Failed to get aircraft profiles');
+  }
+  return response.json();
+}
+
+/**
+ * Fly a different aircraft profile
+ */
+export async function selectProfile(id: string): Promise<AircraftProfile> {
+  const response = await fetch(`${API_BASE_URL}/profiles/active`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ id }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to select aircraft profile');
+  }
+  return result.profile;
+}
+
+/**
+ * Get the injected GPS failures and their current effect
+ */
+export async function getDegradation(): Promise<DegradationState> {
+  const response = await fetch(`${API_BASE_URL}/degradation`);
+  if (!response.ok) {
+    throw new Error('Failed to get GPS degradation');
+  }
+  return response.json();
+}
+
+/**
+ * Change injected GPS failures (fields left out are unchanged)
+ */
+export async function updateDegradation(changes: Partial<DegradationConfig>): Promise<DegradationState> {
+  const response = await fetch(`${API_BASE_URL}/degradation`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to update GPS degradation');
+  }
+  return result;
+}
+
+/**
+ * Restore a healthy GPS
+ */
+export async function clearDegradation(): Promise<DegradationState> {
+  const response = await fetch(`${API_BASE_URL}/degradation`, {
+    method: 'DELETE',
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to clear GPS degradation');
+  }
+  return result;
+}
+
+/**
+ * Get the additional output targets and their send counters
+ */
+export async function getOutputTargets(): Promise<OutputTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/targets`);
+  if (!response.ok) {
+    throw new Error('Failed to get output targets');
+  }
+  const result = await response.json();
+  return result.targets;
+}
+
+/**
+ * Add an output target
+ */
+export async function addOutputTarget(target: OutputTargetConfig): Promise<OutputTarget> {
+  const response = await fetch(`${API_BASE_URL}/targets`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(target),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to add output target');
+  }
+  return result.target;
+}
+
+/**
+ * Replace an output target's configuration
+ */
+export async function updateOutputTarget(id: string, target: OutputTargetConfig): Promise<OutputTarget> {
+  const response = await fetch(`${API_BASE_URL}/targets/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(target),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to update output target');
+  }
+  return result.target;
+}
+
+/**
+ * Remove an output target
+ */
+export async function removeOutputTarget(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/targets/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to remove output target');
+  }
+}
+
+type EventListener = (event: ServerEvent) => void;
+
+/**
+ * Event types the server pushes (each is an SSE event name)
+ */
+const SERVER_EVENT_TYPES: ServerEventType[] = ['position', 'state', 'phase', 'error', 'nmeaClients', 'devices'];
+
+const eventListeners = new Set<EventListener>();
+let eventSource: EventSource | null = null;
+
+/**
+ * Subscribe to one type of live server event. Every subscriber shares a
+ * single EventSource, opened for the first and closed after the last.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToEvents<T extends ServerEventType>(
+  type: T,
+  listener: (event: Extract<ServerEvent, { type: T }>) => void
+): () => void {
+  const filtered: EventListener = (event) => {
+    if (event.type === type) {
+      listener(event as Extract<ServerEvent, { type: T }>);
+    }
+  };
+  eventListeners.add(filtered);
+
+  if (!eventSource) {
+    // EventSource reconnects on its own; the server resends engine states on connect
+    eventSource = new EventSource(`${API_BASE_URL}/events`);
+    for (const eventType of SERVER_EVENT_TYPES) {
+      eventSource.addEventListener(eventType, (message) => {
+        const event: ServerEvent = JSON.parse((message as MessageEvent<string>).data);
+        eventListeners.forEach((eventListener) => eventListener(event));
+      });
+    }
+  }
+
+  return () => {
+    eventListeners.delete(filtered);
+    if (eventListeners.size === 0 && eventSource) {
+      eventSource.close();
+      eventSource = null;
+    }
+  };
+}
+
+export interface MapLayersStatus {
+  layers: MapLayer[];
+  errors: { file: string; error: string }[]; // MBTiles files that failed to open
+}
+
+/**
+ * List the offline map layers served from local MBTiles files
+ */
+export async function getMapLayers(): Promise<MapLayersStatus> {
+  const response = await fetch(TILES_BASE_URL);
+  if (!response.ok) {
+    throw new Error('Failed to get map layers');
+  }
+  return response.json();
+}
+
+/**
+ * Leaflet URL template for an offline map layer's tiles
+ */
+export function mapLayerTileUrl(layer: MapLayer): string {
+  return `${TILES_BASE_URL}/${encodeURIComponent(layer.id)}/{z}/{x}/{y}`;
+}
+
+/**
+ * Search the offline airport database by ident, code or name
+ */
+export async function searchAirports(query: string): Promise<Airport[]> {
+  const response = await fetch(`${AIRPORTS_BASE_URL}?q=${encodeURIComponent(query)}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to search airports');
+  }
+  return result.airports;
+}
+
+/**
+ * Stop the flight and place the aircraft on a runway threshold
+ */
+export async function spawnAtRunway(ident: string, runway: string): Promise<GPSPosition> {
+  const response = await fetch(`${AIRPORTS_BASE_URL}/${encodeURIComponent(ident)}/spawn`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ runway }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Failed to place aircraft on runway');
+  }
+  return result.position;
+}
+
+/**
+ * Fly a stabilized final approach to a runway and land
+ */
+export async function landAtRunway(ident: string, runway: string): Promise<void> {
+  const response = await fetch(`${AIRPORTS_BASE_URL}/${encodeURIComponent(ident)}/land`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ runway }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || 'Failed to start landing');
   }
 }
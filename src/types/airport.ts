@@ -0,0 +1,37 @@
+/**
+ * Airport Types
+ */
+
+/**
+ * One end of a runway, which aircraft take off from and land toward
+ */
+export interface RunwayEnd {
+  ident: string;              // e.g., 34L
+  latitude: number | null;    // Threshold position, if surveyed
+  longitude: number | null;
+  elevation: number | null;   // Feet MSL
+  heading: number;            // Degrees true
+  displacedThreshold: number; // Feet
+}
+
+export interface Runway {
+  length: number | null;      // Feet
+  width: number | null;       // Feet
+  surface: string;
+  lighted: boolean;
+  closed: boolean;
+  ends: RunwayEnd[];
+}
+
+export interface Airport {
+  ident: string;              // ICAO or local identifier (e.g., KDEN)
+  type: string;               // OurAirports type (large_airport, small_airport, heliport, ...)
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number | null;   // Field elevation, feet MSL
+  municipality: string;
+  country: string;            // ISO 3166-1 alpha-2
+  codes: string[];            // Other codes it is known by (GPS, IATA, local)
+  runways: Runway[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Autopilot Types
+ */
+
+/**
+ * Selected values the flight engine flies toward. A null target is not
+ * engaged, leaving that value under manual control.
+ */
+export interface AutopilotTargets {
+  altitude: number | null;  // Selected altitude, feet MSL
+  heading: number | null;   // Selected true heading, degrees (ignored while a route is flown)
+  speed: number | null;     // Selected true airspeed, knots
+  verticalSpeed: number;    // Climb/descent rate used to reach the selected altitude, feet per minute
+}
@@ -0,0 +1,36 @@
+/**
+ * GPS Degradation Types
+ */
+
+import { GPSData } from './gps';
+
+/**
+ * Failures injected into the broadcast position. All zero/false is a
+ * healthy receiver.
+ */
+export interface DegradationConfig {
+  noise: number;         // Random position error, meters (1 sigma)
+  drift: number;         // Slowly wandering position error growth, meters per minute
+  jumpInterval: number;  // Seconds between single-update position jumps (0 = off)
+  jumpDistance: number;  // Meters
+  freeze: boolean;       // Repeat the last position and time of fix (stale data)
+  lossOfFix: boolean;    // No position fix at all
+  nic: number;           // GDL 90 Navigation Integrity Category (0-11)
+  nacp: number;          // GDL 90 Navigation Accuracy Category for Position (0-11)
+}
+
+/**
+ * A broadcast position with the receiver's fix quality and GDL 90 integrity
+ */
+export interface DegradedPosition extends GPSData {
+  nic: number;
+  nacp: number;
+}
+
+/**
+ * Degradation configuration and what it is currently doing to the position
+ */
+export interface DegradationState extends DegradationConfig {
+  hasFix: boolean;
+  driftError: number;    // Meters of accumulated drift
+}
@@ -0,0 +1,14 @@
+/**
+ * Device Discovery Types
+ */
+
+/**
+ * An EFB that announced itself with a GDL 90 discovery broadcast
+ */
+export interface DiscoveredDevice {
+  address: string;           // Sender IPv4 address
+  app: string;               // Announcing app (e.g., ForeFlight)
+  gdl90Port: number | null;  // Port the app listens for GDL 90 on, if announced
+  firstSeen: number;         // Unix timestamp in milliseconds
+  lastSeen: number;          // Unix timestamp in milliseconds
+}
@@ -0,0 +1,80 @@
+/**
+ * Live Event Types
+ *
+ * Events pushed from the server as they happen (Server-Sent Events at
+ * /api/gps/events). The SSE event name is the event's type.
+ */
+
+import { DegradedPosition } from './degradation';
+import { GPSPosition } from './gps';
+import { DiscoveredDevice } from './discovery';
+import { FlightPhase, LandingClearance } from './phase';
+
+/**
+ * Parts of the simulator that run on their own
+ */
+export type EngineName = 'server' | 'flight' | 'playback' | 'scenario';
+
+/**
+ * A position update sent to the main target: the simulated aircraft's true
+ * position, and the fix as it was transmitted (after GPS degradation)
+ */
+export interface PositionEvent {
+  type: 'position';
+  position: GPSPosition;
+  fix: DegradedPosition;
+}
+
+/**
+ * An engine started or stopped
+ */
+export interface StateEvent {
+  type: 'state';
+  engine: EngineName;
+  running: boolean;
+}
+
+/**
+ * The flight engine entered a new phase
+ */
+export interface PhaseEvent {
+  type: 'phase';
+  phase: FlightPhase;
+  landing: LandingClearance | null;
+}
+
+/**
+ * A datagram could not be sent
+ */
+export interface SendErrorEvent {
+  type: 'error';
+  target: string;   // 'main' or the output target's id
+  address: string;  // Destination ip:port
+  message: string;
+}
+
+/**
+ * The number of NMEA TCP clients changed
+ */
+export interface NMEAClientsEvent {
+  type: 'nmeaClients';
+  count: number;
+}
+
+/**
+ * A discovered device announced itself
+ */
+export interface DevicesEvent {
+  type: 'devices';
+  devices: DiscoveredDevice[];
+}
+
+export type ServerEvent =
+  | PositionEvent
+  | StateEvent
+  | PhaseEvent
+  | SendErrorEvent
+  | NMEAClientsEvent
+  | DevicesEvent;
+
+export type ServerEventType = ServerEvent['type'];
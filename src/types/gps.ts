@@ -5,10 +5,13 @@ export interface GPSPosition {
   latitude: number;      // Degrees, -90 to 90
   longitude: number;     // Degrees, -180 to 180
   altitude: number;      // Feet MSL
-  heading: number;       // Degrees, 0-359
+  heading: number;       // Track over the ground, degrees true, 0-359
   groundSpeed: number;   // Knots
   verticalSpeed: number; // Feet per minute
   timestamp: number;     // Unix timestamp in milliseconds
+  trueHeading?: number;  // Degrees true, 0-359 (defaults to heading when there is no wind)
+  trueAirspeed?: number; // Knots (defaults to groundSpeed when there is no wind)
+  onGround?: boolean;    // On the ground (defaults to airborne)
 }
 
 /**
@@ -34,3 +37,14 @@ export interface GPSData extends GPSPosition {
   satelliteCount: number;
   hdop: number;           // Horizontal dilution of precision
 }
+
+/**
+ * Output protocol broadcast by the GPS data server
+ */
+export type OutputProtocol = 'xgps' | 'gdl90' | 'both';
+
+/**
+ * How the main target is addressed: one device, every device on a local
+ * subnet, or a multicast group
+ */
+export type DeliveryMode = 'unicast' | 'broadcast' | 'multicast';
@@ -0,0 +1,60 @@
+/**
+ * Maneuver Types
+ */
+
+import { Waypoint } from './route';
+
+/**
+ * Pattern the flight engine flies around a fix
+ */
+export type ManeuverType =
+  | 'hold'    // Racetrack holding pattern with the fix at the end of the inbound leg
+  | 'orbit'   // Constant-radius circle around the fix
+  | 'dmeArc'; // Arc at a constant distance from the fix between two radials
+
+export const MANEUVER_TYPES: ManeuverType[] = ['hold', 'orbit', 'dmeArc'];
+
+export type TurnDirection = 'left' | 'right';
+
+/**
+ * How the aircraft joins a holding pattern, chosen from its heading to the fix
+ */
+export type HoldEntry = 'direct' | 'teardrop' | 'parallel';
+
+export type LegUnit = 'min' | 'nm';
+
+/**
+ * Definition of a maneuver. Which of the optional fields are used depends
+ * on the type:
+ * - hold: inboundCourse, legLength and legUnit (default 1 minute legs)
+ * - orbit: radius, joined at the aircraft's radial from the fix
+ * - dmeArc: radius and endRadial; startRadial defaults to the aircraft's radial
+ */
+export interface ManeuverDefinition {
+  type: ManeuverType;
+  fix: Waypoint;              // Holding fix, orbit center or DME station
+  turnDirection: TurnDirection;
+  inboundCourse?: number;     // Course to the fix on the inbound leg, degrees true
+  legLength?: number;         // Minutes or nautical miles, per legUnit
+  legUnit?: LegUnit;
+  radius?: number;            // Nautical miles
+  startRadial?: number;       // Degrees true from the fix
+  endRadial?: number;         // Degrees true from the fix
+}
+
+export interface ManeuverPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Planned or executing maneuver, with its ground path for the map
+ */
+export interface ManeuverState {
+  maneuver: ManeuverDefinition | null;
+  active: boolean;                // Being flown by the flight engine
+  isComplete: boolean;            // True once a DME arc has been flown to its end radial
+  entry: HoldEntry | null;        // Hold entry for the aircraft's approach to the fix
+  entryPath: ManeuverPoint[];     // From the aircraft to where the pattern is joined
+  path: ManeuverPoint[];          // The pattern (a closed loop for holds and orbits)
+}
@@ -0,0 +1,13 @@
+/**
+ * Network Types
+ */
+
+/**
+ * An IPv4 address on one of the server's network interfaces
+ */
+export interface LocalInterface {
+  name: string;       // Interface name (e.g., en0, wlan0)
+  address: string;    // IPv4 address
+  netmask: string;
+  broadcast: string;  // Directed broadcast address of the subnet
+}
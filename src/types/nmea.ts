@@ -0,0 +1,24 @@
+/**
+ * NMEA 0183 Types
+ *
+ * NMEA 0183 is the ASCII sentence protocol used by most GPS receivers,
+ * moving-map apps and EFBs that accept an external GPS.
+ */
+
+/**
+ * Supported NMEA sentence types
+ */
+export type NMEASentence = 'GGA' | 'RMC' | 'VTG' | 'GSA';
+
+/**
+ * How NMEA sentences are delivered
+ * - off: NMEA output disabled
+ * - udp: sent to the target IP on the NMEA port
+ * - tcp: served on a TCP listener that clients connect to
+ */
+export type NMEATransport = 'off' | 'udp' | 'tcp';
+
+/**
+ * All supported sentences, in the order they are emitted each update
+ */
+export const NMEA_SENTENCES: NMEASentence[] = ['GGA', 'RMC', 'VTG', 'GSA'];
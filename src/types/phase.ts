@@ -0,0 +1,46 @@
+/**
+ * Flight Phase Types
+ */
+
+/**
+ * What the aircraft is doing, from the ramp to the runway and back
+ */
+export type FlightPhase =
+  | 'parked'      // Stopped on the ground
+  | 'taxi'        // Moving on the ground at taxi speed
+  | 'takeoffRoll' // Accelerating down the runway to rotation speed
+  | 'climbOut'    // Airborne, climbing on the runway heading
+  | 'enRoute'     // Flying the autopilot targets or route
+  | 'approach'    // Flying to the runway on a stabilized final
+  | 'flare'       // Arresting the descent just above the runway
+  | 'touchdown'   // Wheels on, settling onto the runway
+  | 'rollout';    // Braking on the runway
+
+/**
+ * Phases with the aircraft on the ground (the GDL 90 air/ground state)
+ */
+export const GROUND_PHASES: FlightPhase[] = ['parked', 'taxi', 'takeoffRoll', 'touchdown', 'rollout'];
+
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+  parked: 'Parked',
+  taxi: 'Taxi',
+  takeoffRoll: 'Takeoff roll',
+  climbOut: 'Climb-out',
+  enRoute: 'En route',
+  approach: 'Approach',
+  flare: 'Flare',
+  touchdown: 'Touchdown',
+  rollout: 'Rollout',
+};
+
+/**
+ * Runway threshold the aircraft is cleared to land on
+ */
+export interface LandingClearance {
+  airport: string;    // Airport ident
+  runway: string;     // Runway end ident (e.g., 34L)
+  latitude: number;   // Threshold position
+  longitude: number;
+  elevation: number;  // Threshold elevation, feet MSL
+  heading: number;    // Runway heading, degrees true
+}
@@ -0,0 +1,23 @@
+/**
+ * Aircraft Profile Types
+ */
+
+/**
+ * Performance and identity of a simulated aircraft type. The profile bounds
+ * the flight engine and identifies ownship in GDL 90 output.
+ */
+export interface AircraftProfile {
+  id: string;               // Short identifier (e.g., c172)
+  name: string;             // Display name
+  callsign: string;         // Up to 8 characters, sent in the GDL 90 Ownship Report
+  emitterCategory: number;  // GDL 90 emitter category (1 = light, 2 = small, 3 = large, ...)
+  cruiseSpeed: number;      // Knots true airspeed
+  maxSpeed: number;         // Knots true airspeed
+  climbRate: number;        // Maximum climb, feet per minute
+  descentRate: number;      // Maximum descent, feet per minute (positive)
+  turnRate: number;         // Autopilot turn rate, degrees per second
+  acceleration: number;     // Speed change rate, knots per second
+  serviceCeiling: number;   // Feet MSL
+  rotateSpeed?: number;     // Takeoff rotation, knots true airspeed (default 45% of cruise)
+  approachSpeed?: number;   // Final approach, knots true airspeed (default 120% of rotation)
+}
@@ -0,0 +1,29 @@
+/**
+ * Session Recording Types
+ */
+
+/**
+ * File formats a broadcast session can be recorded to
+ */
+export type RecordingFormat = 'gpx' | 'kml' | 'csv';
+
+/**
+ * A saved recording
+ */
+export interface Recording {
+  id: string;           // File name in the recordings directory
+  format: RecordingFormat;
+  size: number;         // Bytes
+  createdAt: number;    // Unix timestamp in milliseconds
+}
+
+/**
+ * State of the recording in progress
+ */
+export interface RecorderState {
+  isRecording: boolean;
+  format: RecordingFormat | null;
+  name: string | null;
+  startedAt: number | null;  // Unix timestamp in milliseconds
+  pointCount: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * Route Types
+ */
+
+/**
+ * A point the simulated aircraft flies to
+ */
+export interface Waypoint {
+  latitude: number;   // Degrees, -90 to 90
+  longitude: number;  // Degrees, -180 to 180
+  altitude?: number;  // Feet MSL (optional)
+  name?: string;      // Identifier shown on the map (optional)
+}
+
+/**
+ * Route and progress along it
+ */
+export interface RouteState {
+  waypoints: Waypoint[];
+  activeWaypointIndex: number | null; // Waypoint currently being flown to, null if none
+  isComplete: boolean;                // True once the last waypoint has been passed
+}
@@ -0,0 +1,53 @@
+/**
+ * Traffic Scenario Types
+ */
+
+/**
+ * An intruder placed relative to ownship when the scenario starts (or when
+ * its delay elapses). Intruders fly straight at constant speed, so with
+ * ownship holding its track and speed the encounter plays out exactly as
+ * scripted.
+ */
+export interface ScenarioIntruder {
+  callsign?: string;        // Defaults to a generated N-number
+  icaoAddress?: number;     // Defaults to a generated address
+  relativeBearing: number;  // Degrees clockwise from ownship's track (2 o'clock = 60)
+  range: number;            // Nautical miles
+  altitudeDelta: number;    // Feet relative to ownship (negative = below)
+  closureRate: number;      // Knots, rate the intruder closes on ownship
+  verticalSpeed?: number;   // Feet per minute relative to ownship (default 0)
+  missDistance?: number;    // Nautical miles at closest approach, passing ahead of ownship (default 0)
+  delay?: number;           // Seconds after the scenario starts before the intruder appears (default 0)
+}
+
+/**
+ * A scripted traffic encounter
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  intruders: ScenarioIntruder[];
+}
+
+/**
+ * Predicted timeline of one intruder, in seconds from scenario start
+ */
+export interface ScenarioIntruderTimeline {
+  callsign: string;
+  targetId: string | null;       // Traffic target ID once the intruder has appeared
+  appearsAt: number;
+  alertAt: number | null;        // When the intruder enters the traffic alert volume, null if never
+  closestApproachAt: number;
+  closestApproachRange: number;  // Nautical miles
+  closestApproachAltitude: number; // Feet relative to ownship
+}
+
+/**
+ * Scenario playback state
+ */
+export interface ScenarioState {
+  isRunning: boolean;
+  name: string | null;
+  elapsed: number;  // Seconds since the scenario started
+  intruders: ScenarioIntruderTimeline[];
+}
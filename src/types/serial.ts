@@ -0,0 +1,16 @@
+/**
+ * Virtual Serial Port Types
+ */
+
+/**
+ * Protocol written to the virtual serial port
+ * - off: no virtual serial port is created
+ * - nmea: NMEA 0183 sentences (for gpsd and most desktop apps)
+ * - gdl90: framed GDL 90 messages (for serial GDL 90 receivers)
+ */
+export type SerialOutput = 'off' | 'nmea' | 'gdl90';
+
+/**
+ * Baud rates offered for the virtual serial port
+ */
+export const SERIAL_BAUD_RATES = [4800, 9600, 19200, 38400, 57600, 115200];
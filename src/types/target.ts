@@ -0,0 +1,37 @@
+/**
+ * Output Target Types
+ */
+
+/**
+ * Protocol sent to an output target
+ */
+export type TargetProtocol = 'xgps' | 'gdl90' | 'nmea';
+
+export const TARGET_PROTOCOLS: TargetProtocol[] = ['xgps', 'gdl90', 'nmea'];
+
+/**
+ * A device or application the GPS data server sends to, alongside the
+ * main target
+ */
+export interface OutputTargetConfig {
+  name: string;              // Label (e.g., "Garmin Pilot phone")
+  ip: string;                // Target IP address
+  port: number;              // UDP port
+  protocol: TargetProtocol;
+  updateRate: number;        // Position updates per second (1-10 Hz)
+  enabled: boolean;
+}
+
+/**
+ * Send counters for an output target
+ */
+export interface OutputTargetStats {
+  sent: number;              // Datagrams sent
+  errors: number;            // Datagrams that failed to send
+  lastError: string | null;
+}
+
+export interface OutputTarget extends OutputTargetConfig {
+  id: string;
+  stats: OutputTargetStats;
+}
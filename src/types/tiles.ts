@@ -0,0 +1,19 @@
+/**
+ * Map Tile Types
+ */
+
+export type TileFormat = 'png' | 'jpg' | 'webp';
+
+/**
+ * A raster map layer served from a local MBTiles file
+ */
+export interface MapLayer {
+  id: string;            // From the file name; used in /api/tiles/:layer/:z/:x/:y
+  name: string;
+  format: TileFormat;
+  minZoom: number;
+  maxZoom: number;
+  bounds: [number, number, number, number] | null;  // West, south, east, north in degrees
+  attribution: string | null;
+  overlay: boolean;      // Drawn over a base layer (e.g., a sectional chart) rather than replacing it
+}
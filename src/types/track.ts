@@ -0,0 +1,33 @@
+/**
+ * Track Types
+ */
+
+/**
+ * A timestamped fix from a recorded flight track
+ */
+export interface TrackPoint {
+  latitude: number;   // Degrees, -90 to 90
+  longitude: number;  // Degrees, -180 to 180
+  altitude: number;   // Feet MSL
+  timestamp: number;  // Unix timestamp in milliseconds
+}
+
+/**
+ * Track file formats that can be replayed
+ */
+export type TrackFormat = 'gpx' | 'kml' | 'csv' | 'igc';
+
+/**
+ * Track playback state
+ */
+export interface PlaybackState {
+  isLoaded: boolean;
+  isPlaying: boolean;
+  name: string | null;
+  format: TrackFormat | null;
+  pointCount: number;
+  duration: number;  // Seconds from first to last fix
+  position: number;  // Seconds into the track
+  speed: number;     // Playback speed multiplier
+  loop: boolean;     // Restart from the beginning at the end of the track
+}
@@ -0,0 +1,52 @@
+/**
+ * Traffic Types
+ */
+
+import { Waypoint } from './route';
+
+/**
+ * How a synthetic traffic target moves
+ */
+export type TrafficBehavior = 'orbit' | 'crossing' | 'route' | 'converging';
+
+export const TRAFFIC_BEHAVIORS: TrafficBehavior[] = ['orbit', 'crossing', 'route', 'converging'];
+
+/**
+ * Definition of a synthetic traffic target. Which of the optional fields are
+ * required depends on the behavior:
+ * - orbit: latitude/longitude of the orbit center, radius
+ * - crossing: latitude/longitude start point and heading (flies straight)
+ * - route: waypoints (flown in a loop)
+ * - converging: latitude/longitude start point (steers toward ownship)
+ */
+export interface TrafficDefinition {
+  callsign: string;         // Up to 8 characters
+  icaoAddress: number;      // 24-bit ICAO address
+  altitude: number;         // Feet MSL
+  groundSpeed: number;      // Knots
+  verticalSpeed?: number;   // Feet per minute (converging targets use it to reach ownship's altitude)
+  emitterCategory?: number; // GDL 90 emitter category (default 1, light aircraft)
+  behavior: TrafficBehavior;
+  latitude?: number;        // Degrees
+  longitude?: number;       // Degrees
+  heading?: number;         // Degrees true
+  radius?: number;          // Orbit radius, nautical miles
+  clockwise?: boolean;      // Orbit direction (default clockwise)
+  waypoints?: Waypoint[];
+}
+
+/**
+ * A live traffic target
+ */
+export interface TrafficTarget extends TrafficDefinition {
+  id: string;
+  position: {
+    latitude: number;
+    longitude: number;
+    altitude: number;
+    track: number;          // Degrees true
+    groundSpeed: number;    // Knots
+    verticalSpeed: number;  // Feet per minute
+  };
+  alert: boolean;           // Within the traffic alert volume around ownship
+}
@@ -0,0 +1,22 @@
+/**
+ * Wind Types
+ */
+
+/**
+ * Wind at a single altitude
+ */
+export interface WindLayer {
+  altitude: number;   // Feet MSL
+  direction: number;  // Direction the wind blows from, degrees true
+  speed: number;      // Knots
+}
+
+/**
+ * Wind configuration. When layers are given, wind is interpolated between
+ * them by altitude; otherwise direction and speed apply at all altitudes.
+ */
+export interface WindConfig {
+  direction: number;  // Direction the wind blows from, degrees true
+  speed: number;      // Knots
+  layers: WindLayer[];
+}